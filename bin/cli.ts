@@ -26,9 +26,17 @@ const { values } = parseArgs({
       type: 'string',
       description: 'Persistent browser profile directory'
     },
+    'downloads-dir': {
+      type: 'string',
+      description: 'Directory downloads are saved to'
+    },
     port: { 
       type: 'string',
-      description: 'HTTP/SSE transport port (future use)'
+      description: 'Serve over HTTP (Streamable HTTP + SSE) on this port instead of stdio'
+    },
+    host: {
+      type: 'string',
+      description: 'Host to bind the HTTP server to (default: 127.0.0.1)'
     },
     help: { 
       type: 'boolean', 
@@ -50,7 +58,9 @@ Options:
   --headless               Run browser in headless mode (default: false)
   --cdp-endpoint <url>     Connect to existing browser via CDP endpoint
   --user-data-dir <path>   Use persistent browser profile directory
-  --port <port>            HTTP/SSE transport port (future use)
+  --downloads-dir <path>   Save downloads here (default: <tmpdir>/even-better-playwright-mcp/downloads)
+  --port <port>            Serve over HTTP (Streamable HTTP + SSE) instead of stdio
+  --host <host>            HTTP bind address (default: 127.0.0.1)
   -h, --help               Show this help message
 
 Examples:
@@ -65,6 +75,9 @@ Examples:
 
   # Use persistent profile
   even-better-playwright-mcp --user-data-dir ./browser-profile
+
+  # Shared server over HTTP (clients connect to http://127.0.0.1:8931/mcp)
+  even-better-playwright-mcp --headless --port 8931
 `);
   process.exit(0);
 }
@@ -75,6 +88,7 @@ const config: BrowserConfig = {
   headless: values.headless ?? false,
   cdpEndpoint: values['cdp-endpoint'],
   userDataDir: values['user-data-dir'],
+  downloadsDir: values['downloads-dir'],
 };
 
 // Validate browser option
@@ -83,8 +97,15 @@ if (!['chromium', 'firefox', 'webkit'].includes(config.browser!)) {
   process.exit(1);
 }
 
+// Validate port option
+const port = values.port !== undefined ? Number(values.port) : undefined;
+if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+  console.error(`Error: Invalid port "${values.port}".`);
+  process.exit(1);
+}
+
 // Start the MCP server with configuration
-startServer(config).catch((error) => {
+startServer(config, { port, host: values.host }).catch((error) => {
   console.error('Failed to start server:', error);
   process.exit(1);
 });
@@ -14,16 +14,33 @@ import {
 } from 'playwright';
 import { setupPageConsoleListener } from './utils/browser-logs.js';
 import { NetworkCapture } from './utils/network-capture.js';
+import { HarReplayer } from './utils/har.js';
+import { RouteManager } from './utils/route-manager.js';
+import { RefResolver, type ResolvedRef } from './utils/ref-resolver.js';
+import { SessionRecorder } from './utils/session-recorder.js';
+import type { FoldedList } from './types/outline.js';
+import { labelFrames, locatorForRef, type FrameMap } from './utils/frame-refs.js';
+import { PageEventBroker } from './utils/page-events.js';
+import { EmulationManager } from './utils/emulation.js';
 
 /**
- * Get accessibility snapshot from Playwright's internal API.
- * Standalone utility function that can be used without BrowserManager.
+ * Get accessibility snapshot from Playwright's internal API, plus the frames
+ * its frame-qualified refs (f1e5) belong to. Iframe lines are labelled with [url=...].
+ * Open shadow roots are inlined by Playwright.
  */
-export async function getAccessibilitySnapshot(page: Page): Promise<string> {
+export async function getFrameAwareSnapshot(page: Page): Promise<{ snapshot: string; frames: FrameMap }> {
   // Use Playwright's internal _snapshotForAI method
   // Returns { full: string, incremental: string }
   const result = await (page as any)._snapshotForAI();
-  return result.full;
+  return labelFrames(page, result.full);
+}
+
+/**
+ * Get accessibility snapshot from Playwright's internal API.
+ * Standalone utility function that can be used without BrowserManager.
+ */
+export async function getAccessibilitySnapshot(page: Page): Promise<string> {
+  return (await getFrameAwareSnapshot(page)).snapshot;
 }
 
 /**
@@ -34,11 +51,25 @@ export interface BrowserConfig {
   headless?: boolean;
   cdpEndpoint?: string;
   userDataDir?: string;
+  downloadsDir?: string;           // Where downloads are saved (default: <tmpdir>/even-better-playwright-mcp/downloads)
   isolated?: boolean;              // Force ephemeral context (overrides userDataDir)
   launchOptions?: LaunchOptions;   // Pass-through to Playwright launch
   contextOptions?: BrowserContextOptions; // Pass-through to Playwright context
 }
 
+/**
+ * Options for how a BrowserManager obtains its browser
+ */
+export interface BrowserManagerOptions {
+  /**
+   * Provides an already-running browser to open this manager's context in.
+   * When it resolves to a browser, the manager owns only its context and
+   * leaves the browser running on close. Resolving to null falls back to a
+   * normal isolated launch.
+   */
+  browserProvider?: () => Promise<Browser | null>;
+}
+
 interface BrowserState {
   browser: Browser | null;
   context: BrowserContext | null;
@@ -51,13 +82,32 @@ export class BrowserManager {
   private state: BrowserState;
   private userState: Record<string, unknown>;
   private config: BrowserConfig;
-  private lastSnapshots: WeakMap<Page, string>;      // Per-page snapshot tracking
+  private lastSnapshots: WeakMap<Page, Map<string, string>>;  // Per-page, per-scope snapshot tracking
+  private listIndexes: WeakMap<Page, FoldedList[]>;  // Lists folded in the last outline, per page
   private browserLogs: Map<string, string[]>;         // Browser console logs
   private networkCaptureInstance: NetworkCapture | null;  // Network request capture
-
-  constructor(config?: BrowserConfig) {
+  private harReplayer: HarReplayer;                   // HAR replay through route handlers
+  private routeManager: RouteManager;                 // Mocking rules, re-applied on relaunch
+  private browserProvider: (() => Promise<Browser | null>) | null;
+  private ownsBrowser: boolean;                       // False when borrowing a shared browser
+  private pages: Page[];                              // Open tabs, in opening order
+  private refResolver: RefResolver;                   // Ref fingerprints for re-resolution
+  private recorder: SessionRecorder;                  // Opt-in browser_execute recording
+  private eventBroker: PageEventBroker;               // Dialogs, downloads and file choosers
+  private emulation: EmulationManager;                // Device / environment emulation, kept across contexts
+
+  constructor(config?: BrowserConfig, options?: BrowserManagerOptions) {
     // Validate and normalize config
     this.config = { ...config };
+    this.browserProvider = options?.browserProvider ?? null;
+    this.ownsBrowser = true;
+    this.pages = [];
+    this.refResolver = new RefResolver();
+    this.recorder = new SessionRecorder();
+    this.harReplayer = new HarReplayer();
+    this.routeManager = new RouteManager();
+    this.eventBroker = new PageEventBroker(this.config.downloadsDir);
+    this.emulation = new EmulationManager(this.config.browser ?? 'chromium', this.config.contextOptions);
 
     // Warn if isolated + userDataDir both set
     if (this.config.isolated && this.config.userDataDir) {
@@ -74,6 +124,7 @@ export class BrowserManager {
     };
     this.userState = {};
     this.lastSnapshots = new WeakMap();
+    this.listIndexes = new WeakMap();
     this.browserLogs = new Map();
     this.networkCaptureInstance = null;
   }
@@ -101,34 +152,35 @@ export class BrowserManager {
       return this.state.page;
     }
 
+    // Context still open but every tab was closed - just open a new tab
+    if (this.state.context) {
+      this.state.page = await this.state.context.newPage();
+      return this.state.page;
+    }
+
     const browserType = this.getBrowserType();
     const config = this.config;
-
-    // Three paths:
+    const sharedBrowser = this.browserProvider ? await this.browserProvider() : null;
+
+    // Four paths:
+    // 0. New context inside a browser shared with other sessions
+    if (sharedBrowser) {
+      this.state.browser = sharedBrowser;
+      this.ownsBrowser = false;
+      this.state.context = await sharedBrowser.newContext(this.emulation.contextOptions());
+    }
     // 1. Connect via CDP to existing browser
-    if (config.cdpEndpoint) {
+    else if (config.cdpEndpoint) {
       this.state.browser = await browserType.connectOverCDP(config.cdpEndpoint);
       const contexts = this.state.browser.contexts();
-      this.state.context = contexts[0] || await this.state.browser.newContext({
-        viewport: { width: 1280, height: 720 },
-        ...config.contextOptions,
-      });
-      const pages = this.state.context.pages();
-      this.state.page = pages[0] || await this.state.context.newPage();
-
-      // Set up console listener for existing pages
-      pages.forEach(page => setupPageConsoleListener(page, this.browserLogs));
-
-      // Set up console listener for future pages
-      this.state.context.on('page', (page) => setupPageConsoleListener(page, this.browserLogs));
+      this.state.context = contexts[0] || await this.state.browser.newContext(this.emulation.contextOptions());
     }
     // 2. Persistent context with user data directory (if not isolated)
     else if (config.userDataDir && !config.isolated) {
       const launchOptions: Parameters<typeof browserType.launchPersistentContext>[1] = {
         headless: config.headless ?? false,
-        viewport: { width: 1280, height: 720 },
         ...config.launchOptions,
-        ...config.contextOptions,
+        ...this.emulation.contextOptions(),
       };
 
       this.state.context = await browserType.launchPersistentContext(
@@ -136,10 +188,6 @@ export class BrowserManager {
         launchOptions
       );
       this.state.browser = null; // Persistent context doesn't expose browser
-      this.state.page = this.state.context.pages()[0] || await this.state.context.newPage();
-
-      setupPageConsoleListener(this.state.page, this.browserLogs);
-      this.state.context.on('page', (page) => setupPageConsoleListener(page, this.browserLogs));
     }
     // 3. Standard launch (new browser instance / isolated mode)
     else {
@@ -147,23 +195,53 @@ export class BrowserManager {
         headless: config.headless ?? false,
         ...config.launchOptions,
       });
-      this.state.context = await this.state.browser.newContext({
-        viewport: { width: 1280, height: 720 },
-        ...config.contextOptions,
-      });
-      this.state.page = await this.state.context.newPage();
+      this.state.context = await this.state.browser.newContext(this.emulation.contextOptions());
+    }
+
+    // Register existing pages and every page opened later (new tabs, popups)
+    this.state.context.pages().forEach((page) => this.registerPage(page));
+    this.state.context.on('page', (page) => this.registerPage(page));
 
-      setupPageConsoleListener(this.state.page, this.browserLogs);
-      this.state.context.on('page', (page) => setupPageConsoleListener(page, this.browserLogs));
+    // Mocking rules and emulation set before a relaunch keep applying to the new context
+    await this.routeManager.attach(this.state.context);
+    if (this.emulation.isActive()) {
+      // A CDP browser's existing context was created without our options
+      await this.emulation.applyToContext(this.state.context).catch(() => {});
     }
 
-    // Set reasonable timeouts
-    this.state.page.setDefaultNavigationTimeout(60000);
-    this.state.page.setDefaultTimeout(5000);
+    this.state.page = this.pages[0] || await this.state.context.newPage();
 
     return this.state.page;
   }
 
+  /**
+   * Track a page in the tab list and set up its console listener.
+   * When the current page closes, the most recently opened remaining tab becomes current.
+   */
+  private registerPage(page: Page): void {
+    if (this.pages.includes(page)) {
+      return;
+    }
+
+    this.pages.push(page);
+    setupPageConsoleListener(page, this.browserLogs);
+    this.eventBroker.attachPage(page);
+    if (this.emulation.isActive()) {
+      this.emulation.applyToPage(page).catch(() => {});
+    }
+
+    // Set reasonable timeouts
+    page.setDefaultNavigationTimeout(60000);
+    page.setDefaultTimeout(5000);
+
+    page.on('close', () => {
+      this.pages = this.pages.filter((p) => p !== page);
+      if (this.state.page === page) {
+        this.state.page = this.pages[this.pages.length - 1] ?? null;
+      }
+    });
+  }
+
   /**
    * Get current page, launching browser if needed
    */
@@ -174,6 +252,132 @@ export class BrowserManager {
     return this.state.page;
   }
 
+  /**
+   * Get the current page without launching a browser or opening a tab (null if none)
+   */
+  getCurrentPage(): Page | null {
+    return this.state.page;
+  }
+
+  /**
+   * Get all open tabs in this session, in the order they were opened
+   */
+  getPages(): Page[] {
+    return [...this.pages];
+  }
+
+  /**
+   * Get the tab index of a page, or -1 if it is not tracked
+   */
+  getPageIndex(page: Page): number {
+    return this.pages.indexOf(page);
+  }
+
+  /**
+   * Make the tab at index the current page for all tools
+   */
+  async selectPage(index: number): Promise<Page> {
+    await this.getPage();
+    const page = this.pages[index];
+
+    if (!page) {
+      throw new Error(`Tab ${index} not found. Open tabs: 0-${this.pages.length - 1}`);
+    }
+
+    this.state.page = page;
+    return page;
+  }
+
+  /**
+   * Open a new tab, optionally navigate it, and make it current
+   */
+  async newPage(url?: string): Promise<Page> {
+    await this.getPage();
+    const page = await this.state.context!.newPage();
+    this.registerPage(page);
+    this.state.page = page;
+
+    if (url) {
+      await page.goto(url, { waitUntil: 'domcontentloaded' });
+    }
+
+    return page;
+  }
+
+  /**
+   * Close the tab at index (defaults to the current tab)
+   */
+  async closePage(index?: number): Promise<void> {
+    const current = await this.getPage();
+    const page = index === undefined ? current : this.pages[index];
+
+    if (!page) {
+      throw new Error(`Tab ${index} not found. Open tabs: 0-${this.pages.length - 1}`);
+    }
+
+    await page.close();
+  }
+
+  /**
+   * Replace the session's context with a new one in the same browser, e.g. to load a saved
+   * storage state. Open tabs are reopened at their URLs; mocking rules and network capture
+   * carry over, HAR replay stops (reported in harReplayStopped).
+   */
+  async recreateContext(options: BrowserContextOptions = {}): Promise<{ page: Page; harReplayStopped: boolean }> {
+    const current = await this.getPage();
+
+    if (!this.state.browser) {
+      throw new Error('A persistent profile (--user-data-dir) has a single context and cannot be replaced. Restart without it or use a session.');
+    }
+
+    const urls = this.pages.map((page) => page.url());
+    const previousPages = this.pages;
+    const currentIndex = Math.max(0, this.pages.indexOf(current));
+    const previous = this.state.context!;
+
+    const context = await this.state.browser.newContext({
+      ...this.emulation.contextOptions(),
+      ...options,
+    });
+
+    const harReplayStopped = this.harReplayer.isActive();
+    await this.harReplayer.stop();
+    this.pages = [];
+    this.state.page = null;
+    this.state.context = context;
+    context.on('page', (page) => this.registerPage(page));
+    await this.routeManager.attach(context);
+
+    // CDP connections share their default context with the outside world - leave it open
+    if (!this.config.cdpEndpoint || previous !== this.state.browser.contexts()[0]) {
+      await previous.close();
+    }
+
+    for (const url of urls.length > 0 ? urls : ['about:blank']) {
+      const page = await context.newPage();
+      this.registerPage(page);
+      if (url !== 'about:blank') {
+        await page.goto(url, { waitUntil: 'domcontentloaded' }).catch(() => {});
+      }
+    }
+
+    this.state.page = this.pages[currentIndex] ?? this.pages[0];
+
+    // Keep capturing (and the captured history) on the context or the reopened tab
+    const capture = this.networkCaptureInstance;
+    const captureTarget = capture?.getTarget();
+    if (capture && captureTarget) {
+      const tabIndex = previousPages.indexOf(captureTarget as Page);
+      if (captureTarget === previous) {
+        capture.retarget(previous, context);
+      } else if (tabIndex !== -1 && this.pages[tabIndex]) {
+        capture.retarget(captureTarget, this.pages[tabIndex]);
+      }
+    }
+
+    return { page: this.state.page, harReplayStopped };
+  }
+
   /**
    * Get current browser context
    */
@@ -219,16 +423,47 @@ export class BrowserManager {
 
   /**
    * Get last snapshot for a specific page
+   * scope identifies a scoped snapshot (e.g. "ref=e5"); '' is the full page.
+   */
+  getLastSnapshotForPage(page: Page, scope = ''): string | null {
+    return this.lastSnapshots.get(page)?.get(scope) || null;
+  }
+
+  /**
+   * Set last snapshot for a specific page and scope
+   */
+  setLastSnapshotForPage(page: Page, snapshot: string, scope = ''): void {
+    let scopes = this.lastSnapshots.get(page);
+    if (!scopes) {
+      scopes = new Map();
+      this.lastSnapshots.set(page, scopes);
+    }
+    scopes.set(scope, snapshot);
+  }
+
+  /**
+   * Get the lists folded in the last compressed snapshot of a page
+   */
+  getListIndexForPage(page: Page): FoldedList[] {
+    return this.listIndexes.get(page) || [];
+  }
+
+  /**
+   * Set the folded list index for a page
    */
-  getLastSnapshotForPage(page: Page): string | null {
-    return this.lastSnapshots.get(page) || null;
+  setListIndexForPage(page: Page, lists: FoldedList[]): void {
+    this.listIndexes.set(page, lists);
   }
 
   /**
-   * Set last snapshot for a specific page
+   * Add lists from a partial outline (expanded or scoped), replacing lists in the same containers
    */
-  setLastSnapshotForPage(page: Page, snapshot: string): void {
-    this.lastSnapshots.set(page, snapshot);
+  mergeListIndexForPage(page: Page, lists: FoldedList[]): void {
+    const containers = new Set(lists.map((list) => list.containerRef));
+    this.listIndexes.set(page, [
+      ...this.getListIndexForPage(page).filter((list) => !containers.has(list.containerRef)),
+      ...lists,
+    ]);
   }
 
   /**
@@ -248,38 +483,87 @@ export class BrowserManager {
     return this.networkCaptureInstance;
   }
 
+  /**
+   * Get the HAR replayer for this session
+   */
+  getHarReplayer(): HarReplayer {
+    return this.harReplayer;
+  }
+
+  /**
+   * Get the network mocking rules for this session
+   */
+  getRouteManager(): RouteManager {
+    return this.routeManager;
+  }
+
+  /**
+   * Get the device / environment emulation settings for this session
+   */
+  getEmulation(): EmulationManager {
+    return this.emulation;
+  }
+
+  /**
+   * Get the dialog / download / file chooser broker for this session
+   */
+  getEventBroker(): PageEventBroker {
+    return this.eventBroker;
+  }
+
   /**
    * Get snapshot for AI using Playwright's internal API
    * Returns accessibility snapshot with refs like [ref=e1]
+   * Every snapshot is fingerprinted so its refs can survive navigation.
    */
   async getSnapshot(page: Page): Promise<string> {
-    return getAccessibilitySnapshot(page);
+    const { snapshot, frames } = await getFrameAwareSnapshot(page);
+    this.refResolver.recordSnapshot(page, snapshot, frames);
+    return snapshot;
+  }
+
+  /**
+   * Get the ref resolver holding fingerprints for this session's snapshots
+   */
+  getRefResolver(): RefResolver {
+    return this.refResolver;
+  }
+
+  /**
+   * Get the session recorder for browser_execute calls
+   */
+  getRecorder(): SessionRecorder {
+    return this.recorder;
   }
 
   /**
    * Get locator for element by aria ref
-   * The ref system uses aria-ref selector engine built into Playwright
+   * The ref system uses aria-ref selector engine built into Playwright;
+   * frame-qualified refs (f1e5) are located inside their iframe.
    */
   getRefLocator(page: Page, ref: string) {
-    return page.locator(`aria-ref=${ref}`);
+    return locatorForRef(page, ref, this.refResolver.getFrames(page));
   }
 
   /**
-   * Validate that a ref exists in snapshot and return locator
+   * Resolve a ref to a locator, re-resolving it by fingerprint if the page navigated
+   * since the ref was captured. Refs never seen in a snapshot are checked against a fresh one.
+   */
+  async resolveRef(page: Page, ref: string): Promise<ResolvedRef> {
+    if (!this.refResolver.getFingerprint(page, ref)) {
+      await this.getSnapshot(page);
+    }
+    return this.refResolver.resolve(page, ref);
+  }
+
+  /**
+   * Resolve a ref (see resolveRef) and return its locator
    */
   async refLocator(
     page: Page,
     params: { ref: string; element?: string }
   ): Promise<ReturnType<Page['locator']>> {
-    const snapshot = await this.getSnapshot(page);
-
-    if (!snapshot.includes(`[ref=${params.ref}]`)) {
-      throw new Error(
-        `Ref ${params.ref} not found in the current page snapshot. Try capturing a new snapshot.`
-      );
-    }
-
-    const locator = this.getRefLocator(page, params.ref);
+    const { locator } = await this.resolveRef(page, params.ref);
 
     if (params.element) {
       return locator.describe(params.element);
@@ -296,9 +580,12 @@ export class BrowserManager {
     if (this.networkCaptureInstance) {
       this.networkCaptureInstance.stop();
     }
+    await this.harReplayer.stop();
+    this.routeManager.detach();
+    this.eventBroker.reset();
 
-    // Close browser or context
-    if (this.state.browser) {
+    // Close browser or context (a shared browser belongs to someone else)
+    if (this.state.browser && this.ownsBrowser) {
       await this.state.browser.close();
     } else if (this.state.context) {
       // Close persistent context
@@ -310,6 +597,8 @@ export class BrowserManager {
     this.state.context = null;
     this.state.page = null;
     this.state.lastSnapshot = null;
+    this.ownsBrowser = true;
+    this.pages = [];
 
     // Clear user state on browser restart
     this.clearUserState();
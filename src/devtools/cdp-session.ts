@@ -7,6 +7,8 @@ import type { Page, CDPSession } from 'playwright';
 
 // Cache CDP sessions per page to avoid creating multiple sessions
 const sessionCache = new WeakMap<Page, CDPSession>();
+// Sessions where a debugger or editor relies on the Debugger domain staying enabled
+const debuggerUsers = new WeakSet<CDPSession>();
 
 /**
  * Get or create a CDP session for the given page.
@@ -40,4 +42,16 @@ export function clearCDPSession(page: Page): void {
   sessionCache.delete(page);
 }
 
+/**
+ * Record that a helper keeps the Debugger domain enabled on this session, so helpers that
+ * only enable it briefly (coverage) leave it on.
+ */
+export function markDebuggerInUse(cdp: CDPSession): void {
+  debuggerUsers.add(cdp);
+}
+
+export function isDebuggerInUse(cdp: CDPSession): boolean {
+  return debuggerUsers.has(cdp);
+}
+
 export type { CDPSession };
@@ -0,0 +1,458 @@
+/**
+ * JavaScript and CSS code coverage via Chrome DevTools Protocol.
+ * Reports used/unused ranges per script and stylesheet, unused CSS rules,
+ * and marks executed lines in editor.read output.
+ */
+
+import type { CDPSession } from 'playwright';
+import type { ReadResult } from './editor.js';
+import { isDebuggerInUse } from './cdp-session.js';
+import { formatBytes } from '../utils/format-bytes.js';
+
+export interface CoverageRange {
+  start: number;                       // Character offset
+  end: number;                         // Exclusive
+  startLine: number;                   // 1-based, like editor.read
+  endLine: number;
+}
+
+export interface UnusedRule {
+  selector: string;
+  line: number;
+}
+
+export interface CoverageEntry {
+  type: 'js' | 'css';
+  url: string;                         // Same URL createEditor lists
+  totalBytes: number;
+  usedBytes: number;
+  usedRanges: CoverageRange[];
+  unusedRanges: CoverageRange[];
+  rules?: { used: number; total: number };   // css only
+  unusedRules?: UnusedRule[];                // css only
+}
+
+export interface CoverageResult {
+  entries: CoverageEntry[];            // Sorted by unused bytes
+}
+
+export interface Coverage {
+  start(options?: { js?: boolean; css?: boolean }): Promise<void>;
+  stop(): Promise<CoverageResult>;
+  isRecording(): boolean;
+  annotate(options: { url: string; content: ReadResult }): ReadResult;
+}
+
+interface ScriptCoverage {
+  scriptId: string;
+  url: string;
+  functions: Array<{
+    functionName: string;
+    ranges: Array<{ startOffset: number; endOffset: number; count: number }>;
+  }>;
+}
+
+interface RuleUsage {
+  styleSheetId: string;
+  startOffset: number;
+  endOffset: number;
+  used: boolean;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const MAX_UNUSED_RULES = 200;
+
+function isInternalUrl(url: string): boolean {
+  return url.startsWith('chrome') || url.startsWith('devtools') || url.startsWith('extensions::') ||
+    url.startsWith('__playwright');
+}
+
+/**
+ * Flatten V8's nested block ranges into disjoint executed spans: the innermost range wins
+ */
+function executedSpans(functions: ScriptCoverage['functions']): Span[] {
+  const points: Array<{ offset: number; start: boolean; length: number; count: number }> = [];
+  for (const fn of functions) {
+    for (const range of fn.ranges) {
+      const length = range.endOffset - range.startOffset;
+      points.push({ offset: range.startOffset, start: true, length, count: range.count });
+      points.push({ offset: range.endOffset, start: false, length, count: range.count });
+    }
+  }
+  // Ends before starts; outer ranges open first and close last
+  points.sort((a, b) =>
+    a.offset - b.offset ||
+    Number(a.start) - Number(b.start) ||
+    (a.start ? b.length - a.length : a.length - b.length)
+  );
+
+  const counts: number[] = [];
+  const spans: Span[] = [];
+  let last = 0;
+  for (const point of points) {
+    if (counts.length > 0 && counts[counts.length - 1] > 0 && last < point.offset) {
+      const previous = spans[spans.length - 1];
+      if (previous && previous.end === last) {
+        previous.end = point.offset;
+      } else {
+        spans.push({ start: last, end: point.offset });
+      }
+    }
+    last = point.offset;
+    if (point.start) {
+      counts.push(point.count);
+    } else {
+      counts.pop();
+    }
+  }
+  return spans;
+}
+
+function mergeSpans(spans: Span[]): Span[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: Span[] = [];
+  for (const span of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && span.start <= previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Gaps between used spans within [0, length)
+ */
+function complementSpans(used: Span[], length: number): Span[] {
+  const gaps: Span[] = [];
+  let cursor = 0;
+  for (const span of used) {
+    if (span.start > cursor) gaps.push({ start: cursor, end: span.start });
+    cursor = Math.max(cursor, span.end);
+  }
+  if (cursor < length) gaps.push({ start: cursor, end: length });
+  return gaps;
+}
+
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * 1-based line containing a character offset
+ */
+function lineAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+function toRanges(spans: Span[], starts: number[]): CoverageRange[] {
+  return spans.map((span) => ({
+    ...span,
+    startLine: lineAt(starts, span.start),
+    endLine: lineAt(starts, Math.max(span.start, span.end - 1)),
+  }));
+}
+
+function spanLength(spans: Span[]): number {
+  return spans.reduce((sum, span) => sum + span.end - span.start, 0);
+}
+
+/**
+ * '+' every non-blank character of the line ran, '-' none did, '~' some did, ' ' blank line
+ */
+function lineMarker(source: string, lineStart: number, lineEnd: number, used: Span[]): string {
+  let covered = 0;
+  let total = 0;
+  let index = 0;
+  for (let offset = lineStart; offset < lineEnd; offset++) {
+    if (/\s/.test(source[offset])) continue;
+    total++;
+    while (index < used.length && used[index].end <= offset) index++;
+    if (index < used.length && used[index].start <= offset) covered++;
+  }
+  if (total === 0) return ' ';
+  if (covered === total) return '+';
+  return covered === 0 ? '-' : '~';
+}
+
+/**
+ * Create a Coverage instance for JS/CSS usage tracking via CDP.
+ *
+ * @example
+ * ```ts
+ * const cdp = await getCDPSession(page);
+ * const coverage = createCoverage({ cdp });
+ * await coverage.start();
+ * await page.reload();
+ * const result = await coverage.stop();
+ * console.log(formatCoverageAsText(result));
+ *
+ * // Mark executed lines in a script
+ * const editor = createEditor({ cdp });
+ * const read = await editor.read({ url: 'https://example.com/app.js', offset: 100, limit: 40 });
+ * console.log(coverage.annotate({ url: 'https://example.com/app.js', content: read }).content);
+ * ```
+ */
+export function createCoverage({ cdp }: { cdp: CDPSession }): Coverage {
+  let recording: { js: boolean; css: boolean } | null = null;
+  const stylesheets = new Map<string, string>();      // styleSheetId -> URL
+  // Sources and executed spans of the last result, for annotate()
+  const lastSources = new Map<string, { source: string; used: Span[] }>();
+
+  cdp.on('CSS.styleSheetAdded', (params: { header: { styleSheetId: string; sourceURL?: string } }) => {
+    const { header } = params;
+    stylesheets.set(header.styleSheetId, header.sourceURL || `inline-css://${header.styleSheetId}`);
+  });
+
+  async function start({ js = true, css = true }: { js?: boolean; css?: boolean } = {}): Promise<void> {
+    if (recording) {
+      throw new Error('Coverage is already recording - call stop() first');
+    }
+    if (js) {
+      await cdp.send('Profiler.enable');
+      await cdp.send('Debugger.enable');
+      // Nothing handles Debugger.paused here: a `debugger;` statement would freeze the page
+      await cdp.send('Debugger.setSkipAllPauses', { skip: true });
+      await cdp.send('Profiler.startPreciseCoverage', { callCount: false, detailed: true });
+    }
+    if (css) {
+      // Re-enabling replays styleSheetAdded for sheets another helper already saw
+      await cdp.send('DOM.enable');
+      await cdp.send('CSS.disable');
+      stylesheets.clear();
+      await cdp.send('CSS.enable');
+      await cdp.send('CSS.startRuleUsageTracking');
+    }
+    recording = { js, css };
+  }
+
+  async function jsEntries(): Promise<CoverageEntry[]> {
+    const { result } = await cdp.send('Profiler.takePreciseCoverage') as unknown as { result: ScriptCoverage[] };
+    await cdp.send('Profiler.stopPreciseCoverage');
+
+    const entries: CoverageEntry[] = [];
+    for (const script of result) {
+      if (isInternalUrl(script.url)) continue;
+
+      let source: string;
+      try {
+        const response = await cdp.send('Debugger.getScriptSource', { scriptId: script.scriptId }) as { scriptSource: string };
+        source = response.scriptSource;
+      } catch {
+        continue;                      // Script of a document that is gone
+      }
+
+      const url = script.url || `inline://${script.scriptId}`;
+      const used = mergeSpans(executedSpans(script.functions));
+      const starts = lineStarts(source);
+      lastSources.set(url, { source, used });
+      entries.push({
+        type: 'js',
+        url,
+        totalBytes: source.length,
+        usedBytes: spanLength(used),
+        usedRanges: toRanges(used, starts),
+        unusedRanges: toRanges(complementSpans(used, source.length), starts),
+      });
+    }
+    return entries;
+  }
+
+  async function cssEntries(): Promise<CoverageEntry[]> {
+    const { ruleUsage } = await cdp.send('CSS.stopRuleUsageTracking') as unknown as { ruleUsage: RuleUsage[] };
+
+    const bySheet = new Map<string, RuleUsage[]>();
+    for (const rule of ruleUsage) {
+      const rules = bySheet.get(rule.styleSheetId) ?? [];
+      rules.push(rule);
+      bySheet.set(rule.styleSheetId, rules);
+    }
+
+    const entries: CoverageEntry[] = [];
+    for (const [styleSheetId, rules] of bySheet) {
+      const url = stylesheets.get(styleSheetId) ?? `inline-css://${styleSheetId}`;
+      if (isInternalUrl(url)) continue;
+
+      let source: string;
+      try {
+        const response = await cdp.send('CSS.getStyleSheetText', { styleSheetId }) as { text: string };
+        source = response.text;
+      } catch {
+        continue;
+      }
+
+      const used = mergeSpans(rules.filter((r) => r.used).map((r) => ({ start: r.startOffset, end: r.endOffset })));
+      const starts = lineStarts(source);
+      const unusedRules = rules
+        .filter((r) => !r.used)
+        .sort((a, b) => a.startOffset - b.startOffset)
+        .map((r) => ({
+          selector: source.slice(r.startOffset, r.endOffset).split('{')[0].replace(/\s+/g, ' ').trim(),
+          line: lineAt(starts, r.startOffset),
+        }));
+
+      lastSources.set(url, { source, used });
+      entries.push({
+        type: 'css',
+        url,
+        totalBytes: source.length,
+        usedBytes: spanLength(used),
+        usedRanges: toRanges(used, starts),
+        unusedRanges: toRanges(complementSpans(used, source.length), starts),
+        rules: { used: rules.length - unusedRules.length, total: rules.length },
+        unusedRules: unusedRules.slice(0, MAX_UNUSED_RULES),
+      });
+    }
+    return entries;
+  }
+
+  async function stop(): Promise<CoverageResult> {
+    if (!recording) {
+      throw new Error('Coverage is not recording - call start() first');
+    }
+    const { js, css } = recording;
+    recording = null;
+    lastSources.clear();
+
+    let entries: CoverageEntry[];
+    try {
+      entries = [
+        ...(js ? await jsEntries() : []),
+        ...(css ? await cssEntries() : []),
+      ];
+    } finally {
+      if (js) {
+        await cdp.send('Debugger.setSkipAllPauses', { skip: false }).catch(() => {});
+        // Only enabled for getScriptSource; a debugger or editor on this session still needs it
+        if (!isDebuggerInUse(cdp)) {
+          await cdp.send('Debugger.disable').catch(() => {});
+        }
+      }
+    }
+    entries.sort((a, b) => (b.totalBytes - b.usedBytes) - (a.totalBytes - a.usedBytes));
+    return { entries };
+  }
+
+  function annotate({ url, content }: { url: string; content: ReadResult }): ReadResult {
+    const entry = lastSources.get(url);
+    if (!entry) {
+      const known = [...lastSources.keys()];
+      throw new Error(`No coverage for ${url}${known.length > 0 ? `\nCovered: ${known.slice(0, 5).join(', ')}${known.length > 5 ? '...' : ''}` : ''}`);
+    }
+
+    const starts = lineStarts(entry.source);
+    const annotated = content.content.split('\n').map((line) => {
+      const match = line.match(/^\s*(\d+)\| /);
+      if (!match) return line;
+      const lineNumber = Number(match[1]);
+      const lineStart = starts[lineNumber - 1];
+      if (lineStart === undefined) return line;
+      const lineEnd = lineNumber < starts.length ? starts[lineNumber] - 1 : entry.source.length;
+      return `${lineMarker(entry.source, lineStart, lineEnd, entry.used)}${line}`;
+    });
+
+    return { ...content, content: annotated.join('\n') };
+  }
+
+  return {
+    start,
+    stop,
+    isRecording: () => recording !== null,
+    annotate,
+  };
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '0%';
+}
+
+function formatLines(range: CoverageRange): string {
+  return range.startLine === range.endLine ? `line ${range.startLine}` : `lines ${range.startLine}-${range.endLine}`;
+}
+
+/**
+ * Compact text summary: totals per type, then files by unused size.
+ * With detail, files whose URL matches also list unused ranges and CSS rules.
+ */
+export function formatCoverageAsText(
+  result: CoverageResult,
+  { detail, top = 20 }: { detail?: string | RegExp; top?: number } = {}
+): string {
+  const lines: string[] = [];
+
+  for (const type of ['js', 'css'] as const) {
+    const entries = result.entries.filter((e) => e.type === type);
+    if (entries.length === 0) continue;
+    const total = entries.reduce((sum, e) => sum + e.totalBytes, 0);
+    const unused = entries.reduce((sum, e) => sum + e.totalBytes - e.usedBytes, 0);
+    let line = `${type.toUpperCase()}: ${formatBytes(unused)} of ${formatBytes(total)} unused (${percent(unused, total)}) in ` +
+      `${entries.length} ${type === 'js' ? 'script' : 'stylesheet'}${entries.length === 1 ? '' : 's'}`;
+    if (type === 'css') {
+      const rules = entries.reduce((sum, e) => sum + (e.rules?.total ?? 0), 0);
+      const usedRules = entries.reduce((sum, e) => sum + (e.rules?.used ?? 0), 0);
+      line += `, ${rules - usedRules} of ${rules} rules unused`;
+    }
+    lines.push(line);
+  }
+
+  if (result.entries.length === 0) {
+    return 'No scripts or stylesheets covered';
+  }
+
+  lines.push('', 'By unused size (unused of total, url):');
+  for (const entry of result.entries.slice(0, top)) {
+    const unused = entry.totalBytes - entry.usedBytes;
+    lines.push(`- ${entry.type} ${formatBytes(unused)} of ${formatBytes(entry.totalBytes)} (${percent(unused, entry.totalBytes)}) ${entry.url}`);
+  }
+  if (result.entries.length > top) {
+    lines.push(`- ... ${result.entries.length - top} more`);
+  }
+
+  if (detail !== undefined) {
+    const matches = result.entries.filter((entry) =>
+      typeof detail === 'string' ? entry.url.includes(detail) : detail.test(entry.url)
+    );
+    if (matches.length === 0) {
+      lines.push('', `No covered file matches ${String(detail)}`);
+    }
+    for (const entry of matches) {
+      lines.push('', `${entry.url} (${entry.type}, ${percent(entry.usedBytes, entry.totalBytes)} used):`);
+      // Whitespace between rules and statements shows up as tiny gaps; they are not worth listing
+      const unused = entry.unusedRanges.filter((range) => range.end - range.start >= 20);
+      lines.push(`Unused ranges (${unused.length}):`);
+      for (const range of unused.slice(0, 30)) {
+        lines.push(`- ${range.start}-${range.end} (${formatLines(range)}, ${formatBytes(range.end - range.start)})`);
+      }
+      if (unused.length > 30) lines.push(`- ... ${unused.length - 30} more`);
+
+      if (entry.unusedRules) {
+        lines.push(`Unused rules (${entry.rules!.total - entry.rules!.used} of ${entry.rules!.total}):`);
+        for (const rule of entry.unusedRules.slice(0, 50)) {
+          lines.push(`- ${rule.line}: ${rule.selector}`);
+        }
+        if (entry.rules!.total - entry.rules!.used > 50) {
+          lines.push(`- ... ${entry.rules!.total - entry.rules!.used - 50} more`);
+        }
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -1,14 +1,25 @@
 /**
  * Debugger class for JavaScript debugging via Chrome DevTools Protocol.
  * Works with browser debugging through Playwright's CDP session.
+ * Scripts with source maps are debugged in their original sources.
  */
 
 import type { CDPSession } from 'playwright';
+import { markDebuggerInUse } from './cdp-session.js';
+import { decodeDataUrl, matchSourcePath, parseSourceMap, pathSegments, resolveUrl, type SourceMap } from './source-map.js';
 
 export interface BreakpointInfo {
   id: string;
   file: string;
   line: number;
+  // Set when the breakpoint was mapped from an original source
+  generated?: { url: string; line: number; column: number };
+}
+
+export interface GeneratedLocation {
+  url: string;
+  lineNumber: number;
+  columnNumber: number;
 }
 
 export interface LocationInfo {
@@ -20,8 +31,11 @@ export interface LocationInfo {
     url: string;
     lineNumber: number;
     columnNumber: number;
+    generated?: GeneratedLocation;
   }>;
   sourceContext: string;
+  // Position in the running script when url/lineNumber come from a source map
+  generated?: GeneratedLocation;
 }
 
 export interface EvaluateResult {
@@ -33,6 +47,11 @@ export interface ScriptInfo {
   url: string;
 }
 
+export interface SourceInfo {
+  url: string;                         // Original source, e.g. webpack://app/src/App.tsx
+  scriptUrl: string;                   // Script whose source map lists it
+}
+
 interface CallFrame {
   callFrameId: string;
   functionName: string;
@@ -64,7 +83,7 @@ interface PropertyDescriptor {
 
 export interface Debugger {
   enable(): Promise<void>;
-  setBreakpoint(options: { file: string; line: number; condition?: string }): Promise<string>;
+  setBreakpoint(options: { file: string; line: number; condition?: string; generated?: boolean }): Promise<string>;
   deleteBreakpoint(options: { breakpointId: string }): Promise<void>;
   listBreakpoints(): BreakpointInfo[];
   inspectLocalVariables(): Promise<Record<string, unknown>>;
@@ -78,6 +97,7 @@ export interface Debugger {
   isPaused(): boolean;
   setPauseOnExceptions(options: { state: 'none' | 'uncaught' | 'all' }): Promise<void>;
   listScripts(options?: { search?: string }): Promise<ScriptInfo[]>;
+  listSources(options?: { search?: string }): Promise<SourceInfo[]>;
   setBlackboxPatterns(options: { patterns: string[] }): Promise<void>;
 }
 
@@ -89,6 +109,8 @@ export interface Debugger {
  * const cdp = await getCDPSession(page);
  * const dbg = createDebugger({ cdp });
  * await dbg.setBreakpoint({ file: 'app.js', line: 42 });
+ * // or in an original source, e.g. a getReactSource() fileName
+ * await dbg.setBreakpoint({ file: 'src/components/Button.tsx', line: 12 });
  * // trigger action
  * const vars = await dbg.inspectLocalVariables();
  * await dbg.resume();
@@ -100,6 +122,9 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
   let currentCallFrames: CallFrame[] = [];
   const breakpoints = new Map<string, BreakpointInfo>();
   const scripts = new Map<string, ScriptInfo>();
+  const sourceMapUrls = new Map<string, string>();
+  // Keyed by scriptId: a rebuilt bundle keeps its URL but not its map. null = failed to load
+  const sourceMaps = new Map<string, Promise<SourceMap | null>>();
   let blackboxPatterns: string[] = [];
 
   // Setup event listeners
@@ -113,21 +138,169 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
     currentCallFrames = [];
   });
 
-  cdp.on('Debugger.scriptParsed', (params: { scriptId: string; url: string }) => {
+  cdp.on('Debugger.scriptParsed', (params: { scriptId: string; url: string; sourceMapURL?: string }) => {
     if (params.url && !params.url.startsWith('chrome') && !params.url.startsWith('devtools')) {
       scripts.set(params.scriptId, {
         scriptId: params.scriptId,
         url: params.url,
       });
+      if (params.sourceMapURL) {
+        sourceMapUrls.set(params.scriptId, resolveUrl(params.sourceMapURL, params.url));
+      }
     }
   });
 
+  /**
+   * Fetch a source map or source through the browser's network stack, so cookies and dev server
+   * auth apply. This also works while paused, unlike fetch() in the page. There is deliberately no
+   * fallback to a request from this process: the page picks the URLs and could point them at
+   * internal addresses only the host can reach.
+   */
+  async function loadText(url: string): Promise<string> {
+    if (url.startsWith('data:')) return decodeDataUrl(url);
+
+    try {
+      const { frameTree } = await cdp.send('Page.getFrameTree') as { frameTree: { frame: { id: string } } };
+      const { resource } = await cdp.send('Network.loadNetworkResource', {
+        frameId: frameTree.frame.id,
+        url,
+        options: { disableCache: false, includeCredentials: true },
+      }) as { resource: { success: boolean; httpStatusCode?: number; netErrorName?: string; stream?: string } };
+      if (!resource.success || !resource.stream) {
+        throw new Error(`${resource.httpStatusCode ?? resource.netErrorName ?? 'failed'}`);
+      }
+      let text = '';
+      for (;;) {
+        const chunk = await cdp.send('IO.read', { handle: resource.stream, size: 1024 * 1024 }) as {
+          data: string;
+          base64Encoded?: boolean;
+          eof: boolean;
+        };
+        text += chunk.base64Encoded ? Buffer.from(chunk.data, 'base64').toString('utf8') : chunk.data;
+        if (chunk.eof) break;
+      }
+      await cdp.send('IO.close', { handle: resource.stream }).catch(() => {});
+      return text;
+    } catch (error) {
+      throw new Error(`source map unavailable: ${url} could not be loaded through the browser (${(error as Error).message})`);
+    }
+  }
+
+  function getSourceMap(scriptId: string): Promise<SourceMap | null> {
+    const mapUrl = sourceMapUrls.get(scriptId);
+    const script = scripts.get(scriptId);
+    if (!mapUrl || !script) return Promise.resolve(null);
+
+    let sourceMap = sourceMaps.get(scriptId);
+    if (!sourceMap) {
+      const baseUrl = mapUrl.startsWith('data:') ? script.url : mapUrl;
+      sourceMap = loadText(mapUrl)
+        .then((text) => parseSourceMap(text, baseUrl))
+        .catch(() => null);
+      sourceMaps.set(scriptId, sourceMap);
+    }
+    return sourceMap;
+  }
+
+  async function loadedSourceMaps(): Promise<Array<{ script: ScriptInfo; sourceMap: SourceMap }>> {
+    const loaded = await Promise.all(
+      Array.from(sourceMapUrls.keys()).map(async (scriptId) => ({
+        script: scripts.get(scriptId),
+        sourceMap: await getSourceMap(scriptId),
+      }))
+    );
+    return loaded.filter((entry): entry is { script: ScriptInfo; sourceMap: SourceMap } =>
+      !!entry.script && !!entry.sourceMap
+    );
+  }
+
+  /**
+   * Loaded script named by a file: its full URL, or a path its URL ends with (app.js, static/main.js)
+   */
+  function findScript(file: string): ScriptInfo | null {
+    const fileSegments = file.includes('://') ? 0 : pathSegments(file).length;
+    for (const script of scripts.values()) {
+      if (script.url === file || (fileSegments > 0 && matchSourcePath(script.url, file) === fileSegments)) {
+        return script;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The source in a script's own map that is the script's file: dev servers (Vite) serve
+   * transformed modules under the original path, so its lines are original lines
+   */
+  async function findSelfSource(script: ScriptInfo): Promise<{ script: ScriptInfo; sourceMap: SourceMap; source: string } | null> {
+    const sourceMap = await getSourceMap(script.scriptId);
+    const path = script.url.replace(/[?#].*$/, '');
+    const source = sourceMap?.sources.find((candidate) => candidate.replace(/[?#].*$/, '') === path);
+    return sourceMap && source ? { script, sourceMap, source } : null;
+  }
+
+  /**
+   * The original source best matching a file path, and the script it was bundled into.
+   * Throws when several sources match equally well, e.g. two index.js files.
+   */
+  async function findOriginalSource(file: string): Promise<{ script: ScriptInfo; sourceMap: SourceMap; source: string } | null> {
+    let best: Array<{ script: ScriptInfo; sourceMap: SourceMap; source: string }> = [];
+    let bestScore = 0;
+    for (const { script, sourceMap } of await loadedSourceMaps()) {
+      for (const source of sourceMap.sources) {
+        const score = matchSourcePath(source, file);
+        if (score > bestScore) {
+          best = [{ script, sourceMap, source }];
+          bestScore = score;
+        } else if (score > 0 && score === bestScore) {
+          best.push({ script, sourceMap, source });
+        }
+      }
+    }
+
+    // The same source bundled into several scripts is still one file
+    const candidates = [...new Set(best.map((match) => match.source))];
+    if (candidates.length > 1) {
+      throw new Error(`${file} matches several sources - pass a longer path or the full URL:\n${candidates.map((source) => `- ${source}`).join('\n')}`);
+    }
+    return best[0] ?? null;
+  }
+
+  /**
+   * Original position of a generated CDP location (0-based), if its script has a source map
+   */
+  async function originalLocation(location: CallFrame['location']): Promise<{
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+    sourceMap: SourceMap;
+  } | null> {
+    const sourceMap = await getSourceMap(location.scriptId);
+    const original = sourceMap?.originalPositionFor(location.lineNumber, location.columnNumber || 0);
+    if (!sourceMap || !original) return null;
+    return { url: original.source, lineNumber: original.line, columnNumber: original.column, sourceMap };
+  }
+
+  function formatSourceContext(source: string, lineNumber: number): string {
+    const lines = source.split('\n');
+    const startLine = Math.max(0, lineNumber - 3);
+    const endLine = Math.min(lines.length - 1, lineNumber + 3);
+
+    let sourceContext = '';
+    for (let i = startLine; i <= endLine; i++) {
+      const prefix = i === lineNumber ? '> ' : '  ';
+      sourceContext += `${prefix}${i + 1}: ${lines[i]}\n`;
+    }
+    return sourceContext;
+  }
+
   async function enable(): Promise<void> {
     if (debuggerEnabled) return;
 
     await cdp.send('Debugger.disable');
     await cdp.send('Runtime.disable');
     scripts.clear();
+    sourceMapUrls.clear();
+    sourceMaps.clear();
 
     // Wait for scripts to be parsed
     await new Promise<void>((resolve) => {
@@ -149,11 +322,43 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
     await cdp.send('Debugger.enable');
     await cdp.send('Runtime.enable');
     await cdp.send('Runtime.runIfWaitingForDebugger');
+    markDebuggerInUse(cdp);
     debuggerEnabled = true;
   }
 
-  async function setBreakpoint({ file, line, condition }: { file: string; line: number; condition?: string }): Promise<string> {
+  async function setBreakpoint({ file, line, condition, generated = false }: {
+    file: string;
+    line: number;
+    condition?: string;
+    generated?: boolean;
+  }): Promise<string> {
     await enable();
+
+    // A script URL names the generated script, unless its map says it is that original file;
+    // otherwise look for an original source
+    const script = findScript(file);
+    const original = generated ? null : script ? await findSelfSource(script) : await findOriginalSource(file);
+    if (original) {
+      const position = original.sourceMap.generatedPositionFor(original.source, line - 1);
+      if (!position) {
+        throw new Error(`No code for ${original.source} at or after line ${line} in ${original.script.url}`);
+      }
+      const response = await cdp.send('Debugger.setBreakpointByUrl', {
+        lineNumber: position.line,
+        url: original.script.url,
+        columnNumber: position.column,
+        condition,
+      }) as { breakpointId: string };
+
+      breakpoints.set(response.breakpointId, {
+        id: response.breakpointId,
+        file: original.source,
+        line: position.originalLine + 1,
+        generated: { url: original.script.url, line: position.line + 1, column: position.column },
+      });
+      return response.breakpointId;
+    }
+
     const response = await cdp.send('Debugger.setBreakpointByUrl', {
       lineNumber: line - 1,
       urlRegex: file.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
@@ -338,28 +543,49 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
     const frame = currentCallFrames[0];
     const { scriptId, lineNumber, columnNumber } = frame.location;
 
-    const callstack = currentCallFrames.map((f) => ({
-      functionName: f.functionName || '(anonymous)',
-      url: f.url,
-      lineNumber: f.location.lineNumber + 1,
-      columnNumber: f.location.columnNumber || 0,
+    const callstack = await Promise.all(currentCallFrames.map(async (f) => {
+      const generated = {
+        url: f.url,
+        lineNumber: f.location.lineNumber + 1,
+        columnNumber: f.location.columnNumber || 0,
+      };
+      const original = await originalLocation(f.location);
+      return original
+        ? {
+          functionName: f.functionName || '(anonymous)',
+          url: original.url,
+          lineNumber: original.lineNumber + 1,
+          columnNumber: original.columnNumber,
+          generated,
+        }
+        : { functionName: f.functionName || '(anonymous)', ...generated };
     }));
 
+    const original = await originalLocation(frame.location);
+    let originalSource = original?.sourceMap.sourceContent(original.url) ?? null;
+    if (original && originalSource === null && /^https?:/.test(original.url)) {
+      originalSource = await loadText(original.url).catch(() => null);
+    }
+    if (original && originalSource !== null) {
+      return {
+        url: original.url,
+        lineNumber: original.lineNumber + 1,
+        columnNumber: original.columnNumber,
+        callstack,
+        sourceContext: formatSourceContext(originalSource, original.lineNumber),
+        generated: { url: frame.url, lineNumber: lineNumber + 1, columnNumber: columnNumber || 0 },
+      };
+    }
+
     let sourceContext = '';
     try {
       const scriptSource = await cdp.send('Debugger.getScriptSource', { scriptId }) as { scriptSource: string };
-      const lines = scriptSource.scriptSource.split('\n');
-      const startLine = Math.max(0, lineNumber - 3);
-      const endLine = Math.min(lines.length - 1, lineNumber + 3);
-
-      for (let i = startLine; i <= endLine; i++) {
-        const prefix = i === lineNumber ? '> ' : '  ';
-        sourceContext += `${prefix}${i + 1}: ${lines[i]}\n`;
-      }
+      sourceContext = formatSourceContext(scriptSource.scriptSource, lineNumber);
     } catch {
       sourceContext = 'Unable to retrieve source code';
     }
 
+    // Original source unavailable: report the running script, so position and context match
     return {
       url: frame.url,
       lineNumber: lineNumber + 1,
@@ -411,6 +637,21 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
     return filtered.slice(0, 20);
   }
 
+  async function listSourcesFn({ search }: { search?: string } = {}): Promise<SourceInfo[]> {
+    await enable();
+    const seen = new Set<string>();
+    const sources: SourceInfo[] = [];
+    for (const { script, sourceMap } of await loadedSourceMaps()) {
+      for (const url of sourceMap.sources) {
+        if (seen.has(url)) continue;
+        if (search && !url.toLowerCase().includes(search.toLowerCase())) continue;
+        seen.add(url);
+        sources.push({ url, scriptUrl: script.url });
+      }
+    }
+    return sources.slice(0, 20);
+  }
+
   async function setBlackboxPatterns({ patterns }: { patterns: string[] }): Promise<void> {
     await enable();
     blackboxPatterns = patterns;
@@ -433,6 +674,7 @@ export function createDebugger({ cdp }: { cdp: CDPSession }): Debugger {
     isPaused: isPausedFn,
     setPauseOnExceptions,
     listScripts: listScriptsFn,
+    listSources: listSourcesFn,
     setBlackboxPatterns,
   };
 }
@@ -5,6 +5,7 @@
  */
 
 import type { CDPSession } from 'playwright';
+import { markDebuggerInUse } from './cdp-session.js';
 
 export interface ReadResult {
   content: string;
@@ -113,6 +114,7 @@ export function createEditor({ cdp }: { cdp: CDPSession }): Editor {
     await cdp.send('Debugger.enable');
     await cdp.send('DOM.enable');
     await cdp.send('CSS.enable');
+    markDebuggerInUse(cdp);
     enabled = true;
   }
 
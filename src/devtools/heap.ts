@@ -0,0 +1,534 @@
+/**
+ * Heap snapshots via Chrome DevTools Protocol.
+ * Summarises snapshots by constructor (counts, self and retained size), diffs two
+ * snapshots and finds detached DOM nodes with the path that keeps them alive.
+ */
+
+import type { CDPSession } from 'playwright';
+import { formatBytes } from '../utils/format-bytes.js';
+
+export interface ConstructorStats {
+  name: string;
+  count: number;
+  selfSize: number;
+  retainedSize: number;                // Without double counting nested objects of the same constructor
+}
+
+export interface DetachedNode {
+  name: string;                        // e.g. "Detached HTMLDivElement"
+  id: number;                          // Heap object id, stable across snapshots
+  retainedSize: number;                // Includes the detached subtree it dominates
+  retainerPath: string;                // "Window.cache -> Array[3] -> Detached HTMLDivElement"
+}
+
+export interface HeapSnapshot {
+  id: number;                          // 1, 2, ... per profiler
+  takenAt: Date;
+  totalSize: number;                   // Reachable bytes
+  nodeCount: number;                   // Reachable objects
+  constructors: ConstructorStats[];    // Sorted by retained size
+  detachedCount: number;               // All detached DOM nodes
+  detached: DetachedNode[];            // Roots of detached subtrees, by retained size
+  objects: {                           // Per reachable object, for diffHeapSnapshots
+    ids: Float64Array;
+    classes: Uint32Array;              // Index into names
+    names: string[];
+  };
+}
+
+export interface ConstructorDiff {
+  name: string;
+  countBefore: number;
+  countAfter: number;
+  added: number;                       // Objects allocated after the first snapshot and still alive
+  removed: number;                     // Objects of the first snapshot that were collected
+  selfSizeDelta: number;
+  retainedSizeDelta: number;
+}
+
+export interface HeapDiff {
+  before: number;                      // Snapshot ids
+  after: number;
+  totalSizeDelta: number;
+  nodeCountDelta: number;
+  constructors: ConstructorDiff[];     // Sorted by self size growth
+}
+
+export interface HeapProfiler {
+  takeSnapshot(options?: { gc?: boolean }): Promise<HeapSnapshot>;
+  collectGarbage(): Promise<void>;
+}
+
+interface RawHeapSnapshot {
+  snapshot: {
+    meta: {
+      node_fields: string[];
+      node_types: Array<string[] | string>;
+      edge_fields: string[];
+      edge_types: Array<string[] | string>;
+    };
+  };
+  nodes: number[];
+  edges: number[];
+  strings: string[];
+}
+
+const MAX_DETACHED = 20;
+const MAX_PATH_HOPS = 10;
+const UNVISITED = 0xffffffff;
+
+function className(type: string, name: string, detached: boolean): string {
+  switch (type) {
+    case 'object':
+    case 'native': {
+      // "Window / https://example.com" -> "Window"
+      const base = name.split(' / ')[0] || 'Object';
+      return detached && !base.startsWith('Detached ') ? `Detached ${base}` : base;
+    }
+    case 'closure': return '(closure)';
+    case 'string':
+    case 'concatenated string':
+    case 'sliced string': return '(string)';
+    case 'code': return '(compiled code)';
+    case 'hidden': return '(system)';
+    case 'synthetic': return name || '(root)';
+    default: return `(${type})`;
+  }
+}
+
+/**
+ * Parse a raw snapshot: dominator tree for retained sizes, constructor aggregates, detached DOM
+ */
+export function analyzeHeapSnapshot(raw: RawHeapSnapshot, id: number): HeapSnapshot {
+  const { meta } = raw.snapshot;
+  const { nodes, edges, strings } = raw;
+
+  const NF = meta.node_fields.length;
+  const typeOffset = meta.node_fields.indexOf('type');
+  const nameOffset = meta.node_fields.indexOf('name');
+  const idOffset = meta.node_fields.indexOf('id');
+  const sizeOffset = meta.node_fields.indexOf('self_size');
+  const edgeCountOffset = meta.node_fields.indexOf('edge_count');
+  const detachedOffset = meta.node_fields.indexOf('detachedness');
+  const nodeTypes = meta.node_types[typeOffset] as string[];
+
+  const EF = meta.edge_fields.length;
+  const edgeTypeOffset = meta.edge_fields.indexOf('type');
+  const edgeNameOffset = meta.edge_fields.indexOf('name_or_index');
+  const toOffset = meta.edge_fields.indexOf('to_node');
+  const edgeTypes = meta.edge_types[edgeTypeOffset] as string[];
+  const weakEdge = edgeTypes.indexOf('weak');
+  const syntheticType = nodeTypes.indexOf('synthetic');
+
+  const count = nodes.length / NF;
+  const firstEdge = new Uint32Array(count + 1);
+  for (let i = 0; i < count; i++) {
+    firstEdge[i + 1] = firstEdge[i] + nodes[i * NF + edgeCountOffset] * EF;
+  }
+  const target = (edge: number) => edges[edge + toOffset] / NF;
+  const isWeak = (edge: number) => edges[edge + edgeTypeOffset] === weakEdge;
+
+  const isDetached = (node: number) => {
+    if (detachedOffset !== -1 && nodes[node * NF + detachedOffset] === 2) return true;
+    return nodeTypes[nodes[node * NF + typeOffset]] === 'native' && strings[nodes[node * NF + nameOffset]].startsWith('Detached ');
+  };
+
+  // Constructor name per node
+  const names: string[] = [];
+  const nameIndex = new Map<string, number>();
+  const classes = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    const name = className(nodeTypes[nodes[i * NF + typeOffset]], strings[nodes[i * NF + nameOffset]], isDetached(i));
+    let index = nameIndex.get(name);
+    if (index === undefined) {
+      index = names.length;
+      names.push(name);
+      nameIndex.set(name, index);
+    }
+    classes[i] = index;
+  }
+
+  // Post-order over strong edges from the root (node 0); unvisited nodes are garbage
+  const postOrder = new Uint32Array(count);
+  const postIndex = new Uint32Array(count).fill(UNVISITED);
+  const visited = new Uint8Array(count);
+  const stack = new Uint32Array(count);
+  const cursor = new Uint32Array(count);
+  let reachable = 0;
+  let depth = 0;
+  stack[0] = 0;
+  cursor[0] = firstEdge[0];
+  visited[0] = 1;
+  while (depth >= 0) {
+    const node = stack[depth];
+    if (cursor[depth] < firstEdge[node + 1]) {
+      const edge = cursor[depth];
+      cursor[depth] += EF;
+      const child = target(edge);
+      if (!isWeak(edge) && !visited[child]) {
+        visited[child] = 1;
+        depth++;
+        stack[depth] = child;
+        cursor[depth] = firstEdge[child];
+      }
+    } else {
+      postIndex[node] = reachable;
+      postOrder[reachable++] = node;
+      depth--;
+    }
+  }
+
+  // Predecessors by post-order index
+  const predCount = new Uint32Array(reachable + 1);
+  for (let node = 0; node < count; node++) {
+    if (postIndex[node] === UNVISITED) continue;
+    for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += EF) {
+      if (!isWeak(edge)) predCount[postIndex[target(edge)] + 1]++;
+    }
+  }
+  for (let i = 0; i < reachable; i++) predCount[i + 1] += predCount[i];
+  const preds = new Uint32Array(predCount[reachable]);
+  const fill = predCount.slice(0, reachable);
+  for (let node = 0; node < count; node++) {
+    if (postIndex[node] === UNVISITED) continue;
+    for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += EF) {
+      if (!isWeak(edge)) preds[fill[postIndex[target(edge)]]++] = postIndex[node];
+    }
+  }
+
+  // Immediate dominators (Cooper, Harvey, Kennedy), indexed by post-order; the root is last
+  const root = reachable - 1;
+  const dom = new Int32Array(reachable).fill(-1);
+  dom[root] = root;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) a = dom[a];
+      while (b < a) b = dom[b];
+    }
+    return a;
+  };
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let po = root - 1; po >= 0; po--) {
+      let idom = -1;
+      for (let p = predCount[po]; p < predCount[po + 1]; p++) {
+        const pred = preds[p];
+        if (dom[pred] === -1) continue;
+        idom = idom === -1 ? pred : intersect(pred, idom);
+      }
+      if (idom !== -1 && dom[po] !== idom) {
+        dom[po] = idom;
+        changed = true;
+      }
+    }
+  }
+
+  const retained = new Float64Array(reachable);
+  for (let po = 0; po < reachable; po++) {
+    retained[po] = nodes[postOrder[po] * NF + sizeOffset];
+  }
+  for (let po = 0; po < root; po++) {
+    if (dom[po] !== -1) retained[dom[po]] += retained[po];
+  }
+
+  // Constructor aggregates; retained size counts only the outermost object of a constructor
+  const stats = names.map((name) => ({ name, count: 0, selfSize: 0, retainedSize: 0 }));
+  const childCount = new Uint32Array(reachable + 1);
+  for (let po = 0; po < root; po++) {
+    if (dom[po] !== -1) childCount[dom[po] + 1]++;
+  }
+  for (let i = 0; i < reachable; i++) childCount[i + 1] += childCount[i];
+  const children = new Uint32Array(childCount[reachable]);
+  const childFill = childCount.slice(0, reachable);
+  for (let po = 0; po < root; po++) {
+    if (dom[po] !== -1) children[childFill[dom[po]]++] = po;
+  }
+
+  const active = new Uint32Array(names.length);
+  const treeStack = new Uint32Array(reachable);
+  const treeCursor = new Uint32Array(reachable);
+  depth = 0;
+  treeStack[0] = root;
+  treeCursor[0] = childCount[root];
+  const enter = (po: number) => {
+    const node = postOrder[po];
+    const stat = stats[classes[node]];
+    stat.count++;
+    stat.selfSize += nodes[node * NF + sizeOffset];
+    if (active[classes[node]]++ === 0) stat.retainedSize += retained[po];
+  };
+  enter(root);
+  while (depth >= 0) {
+    const po = treeStack[depth];
+    if (treeCursor[depth] < childCount[po + 1]) {
+      const child = children[treeCursor[depth]++];
+      enter(child);
+      depth++;
+      treeStack[depth] = child;
+      treeCursor[depth] = childCount[child];
+    } else {
+      active[classes[postOrder[po]]]--;
+      depth--;
+    }
+  }
+
+  // Shortest retainer paths, preferring page objects over internal (synthetic) roots
+  const parentNode = new Int32Array(count).fill(-1);
+  const parentEdge = new Int32Array(count).fill(-1);
+  const queue = new Uint32Array(count);
+  for (const skipSynthetic of [true, false]) {
+    const seen = new Uint8Array(count);
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = 0;
+    seen[0] = 1;
+    while (head < tail) {
+      const node = queue[head++];
+      for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += EF) {
+        const child = target(edge);
+        if (seen[child] || isWeak(edge)) continue;
+        if (skipSynthetic && nodes[child * NF + typeOffset] === syntheticType) continue;
+        seen[child] = 1;
+        queue[tail++] = child;
+        if (child !== 0 && parentNode[child] === -1) {
+          parentNode[child] = node;
+          parentEdge[child] = edge;
+        }
+      }
+    }
+  }
+
+  const edgeLabel = (edge: number) => {
+    const type = edgeTypes[edges[edge + edgeTypeOffset]];
+    const nameOrIndex = edges[edge + edgeNameOffset];
+    if (type === 'element' || type === 'hidden') return `[${nameOrIndex}]`;
+    const name = strings[nameOrIndex];
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+  };
+  const retainerPath = (node: number) => {
+    const hops: string[] = [];
+    let current = node;
+    while (parentNode[current] > 0) {
+      const parent = parentNode[current];
+      hops.unshift(`${names[classes[parent]]}${edgeLabel(parentEdge[current])}`);
+      current = parent;
+    }
+    const path = hops.length > MAX_PATH_HOPS
+      ? [...hops.slice(0, 2), '...', ...hops.slice(-(MAX_PATH_HOPS - 2))]
+      : hops;
+    return [...path, names[classes[node]]].join(' -> ');
+  };
+
+  let detachedCount = 0;
+  const detachedRoots: Array<{ node: number; po: number }> = [];
+  for (let po = 0; po < root; po++) {
+    const node = postOrder[po];
+    if (!isDetached(node)) continue;
+    detachedCount++;
+    if (dom[po] === -1 || !isDetached(postOrder[dom[po]])) {
+      detachedRoots.push({ node, po });
+    }
+  }
+  const detached = detachedRoots
+    .sort((a, b) => retained[b.po] - retained[a.po])
+    .slice(0, MAX_DETACHED)
+    .map(({ node, po }) => ({
+      name: names[classes[node]],
+      id: nodes[node * NF + idOffset],
+      retainedSize: retained[po],
+      retainerPath: retainerPath(node),
+    }));
+
+  const ids = new Float64Array(reachable);
+  const objectClasses = new Uint32Array(reachable);
+  for (let po = 0; po < reachable; po++) {
+    ids[po] = nodes[postOrder[po] * NF + idOffset];
+    objectClasses[po] = classes[postOrder[po]];
+  }
+
+  return {
+    id,
+    takenAt: new Date(),
+    totalSize: retained[root],
+    nodeCount: reachable,
+    constructors: stats.filter((s) => s.count > 0).sort((a, b) => b.retainedSize - a.retainedSize),
+    detachedCount,
+    detached,
+    objects: { ids, classes: objectClasses, names },
+  };
+}
+
+/**
+ * Compare two snapshots by constructor. Object ids are stable, so "added" counts
+ * objects allocated in between that are still alive - the usual leak signal.
+ */
+export function diffHeapSnapshots(before: HeapSnapshot, after: HeapSnapshot): HeapDiff {
+  const beforeIds = new Set(before.objects.ids);
+  const afterIds = new Set(after.objects.ids);
+  const rows = new Map<string, ConstructorDiff>();
+  const row = (name: string) => {
+    let entry = rows.get(name);
+    if (!entry) {
+      entry = { name, countBefore: 0, countAfter: 0, added: 0, removed: 0, selfSizeDelta: 0, retainedSizeDelta: 0 };
+      rows.set(name, entry);
+    }
+    return entry;
+  };
+
+  for (const stat of before.constructors) {
+    const entry = row(stat.name);
+    entry.countBefore = stat.count;
+    entry.selfSizeDelta -= stat.selfSize;
+    entry.retainedSizeDelta -= stat.retainedSize;
+  }
+  for (const stat of after.constructors) {
+    const entry = row(stat.name);
+    entry.countAfter = stat.count;
+    entry.selfSizeDelta += stat.selfSize;
+    entry.retainedSizeDelta += stat.retainedSize;
+  }
+  after.objects.ids.forEach((id, i) => {
+    if (!beforeIds.has(id)) row(after.objects.names[after.objects.classes[i]]).added++;
+  });
+  before.objects.ids.forEach((id, i) => {
+    if (!afterIds.has(id)) row(before.objects.names[before.objects.classes[i]]).removed++;
+  });
+
+  const constructors = [...rows.values()]
+    .filter((entry) => entry.added > 0 || entry.removed > 0 || entry.selfSizeDelta !== 0 || entry.retainedSizeDelta !== 0)
+    .sort((a, b) => b.selfSizeDelta - a.selfSizeDelta || b.retainedSizeDelta - a.retainedSizeDelta);
+
+  return {
+    before: before.id,
+    after: after.id,
+    totalSizeDelta: after.totalSize - before.totalSize,
+    nodeCountDelta: after.nodeCount - before.nodeCount,
+    constructors,
+  };
+}
+
+/**
+ * Create a HeapProfiler instance for heap snapshots via CDP.
+ *
+ * @example
+ * ```ts
+ * const cdp = await getCDPSession(page);
+ * const heap = createHeapProfiler({ cdp });
+ * const before = await heap.takeSnapshot();
+ * // open and close the dialog a few times
+ * const after = await heap.takeSnapshot();
+ * console.log(formatHeapDiffAsText(diffHeapSnapshots(before, after)));
+ * console.log(formatDetachedNodesAsText(after));
+ * ```
+ */
+export function createHeapProfiler({ cdp }: { cdp: CDPSession }): HeapProfiler {
+  let nextId = 1;
+  let chunks: string[] | null = null;
+
+  cdp.on('HeapProfiler.addHeapSnapshotChunk', (params: { chunk: string }) => {
+    chunks?.push(params.chunk);
+  });
+
+  async function collectGarbage(): Promise<void> {
+    await cdp.send('HeapProfiler.enable');
+    await cdp.send('HeapProfiler.collectGarbage');
+  }
+
+  async function takeSnapshot({ gc = true }: { gc?: boolean } = {}): Promise<HeapSnapshot> {
+    if (chunks) {
+      throw new Error('A heap snapshot is already being taken');
+    }
+    await cdp.send('HeapProfiler.enable');
+    if (gc) {
+      await cdp.send('HeapProfiler.collectGarbage');
+    }
+
+    chunks = [];
+    let raw: string;
+    try {
+      await cdp.send('HeapProfiler.takeHeapSnapshot', { reportProgress: false, captureNumericValue: false });
+      raw = chunks.join('');
+    } finally {
+      chunks = null;
+    }
+    return analyzeHeapSnapshot(JSON.parse(raw), nextId++);
+  }
+
+  return {
+    takeSnapshot,
+    collectGarbage,
+  };
+}
+
+/**
+ * Whether a constructor row means something for the page: synthetic roots and V8 internals
+ * retain everything and only add noise
+ */
+function isPageConstructor(name: string): boolean {
+  return !name.startsWith('(') || name === '(closure)' || name === '(string)' || name === '(array)';
+}
+
+function signed(value: number, format: (v: number) => string = String): string {
+  return value > 0 ? `+${format(value)}` : format(value);
+}
+
+/**
+ * Snapshot summary: size, top constructors by retained size, detached DOM count
+ */
+export function formatHeapSnapshotAsText(snapshot: HeapSnapshot, { top = 15 }: { top?: number } = {}): string {
+  const lines = [
+    `Snapshot #${snapshot.id}: ${formatBytes(snapshot.totalSize)} in ${snapshot.nodeCount} objects, ${snapshot.detachedCount} detached DOM nodes`,
+    'Top constructors (count, self, retained):',
+  ];
+  const rows = snapshot.constructors.filter((c) => isPageConstructor(c.name));
+  for (const c of rows.slice(0, top)) {
+    lines.push(`- ${c.name}: ${c.count}, ${formatBytes(c.selfSize)}, ${formatBytes(c.retainedSize)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Constructors that grew between two snapshots
+ */
+export function formatHeapDiffAsText(diff: HeapDiff, { top = 20 }: { top?: number } = {}): string {
+  const lines = [
+    `Snapshot #${diff.before} -> #${diff.after}: ${signed(diff.totalSizeDelta, formatBytes)}, ${signed(diff.nodeCountDelta)} objects`,
+  ];
+  const grown = diff.constructors.filter((c) => isPageConstructor(c.name) && (c.added > c.removed || c.retainedSizeDelta > 0));
+  if (grown.length === 0) {
+    lines.push('No constructor grew');
+  } else {
+    lines.push('Grown constructors (count before -> after, new still alive, retained):');
+    for (const c of grown.slice(0, top)) {
+      lines.push(`- ${c.name}: ${c.countBefore} -> ${c.countAfter} (${c.added} new), retained ${signed(c.retainedSizeDelta, formatBytes)}`);
+    }
+    if (grown.length > top) lines.push(`- ... ${grown.length - top} more`);
+  }
+
+  const shrunk = diff.constructors
+    .filter((c) => isPageConstructor(c.name) && c.removed > c.added)
+    .sort((a, b) => (a.added - a.removed) - (b.added - b.removed))
+    .slice(0, 5);
+  if (shrunk.length > 0) {
+    lines.push(`Freed most: ${shrunk.map((c) => `${c.name} ${signed(c.added - c.removed)}`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Detached DOM subtrees with the path that retains them
+ */
+export function formatDetachedNodesAsText(snapshot: HeapSnapshot): string {
+  if (snapshot.detachedCount === 0) {
+    return `Snapshot #${snapshot.id}: no detached DOM nodes`;
+  }
+  const lines = [
+    `Snapshot #${snapshot.id}: ${snapshot.detachedCount} detached DOM nodes in ${snapshot.detached.length}${snapshot.detached.length === MAX_DETACHED ? '+' : ''} ` +
+      `subtree${snapshot.detached.length === 1 ? '' : 's'}`,
+  ];
+  for (const node of snapshot.detached) {
+    lines.push(`- ${node.name} @${node.id} (retains ${formatBytes(node.retainedSize)})`);
+    lines.push(`  ${node.retainerPath}`);
+  }
+  return lines.join('\n');
+}
@@ -7,6 +7,8 @@
  * const cdp = await getCDPSession(page);
  * const dbg = createDebugger({ cdp });
  * await dbg.setBreakpoint({ file: 'app.js', line: 42 });
+ * // Source-mapped scripts take original paths, e.g. from getReactSource()
+ * await dbg.setBreakpoint({ file: 'src/components/Button.tsx', line: 12 });
  * 
  * // Live editing
  * const editor = createEditor({ cdp });
@@ -22,11 +24,32 @@
  * 
  * // React source finding
  * const source = await getReactSource({ locator, cdp });
+ * 
+ * // Performance profiling
+ * const profiler = createProfiler({ cdp });
+ * await profiler.start();
+ * await page.reload();
+ * console.log(formatProfileAsText(await profiler.stop()));
+ * 
+ * // Code coverage
+ * const coverage = createCoverage({ cdp });
+ * await coverage.start();
+ * await page.reload();
+ * console.log(formatCoverageAsText(await coverage.stop()));
+ * 
+ * // Memory leaks
+ * const heap = createHeapProfiler({ cdp });
+ * const before = await heap.takeSnapshot();
+ * const after = await heap.takeSnapshot();
+ * console.log(formatHeapDiffAsText(diffHeapSnapshots(before, after)));
  * ```
  */
 
 export { getCDPSession, clearCDPSession, type CDPSession } from './cdp-session.js';
-export { createDebugger, type Debugger, type BreakpointInfo, type LocationInfo, type EvaluateResult, type ScriptInfo } from './debugger.js';
+export { createDebugger, type Debugger, type BreakpointInfo, type LocationInfo, type GeneratedLocation, type EvaluateResult, type ScriptInfo, type SourceInfo } from './debugger.js';
 export { createEditor, type Editor, type ReadResult, type SearchMatch, type EditResult } from './editor.js';
-export { getStylesForLocator, formatStylesAsText, type StylesResult, type StyleRule, type StyleSource, type StyleDeclarations } from './styles.js';
+export { getStylesForLocator, formatStylesAsText, getContrastForLocator, type StylesResult, type StyleRule, type StyleSource, type StyleDeclarations, type ContrastResult } from './styles.js';
 export { getReactSource, type ReactSourceLocation } from './react-source.js';
+export { createProfiler, formatProfileAsText, type Profiler, type ProfileMode, type ProfileResult, type WebVitals, type MetricValue, type LongTask, type FunctionTiming } from './profiler.js';
+export { createCoverage, formatCoverageAsText, type Coverage, type CoverageResult, type CoverageEntry, type CoverageRange, type UnusedRule } from './coverage.js';
+export { createHeapProfiler, analyzeHeapSnapshot, diffHeapSnapshots, formatHeapSnapshotAsText, formatHeapDiffAsText, formatDetachedNodesAsText, type HeapProfiler, type HeapSnapshot, type HeapDiff, type ConstructorStats, type ConstructorDiff, type DetachedNode } from './heap.js';
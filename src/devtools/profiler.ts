@@ -0,0 +1,581 @@
+/**
+ * Performance profiler via Chrome DevTools Protocol.
+ * Records a trace and/or CPU profile and reduces it to Web Vitals, long tasks
+ * and the functions with the most self time.
+ */
+
+import type { CDPSession } from 'playwright';
+
+export type ProfileMode = 'trace' | 'cpu';
+
+export interface MetricValue {
+  value: number;                       // ms, or unitless for CLS
+  rating: 'good' | 'needs-improvement' | 'poor';
+}
+
+export interface WebVitals {
+  navigationUrl: string | null;        // Main-frame navigation inside the recording, if any
+  fcp: MetricValue | null;
+  lcp: (MetricValue & { type: string; size: number; url?: string }) | null;
+  cls: (MetricValue & { shifts: number }) | null;
+  inp: (MetricValue & { eventType: string; interactions: number }) | null;
+  tbt: MetricValue;
+}
+
+export interface LongTask {
+  startMs: number;                     // Relative to navigation start, or to the recording start
+  durationMs: number;
+  blockingMs: number;
+  topFunction: string | null;          // Function with the most self time inside the task
+}
+
+export interface FunctionTiming {
+  functionName: string;
+  url: string;                         // Same URL createEditor lists (inline://<scriptId> for inline scripts)
+  lineNumber: number;                  // 1-based, like editor.read
+  columnNumber: number;                // 1-based
+  selfMs: number;
+  totalMs: number;
+}
+
+export interface ProfileResult {
+  mode: ProfileMode;
+  durationMs: number;
+  vitals: WebVitals | null;            // trace mode only
+  longTasks: LongTask[];               // trace mode only
+  functions: FunctionTiming[];         // Sorted by self time
+  busyMs: number;                      // Sampled time that was not idle
+  idleMs: number;
+  gcMs: number;
+  programMs: number;                   // Native browser work outside JavaScript
+}
+
+export interface Profiler {
+  start(options?: { mode?: ProfileMode; samplingInterval?: number }): Promise<void>;
+  stop(): Promise<ProfileResult>;
+  isRecording(): boolean;
+}
+
+interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: string;
+  ts: number;                          // µs
+  dur?: number;                        // µs
+  pid: number;
+  tid: number;
+  args?: { data?: Record<string, any>; frame?: string; name?: string; [key: string]: any };
+}
+
+interface ProfileNode {
+  id: number;
+  callFrame: {
+    functionName: string;
+    scriptId: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+  };
+  children?: number[];
+}
+
+interface CPUProfile {
+  nodes: ProfileNode[];
+  startTime: number;                   // µs
+  endTime: number;
+  samples?: number[];
+  timeDeltas?: number[];
+}
+
+interface Sample {
+  nodeId: number;
+  ts: number;                          // µs
+  dur: number;                         // µs
+}
+
+const TRACE_CATEGORIES = [
+  'toplevel',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'loading',
+  'blink.user_timing',
+  'v8.execute',
+];
+
+const LONG_TASK_MS = 50;
+const MAX_LONG_TASKS = 50;
+const MAX_FUNCTIONS = 100;
+const TRACE_END_TIMEOUT = 10_000;    // Wait this long for tracingComplete (ms)
+
+// Web Vitals thresholds: [good, poor]
+const THRESHOLDS = {
+  fcp: [1800, 3000],
+  lcp: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp: [200, 500],
+  tbt: [200, 600],
+} as const;
+
+const SPECIAL_NODES = new Set(['(root)', '(program)', '(idle)', '(garbage collector)']);
+
+function rate(metric: keyof typeof THRESHOLDS, value: number): MetricValue {
+  const [good, poor] = THRESHOLDS[metric];
+  return {
+    value,
+    rating: value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor',
+  };
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * URL a script is known by in createEditor: its URL, or inline://<scriptId> without one
+ */
+function scriptUrl(callFrame: ProfileNode['callFrame']): string {
+  if (callFrame.url) return callFrame.url;
+  return callFrame.scriptId && callFrame.scriptId !== '0' ? `inline://${callFrame.scriptId}` : '';
+}
+
+function functionKey(callFrame: ProfileNode['callFrame']): string {
+  return `${callFrame.functionName}@${scriptUrl(callFrame)}:${callFrame.lineNumber}:${callFrame.columnNumber}`;
+}
+
+function functionLabel(callFrame: ProfileNode['callFrame']): string {
+  const name = callFrame.functionName || '(anonymous)';
+  const url = scriptUrl(callFrame);
+  return url ? `${name} ${url}:${callFrame.lineNumber + 1}` : name;
+}
+
+/**
+ * Sample timestamps and durations: each sample lasts until the next one
+ */
+function profileSamples(profile: CPUProfile): Sample[] {
+  const ids = profile.samples ?? [];
+  const deltas = profile.timeDeltas ?? [];
+  const samples: Sample[] = [];
+
+  let ts = profile.startTime;
+  for (let i = 0; i < ids.length; i++) {
+    ts += deltas[i] ?? 0;
+    const next = i + 1 < ids.length ? ts + (deltas[i + 1] ?? 0) : profile.endTime;
+    samples.push({ nodeId: ids[i], ts, dur: Math.max(0, next - ts) });
+  }
+  return samples;
+}
+
+function summarizeProfile(profile: CPUProfile): Pick<ProfileResult, 'functions' | 'busyMs' | 'idleMs' | 'gcMs' | 'programMs'> {
+  const nodes = new Map(profile.nodes.map((node) => [node.id, node]));
+  const parents = new Map<number, number>();
+  for (const node of profile.nodes) {
+    for (const child of node.children ?? []) {
+      parents.set(child, node.id);
+    }
+  }
+
+  const timings = new Map<string, FunctionTiming>();
+  const special: Record<string, number> = {};
+  let busy = 0;
+
+  for (const sample of profileSamples(profile)) {
+    const node = nodes.get(sample.nodeId);
+    if (!node) continue;
+    const name = node.callFrame.functionName;
+
+    if (SPECIAL_NODES.has(name)) {
+      special[name] = (special[name] ?? 0) + sample.dur;
+      if (name !== '(idle)') busy += sample.dur;
+      continue;
+    }
+    busy += sample.dur;
+
+    // Self time goes to the sampled frame, total time once to every distinct function on the stack
+    const seen = new Set<string>();
+    for (let id: number | undefined = node.id; id !== undefined; id = parents.get(id)) {
+      const frame = nodes.get(id)!.callFrame;
+      if (SPECIAL_NODES.has(frame.functionName)) continue;
+      const key = functionKey(frame);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      let timing = timings.get(key);
+      if (!timing) {
+        timing = {
+          functionName: frame.functionName || '(anonymous)',
+          url: scriptUrl(frame),
+          lineNumber: frame.lineNumber + 1,
+          columnNumber: frame.columnNumber + 1,
+          selfMs: 0,
+          totalMs: 0,
+        };
+        timings.set(key, timing);
+      }
+      timing.totalMs += sample.dur;
+      if (id === node.id) timing.selfMs += sample.dur;
+    }
+  }
+
+  const functions = [...timings.values()]
+    .filter((timing) => timing.selfMs > 0)
+    .sort((a, b) => b.selfMs - a.selfMs)
+    .slice(0, MAX_FUNCTIONS)
+    .map((timing) => ({ ...timing, selfMs: round(timing.selfMs / 1000), totalMs: round(timing.totalMs / 1000) }));
+
+  return {
+    functions,
+    busyMs: round(busy / 1000),
+    idleMs: round((special['(idle)'] ?? 0) / 1000),
+    gcMs: round((special['(garbage collector)'] ?? 0) / 1000),
+    programMs: round((special['(program)'] ?? 0) / 1000),
+  };
+}
+
+/**
+ * Renderer main threads showing the page's outermost frame (a cross-site navigation changes process)
+ */
+function mainThreads(events: TraceEvent[]): Set<string> {
+  const rendererMains = new Set<string>();
+  for (const event of events) {
+    if (event.ph === 'M' && event.name === 'thread_name' && event.args?.name === 'CrRendererMain') {
+      rendererMains.add(`${event.pid}:${event.tid}`);
+    }
+  }
+
+  const pids = new Set<number>();
+  let mainFrame: string | undefined;
+  for (const event of events) {
+    if (event.name === 'TracingStartedInBrowser') {
+      const frame = (event.args?.data?.frames ?? []).find((f: { parent?: string }) => !f.parent);
+      if (frame) {
+        mainFrame = frame.frame;
+        pids.add(frame.processId);
+      }
+    } else if (event.name === 'FrameCommittedInBrowser' && event.args?.data?.frame === mainFrame) {
+      pids.add(event.args!.data!.processId);
+    }
+  }
+
+  const threads = new Set([...rendererMains].filter((key) => pids.has(Number(key.split(':')[0]))));
+  return threads.size > 0 ? threads : rendererMains;
+}
+
+function isOutermost(data: Record<string, any> | undefined): boolean {
+  return Boolean(data?.isOutermostMainFrame ?? data?.isMainFrame ?? data?.isLoadingMainFrame);
+}
+
+/**
+ * Largest window of layout shifts less than 1s apart, at most 5s long
+ */
+function cumulativeLayoutShift(shifts: TraceEvent[]): number {
+  let worst = 0;
+  let current = 0;
+  let windowStart = 0;
+  let previous = 0;
+
+  for (const shift of shifts) {
+    const score = shift.args?.data?.weighted_score_delta ?? shift.args?.data?.score ?? 0;
+    if (current > 0 && (shift.ts - previous > 1_000_000 || shift.ts - windowStart > 5_000_000)) {
+      current = 0;
+    }
+    if (current === 0) windowStart = shift.ts;
+    current += score;
+    previous = shift.ts;
+    worst = Math.max(worst, current);
+  }
+  return worst;
+}
+
+function analyzeTrace(events: TraceEvent[], profile: CPUProfile): Pick<ProfileResult, 'vitals' | 'longTasks'> {
+  const threads = mainThreads(events);
+  const onMain = (event: TraceEvent) => threads.has(`${event.pid}:${event.tid}`);
+
+  const start = events.find((e) => e.name === 'TracingStartedInBrowser')?.ts
+    ?? events.reduce((min, e) => (e.ts > 0 && e.ts < min ? e.ts : min), Infinity);
+
+  // The last main-frame navigation is the origin for paint metrics
+  const navigation = events
+    .filter((e) => e.name === 'navigationStart' && isOutermost(e.args?.data) &&
+      e.args?.data?.documentLoaderURL && e.args.data.documentLoaderURL !== 'about:blank')
+    .sort((a, b) => a.ts - b.ts)
+    .pop();
+  const origin = navigation?.ts ?? start;
+  const sameNavigation = (event: TraceEvent) => navigation !== undefined && event.ts >= navigation.ts &&
+    (!event.args?.frame || !navigation.args?.frame || event.args.frame === navigation.args.frame);
+
+  const fcpEvent = events.find((e) => e.name === 'firstContentfulPaint' && sameNavigation(e));
+  const fcp = fcpEvent ? rate('fcp', round((fcpEvent.ts - origin) / 1000, 0)) : null;
+
+  let lcp: WebVitals['lcp'] = null;
+  const candidates = events
+    .filter((e) => e.name === 'largestContentfulPaint::Candidate' && isOutermost(e.args?.data) && sameNavigation(e))
+    .sort((a, b) => (a.args!.data!.candidateIndex ?? 0) - (b.args!.data!.candidateIndex ?? 0) || a.ts - b.ts);
+  const lastCandidate = candidates.pop();
+  if (lastCandidate) {
+    const data = lastCandidate.args!.data!;
+    lcp = {
+      ...rate('lcp', round((lastCandidate.ts - origin) / 1000, 0)),
+      type: data.type ?? 'unknown',
+      size: data.size ?? 0,
+      url: data.url || undefined,
+    };
+  }
+
+  const shifts = events
+    .filter((e) => e.name === 'LayoutShift' && onMain(e) && e.args?.data?.is_main_frame !== false && !e.args?.data?.had_recent_input)
+    .sort((a, b) => a.ts - b.ts);
+  const cls = shifts.length > 0
+    ? { ...rate('cls', round(cumulativeLayoutShift(shifts), 3)), shifts: shifts.length }
+    : null;
+
+  // Longest duration per interaction; with 50+ interactions the 98th percentile
+  const interactions = new Map<number, { duration: number; type: string }>();
+  for (const event of events) {
+    const data = event.args?.data;
+    if (event.name !== 'EventTiming' || !data?.interactionId) continue;
+    const existing = interactions.get(data.interactionId);
+    if (!existing || data.duration > existing.duration) {
+      interactions.set(data.interactionId, { duration: data.duration, type: data.type });
+    }
+  }
+  let inp: WebVitals['inp'] = null;
+  if (interactions.size > 0) {
+    const sorted = [...interactions.values()].sort((a, b) => b.duration - a.duration);
+    const worst = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length / 50))];
+    inp = { ...rate('inp', round(worst.duration, 0)), eventType: worst.type, interactions: interactions.size };
+  }
+
+  // Sampled frames are attributed to tasks by time; clocks match in the same browser
+  const nodes = new Map(profile.nodes.map((node) => [node.id, node]));
+  const samples = profileSamples(profile);
+  const topFunction = (from: number, to: number): string | null => {
+    const selfTime = new Map<string, { label: string; dur: number }>();
+    for (const sample of samples) {
+      if (sample.ts < from || sample.ts >= to) continue;
+      const frame = nodes.get(sample.nodeId)?.callFrame;
+      if (!frame || SPECIAL_NODES.has(frame.functionName)) continue;
+      const key = functionKey(frame);
+      const entry = selfTime.get(key) ?? { label: functionLabel(frame), dur: 0 };
+      entry.dur += sample.dur;
+      selfTime.set(key, entry);
+    }
+    const best = [...selfTime.values()].sort((a, b) => b.dur - a.dur)[0];
+    return best?.label ?? null;
+  };
+
+  const tasks = events
+    .filter((e) => e.name === 'RunTask' && e.ph === 'X' && onMain(e) && (e.dur ?? 0) > LONG_TASK_MS * 1000)
+    .sort((a, b) => a.ts - b.ts);
+
+  // TBT counts tasks after first contentful paint when the recording includes it
+  const tbtFrom = fcpEvent?.ts ?? 0;
+  const blocking = tasks
+    .filter((task) => task.ts >= tbtFrom)
+    .reduce((sum, task) => sum + task.dur! / 1000 - LONG_TASK_MS, 0);
+
+  const longTasks = tasks
+    .sort((a, b) => b.dur! - a.dur!)
+    .slice(0, MAX_LONG_TASKS)
+    .sort((a, b) => a.ts - b.ts)
+    .map((task) => ({
+      startMs: round((task.ts - origin) / 1000, 0),
+      durationMs: round(task.dur! / 1000, 0),
+      blockingMs: round(task.dur! / 1000 - LONG_TASK_MS, 0),
+      topFunction: topFunction(task.ts, task.ts + task.dur!),
+    }));
+
+  return {
+    vitals: {
+      navigationUrl: navigation?.args?.data?.documentLoaderURL ?? null,
+      fcp,
+      lcp,
+      cls,
+      inp,
+      tbt: rate('tbt', round(blocking, 0)),
+    },
+    longTasks,
+  };
+}
+
+/**
+ * Create a Profiler instance for performance recording via CDP.
+ *
+ * @example
+ * ```ts
+ * const cdp = await getCDPSession(page);
+ * const profiler = createProfiler({ cdp });
+ * await profiler.start();
+ * await page.reload();
+ * const result = await profiler.stop();
+ * console.log(formatProfileAsText(result));
+ * ```
+ */
+export function createProfiler({ cdp }: { cdp: CDPSession }): Profiler {
+  let recording: { mode: ProfileMode; startedAt: number } | null = null;
+  let events: TraceEvent[] = [];
+  let tracing = false;                 // Trace events still arrive after stop() clears recording
+
+  cdp.on('Tracing.dataCollected', (params) => {
+    if (tracing) {
+      events.push(...(params.value as unknown as TraceEvent[]));
+    }
+  });
+
+  async function start({ mode = 'trace', samplingInterval = 200 }: { mode?: ProfileMode; samplingInterval?: number } = {}): Promise<void> {
+    if (recording) {
+      throw new Error('Profiler is already recording - call stop() first');
+    }
+    events = [];
+
+    await cdp.send('Profiler.enable');
+    await cdp.send('Profiler.setSamplingInterval', { interval: samplingInterval });
+
+    if (mode === 'trace') {
+      await cdp.send('Tracing.start', {
+        transferMode: 'ReportEvents',
+        traceConfig: {
+          recordMode: 'recordAsMuchAsPossible',
+          includedCategories: TRACE_CATEGORIES,
+        },
+      });
+      tracing = true;
+    }
+    try {
+      await cdp.send('Profiler.start');
+    } catch (error) {
+      if (mode === 'trace') {
+        tracing = false;
+        await cdp.send('Tracing.end').catch(() => {});
+      }
+      throw error;
+    }
+    recording = { mode, startedAt: Date.now() };
+  }
+
+  /**
+   * End tracing and wait for the remaining events. Gives up when the page is gone or
+   * tracingComplete never arrives; the trace is then partial.
+   */
+  async function endTracing(): Promise<void> {
+    let onComplete = () => {};
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const complete = new Promise<void>((resolve) => {
+      onComplete = () => resolve();
+      timer = setTimeout(resolve, TRACE_END_TIMEOUT);
+      cdp.once('Tracing.tracingComplete', onComplete);
+    });
+    try {
+      await cdp.send('Tracing.end');
+      await complete;
+    } catch {
+      // Session closed with the page
+    } finally {
+      clearTimeout(timer);
+      cdp.off('Tracing.tracingComplete', onComplete);
+      tracing = false;
+    }
+  }
+
+  async function stop(): Promise<ProfileResult> {
+    if (!recording) {
+      throw new Error('Profiler is not recording - call start() first');
+    }
+    const { mode, startedAt } = recording;
+    // Cleared first, so a failed stop() never leaves the profiler stuck recording
+    recording = null;
+
+    let profile: CPUProfile;
+    try {
+      const response = await cdp.send('Profiler.stop') as { profile: CPUProfile };
+      profile = response.profile;
+    } finally {
+      if (mode === 'trace') {
+        await endTracing();
+      }
+      await cdp.send('Profiler.disable').catch(() => {});
+    }
+
+    const cpu = summarizeProfile(profile);
+    const trace = mode === 'trace' && events.length > 0
+      ? analyzeTrace(events, profile)
+      : { vitals: null, longTasks: [] };
+    events = [];
+
+    return {
+      mode,
+      durationMs: Date.now() - startedAt,
+      ...trace,
+      ...cpu,
+    };
+  }
+
+  return {
+    start,
+    stop,
+    isRecording: () => recording !== null,
+  };
+}
+
+function formatMetric(metric: MetricValue, unit = 'ms'): string {
+  return `${metric.value}${unit}${metric.rating === 'good' ? '' : ` (${metric.rating})`}`;
+}
+
+/**
+ * Compact text summary: Web Vitals, long tasks, then the top self-time functions
+ */
+export function formatProfileAsText(result: ProfileResult, { top = 15 }: { top?: number } = {}): string {
+  const lines: string[] = [];
+  const { vitals } = result;
+
+  if (vitals) {
+    lines.push('Web Vitals:');
+    if (vitals.navigationUrl) {
+      lines.push(`- FCP: ${vitals.fcp ? formatMetric(vitals.fcp) : 'not recorded'}`);
+      if (vitals.lcp) {
+        const element = vitals.lcp.url ? `${vitals.lcp.type} ${vitals.lcp.url}` : vitals.lcp.type;
+        lines.push(`- LCP: ${formatMetric(vitals.lcp)} - ${element}`);
+      } else {
+        lines.push('- LCP: not recorded');
+      }
+    } else {
+      lines.push('- FCP/LCP: no navigation recorded (profile a navigation or reload to measure them)');
+    }
+    lines.push(`- CLS: ${vitals.cls ? `${formatMetric(vitals.cls, '')} from ${vitals.cls.shifts} shift${vitals.cls.shifts === 1 ? '' : 's'}` : '0'}`);
+    lines.push(vitals.inp
+      ? `- INP: ${formatMetric(vitals.inp)} - slowest ${vitals.inp.eventType} of ${vitals.inp.interactions} interaction${vitals.inp.interactions === 1 ? '' : 's'}`
+      : '- INP: no interactions recorded');
+    lines.push(`- TBT: ${formatMetric(vitals.tbt)}`);
+
+    if (result.longTasks.length > 0) {
+      lines.push('', `Long tasks (${result.longTasks.length} over ${LONG_TASK_MS}ms, start relative to ${vitals.navigationUrl ? 'navigation' : 'recording'}):`);
+      for (const task of result.longTasks.slice(0, 10)) {
+        lines.push(`- @${task.startMs}ms ${task.durationMs}ms${task.topFunction ? `: ${task.topFunction}` : ''}`);
+      }
+      if (result.longTasks.length > 10) {
+        lines.push(`- ... ${result.longTasks.length - 10} more`);
+      }
+    }
+    lines.push('');
+  }
+
+  const other = [
+    result.gcMs > 0 ? `GC ${result.gcMs}ms` : '',
+    result.programMs > 0 ? `native ${result.programMs}ms` : '',
+    `idle ${result.idleMs}ms`,
+  ].filter(Boolean).join(', ');
+  lines.push(`CPU: ${result.busyMs}ms busy (${other})`);
+
+  const functions = result.functions.slice(0, top);
+  if (functions.length === 0) {
+    lines.push('- no JavaScript sampled');
+  } else {
+    lines.push('Top self time (self / total, function url:line:col):');
+    for (const fn of functions) {
+      const location = fn.url ? ` ${fn.url}:${fn.lineNumber}:${fn.columnNumber}` : '';
+      lines.push(`- ${fn.selfMs}ms / ${fn.totalMs}ms ${fn.functionName}${location}`);
+    }
+  }
+
+  return lines.join('\n');
+}
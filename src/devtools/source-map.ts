@@ -0,0 +1,256 @@
+/**
+ * Source map (v3) support for the debugger: decodes mappings and maps positions between
+ * generated scripts and original sources. Lines and columns are 0-based, like CDP.
+ */
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources?: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{ offset: { line: number; column: number }; map: RawSourceMap }>;
+}
+
+export interface OriginalPosition {
+  source: string;                      // Resolved source URL, e.g. webpack://app/src/App.tsx
+  line: number;
+  column: number;
+  name?: string;
+}
+
+export interface GeneratedPosition {
+  line: number;
+  column: number;
+  originalLine: number;                // The mapped original line, may be after the requested one
+}
+
+export interface SourceMap {
+  sources: string[];
+  /**
+   * Original position for a generated position, or null if it maps to no source
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null;
+  /**
+   * First generated position for an original line. Lines without code move to the next mapped line
+   */
+  generatedPositionFor(source: string, line: number): GeneratedPosition | null;
+  /**
+   * Embedded source text (sourcesContent), if the map has it
+   */
+  sourceContent(source: string): string | null;
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex]; sourceIndex -1 = unmapped
+type Segment = [number, number, number, number, number];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64, (char, i) => [char, i]));
+
+/**
+ * Decode a mappings string into segments per generated line
+ */
+function decodeMappings(
+  mappings: string,
+  into: Segment[][],
+  offset: { line: number; column: number; source: number; name: number }
+): void {
+  let line = offset.line;
+  let column = 0;
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+  let fields: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  const flushSegment = () => {
+    if (fields.length === 0) return;
+    column += fields[0];
+    const generatedColumn = line === offset.line ? column + offset.column : column;
+    let segment: Segment = [generatedColumn, -1, 0, 0, -1];
+    if (fields.length >= 4) {
+      source += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      if (fields.length >= 5) name += fields[4];
+      segment = [generatedColumn, source + offset.source, originalLine, originalColumn, fields.length >= 5 ? name + offset.name : -1];
+    }
+    (into[line] ??= []).push(segment);
+    fields = [];
+  };
+
+  for (const char of mappings) {
+    if (char === ',' || char === ';') {
+      flushSegment();
+      if (char === ';') {
+        line++;
+        column = 0;
+      }
+      continue;
+    }
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) throw new Error(`Invalid character "${char}" in source map mappings`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  flushSegment();
+}
+
+export function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Path segments without scheme, host, query and "." parts:
+ * webpack://app/src/App.tsx and /home/me/app/src/App.tsx both end in [src, App.tsx]
+ */
+export function pathSegments(path: string): string[] {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/[?#].*$/, '')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+    .split('/')
+    .filter((segment) => segment && segment !== '.');
+}
+
+/**
+ * How well a file path names a source: the number of trailing path segments they share,
+ * or 0 unless one is a suffix of the other. getReactSource's absolute file names and
+ * short paths like "src/App.tsx" both match webpack:// or http:// sources this way.
+ */
+export function matchSourcePath(source: string, file: string): number {
+  const a = pathSegments(source);
+  const b = pathSegments(file);
+  let shared = 0;
+  while (shared < a.length && shared < b.length && a[a.length - 1 - shared] === b[b.length - 1 - shared]) {
+    shared++;
+  }
+  return shared > 0 && (shared === a.length || shared === b.length) ? shared : 0;
+}
+
+/**
+ * Decode the body of a data: URL (inline source maps)
+ */
+export function decodeDataUrl(url: string): string {
+  const comma = url.indexOf(',');
+  if (!url.startsWith('data:') || comma === -1) throw new Error('Not a data: URL');
+  const meta = url.slice(5, comma);
+  const body = url.slice(comma + 1);
+  return meta.endsWith(';base64')
+    ? Buffer.from(body, 'base64').toString('utf8')
+    : decodeURIComponent(body);
+}
+
+/**
+ * Parse a source map. Sources are resolved against the map URL (or the script URL for
+ * inline maps), so they are absolute like the ones DevTools shows.
+ */
+export function parseSourceMap(raw: string | RawSourceMap, baseUrl: string): SourceMap {
+  // Maps may start with an XSSI guard line
+  const map: RawSourceMap = typeof raw === 'string' ? JSON.parse(raw.replace(/^\)\]\}'[^\n]*\n/, '')) : raw;
+  const lines: Segment[][] = [];
+  const sources: string[] = [];
+  const contents: Array<string | null> = [];
+  const names: string[] = [];
+
+  const addMap = (part: RawSourceMap, line: number, column: number) => {
+    if (part.sections) {
+      for (const section of part.sections) {
+        addMap(section.map, line + section.offset.line, section.offset.line === 0 ? column + section.offset.column : section.offset.column);
+      }
+      return;
+    }
+    const offset = { line, column, source: sources.length, name: names.length };
+    const root = part.sourceRoot ? part.sourceRoot.replace(/\/?$/, '/') : '';
+    (part.sources ?? []).forEach((source, i) => {
+      sources.push(resolveUrl(`${root}${source ?? ''}`, baseUrl));
+      contents.push(part.sourcesContent?.[i] ?? null);
+    });
+    names.push(...(part.names ?? []));
+    decodeMappings(part.mappings ?? '', lines, offset);
+  };
+  addMap(map, 0, 0);
+
+  for (const segments of lines) {
+    segments?.sort((a, b) => a[0] - b[0]);
+  }
+
+  // Original -> generated entries per source, built on first use
+  let reverse: Map<number, Array<[number, number, number, number]>> | null = null;
+  const buildReverse = () => {
+    reverse = new Map();
+    lines.forEach((segments, generatedLine) => {
+      for (const [generatedColumn, source, originalLine, originalColumn] of segments ?? []) {
+        if (source < 0) continue;
+        let entries = reverse!.get(source);
+        if (!entries) reverse!.set(source, entries = []);
+        entries.push([originalLine, originalColumn, generatedLine, generatedColumn]);
+      }
+    });
+    for (const entries of reverse.values()) {
+      entries.sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2] || a[3] - b[3]);
+    }
+    return reverse;
+  };
+
+  function originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = lines[line];
+    if (!segments || segments.length === 0) return null;
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid][0] <= column) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    // Breakpoint locations can sit before the line's first mapping
+    const segment = segments[found === -1 ? 0 : found];
+    if (segment[1] < 0) return null;
+    return {
+      source: sources[segment[1]],
+      line: segment[2],
+      column: segment[3],
+      ...(segment[4] >= 0 ? { name: names[segment[4]] } : {}),
+    };
+  }
+
+  function generatedPositionFor(source: string, line: number): GeneratedPosition | null {
+    const index = sources.indexOf(source);
+    if (index === -1) return null;
+    const entries = (reverse ?? buildReverse()).get(index) ?? [];
+    const entry = entries.find(([originalLine]) => originalLine >= line);
+    return entry ? { line: entry[2], column: entry[3], originalLine: entry[0] } : null;
+  }
+
+  function sourceContent(source: string): string | null {
+    const index = sources.indexOf(source);
+    return index === -1 ? null : contents[index];
+  }
+
+  return {
+    sources,
+    originalPositionFor,
+    generatedPositionFor,
+    sourceContent,
+  };
+}
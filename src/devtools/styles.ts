@@ -104,24 +104,16 @@ function formatElementDescription(node: DOMNode): string {
 }
 
 /**
- * Get matched CSS styles for a locator element.
- * 
- * @example
- * ```ts
- * const cdp = await getCDPSession(page);
- * const styles = await getStylesForLocator({ locator: $('e5'), cdp });
- * console.log(formatStylesAsText(styles));
- * ```
+ * Resolve a locator to a CDP DOM nodeId (the element painted at its center).
+ * Enables the DOM and CSS domains.
  */
-export async function getStylesForLocator({
+async function getNodeIdForLocator({
   locator,
   cdp,
-  includeUserAgentStyles = false,
 }: {
   locator: Locator | ElementHandle;
   cdp: CDPSession;
-  includeUserAgentStyles?: boolean;
-}): Promise<StylesResult> {
+}): Promise<number> {
   await cdp.send('DOM.enable');
   await cdp.send('CSS.enable');
 
@@ -155,6 +147,30 @@ export async function getStylesForLocator({
     throw new Error('Could not get nodeId for element');
   }
 
+  return nodeId;
+}
+
+/**
+ * Get matched CSS styles for a locator element.
+ * 
+ * @example
+ * ```ts
+ * const cdp = await getCDPSession(page);
+ * const styles = await getStylesForLocator({ locator: $('e5'), cdp });
+ * console.log(formatStylesAsText(styles));
+ * ```
+ */
+export async function getStylesForLocator({
+  locator,
+  cdp,
+  includeUserAgentStyles = false,
+}: {
+  locator: Locator | ElementHandle;
+  cdp: CDPSession;
+  includeUserAgentStyles?: boolean;
+}): Promise<StylesResult> {
+  const nodeId = await getNodeIdForLocator({ locator, cdp });
+
   const nodeInfo = await cdp.send('DOM.describeNode', { nodeId }) as { node: DOMNode };
   const elementDescription = formatElementDescription(nodeInfo.node);
 
@@ -323,3 +339,115 @@ export function formatStylesAsText(styles: StylesResult): string {
 
   return lines.join('\n');
 }
+
+export interface ContrastResult {
+  foreground: string;
+  background: string;
+  ratio: number;
+  fontSize: string;
+  fontWeight: string;
+  largeText: boolean;
+  required: number;        // WCAG AA minimum for this text size
+  passes: boolean;
+}
+
+type RGBA = [number, number, number, number];
+
+function parseColor(value: string): RGBA | null {
+  const match = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/);
+  if (!match) return null;
+
+  const alpha = match[4] === undefined
+    ? 1
+    : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+
+  return [Number(match[1]), Number(match[2]), Number(match[3]), alpha];
+}
+
+function blend([r, g, b, a]: RGBA, [br, bg, bb]: RGBA): RGBA {
+  return [r * a + br * (1 - a), g * a + bg * (1 - a), b * a + bb * (1 - a), 1];
+}
+
+function luminance([r, g, b]: RGBA): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+function contrastRatio(fg: RGBA, bg: RGBA): number {
+  const [light, dark] = [luminance(fg), luminance(bg)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Compute WCAG text contrast for a locator element.
+ * Uses CSS.getBackgroundColors, so returns null when the background can't be
+ * determined (background images, gradients, overlapping elements).
+ *
+ * @example
+ * ```ts
+ * const cdp = await getCDPSession(page);
+ * const contrast = await getContrastForLocator({ locator: $('e5'), cdp });
+ * // { ratio: 3.2, required: 4.5, passes: false, ... }
+ * ```
+ */
+export async function getContrastForLocator({
+  locator,
+  cdp,
+}: {
+  locator: Locator | ElementHandle;
+  cdp: CDPSession;
+}): Promise<ContrastResult | null> {
+  const nodeId = await getNodeIdForLocator({ locator, cdp });
+
+  const { computedStyle } = await cdp.send('CSS.getComputedStyleForNode', { nodeId }) as {
+    computedStyle: CSSProperty[];
+  };
+  const backgrounds = await cdp.send('CSS.getBackgroundColors', { nodeId }) as {
+    backgroundColors?: string[];
+    computedFontSize?: string;
+    computedFontWeight?: string;
+  };
+
+  const color = computedStyle.find((p) => p.name === 'color')?.value ?? '';
+  const foreground = parseColor(color);
+  const backgroundColors = (backgrounds.backgroundColors ?? [])
+    .map((value) => ({ value, rgba: parseColor(value) }))
+    .filter((bg): bg is { value: string; rgba: RGBA } => bg.rgba !== null);
+
+  if (!foreground || backgroundColors.length === 0) {
+    return null;
+  }
+
+  const fontSize = backgrounds.computedFontSize ?? computedStyle.find((p) => p.name === 'font-size')?.value ?? '';
+  const fontWeight = backgrounds.computedFontWeight ?? computedStyle.find((p) => p.name === 'font-weight')?.value ?? '400';
+  const px = parseFloat(fontSize);
+  const bold = parseInt(fontWeight, 10) >= 700;
+  const largeText = px >= 24 || (bold && px >= 18.66);
+  const required = largeText ? 3 : 4.5;
+
+  // Several candidate backgrounds (e.g. behind semi-transparent layers): judge by the worst
+  let worst = { ratio: Infinity, background: backgroundColors[0].value };
+  for (const bg of backgroundColors) {
+    const opaqueBg = blend(bg.rgba, [255, 255, 255, 1]);
+    const ratio = contrastRatio(blend(foreground, opaqueBg), opaqueBg);
+    if (ratio < worst.ratio) {
+      worst = { ratio, background: bg.value };
+    }
+  }
+
+  const ratio = Math.round(worst.ratio * 100) / 100;
+
+  return {
+    foreground: color,
+    background: worst.background,
+    ratio,
+    fontSize,
+    fontWeight,
+    largeText,
+    required,
+    passes: ratio >= required,
+  };
+}
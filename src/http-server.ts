@@ -0,0 +1,301 @@
+/**
+ * HTTP transport for even-better-playwright-mcp
+ * Serves Streamable HTTP on /mcp with a legacy SSE fallback on /sse + /messages.
+ * Every MCP connection gets its own server instance; its browser sessions are created by
+ * createInstance (startServer makes them contexts in one shared browser).
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import os from 'node:os';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { PlaywrightMcpServer } from './index.js';
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024; // 4MB
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;                                  // Default: 127.0.0.1
+  createInstance: () => PlaywrightMcpServer;      // Called once per MCP connection
+  idleTimeout?: number;                           // Close Streamable HTTP connections idle this long (ms, default 30 min)
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close: () => Promise<void>;
+}
+
+interface Connection {
+  transport: Transport;
+  instance: PlaywrightMcpServer;
+  kind: 'streamable-http' | 'sse';
+  lastActivity: number;
+}
+
+/**
+ * Read and JSON-parse a request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Host names clients may use to reach the server. Checking Host and Origin against them stops
+ * DNS rebinding: a page on another site resolving its name to 127.0.0.1 to call browser_execute.
+ */
+function allowedHostNames(host: string): string[] {
+  if (host === '0.0.0.0' || host === '::') {
+    const addresses = Object.values(os.networkInterfaces())
+      .flat()
+      .map((info) => info?.family === 'IPv6' ? `[${info.address}]` : info?.address)
+      .filter((address): address is string => !!address);
+    return [...new Set([...LOOPBACK_NAMES, ...addresses, os.hostname().toLowerCase()])];
+  }
+  const name = host.includes(':') ? `[${host}]` : host;
+  return LOOPBACK_NAMES.includes(name) || name === '::1' ? LOOPBACK_NAMES : [name];
+}
+
+/**
+ * Write a JSON-RPC error response (used before a transport owns the request)
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
+
+/**
+ * Start an HTTP server exposing the MCP server over Streamable HTTP and SSE.
+ *
+ * Routes:
+ * - POST/GET/DELETE /mcp - Streamable HTTP (session via mcp-session-id header)
+ * - GET /sse, POST /messages?sessionId= - Deprecated HTTP+SSE transport
+ * - GET /health - Liveness and connection count
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const { port, host = '127.0.0.1', createInstance, idleTimeout = DEFAULT_IDLE_TIMEOUT } = options;
+  const connections = new Map<string, Connection>();
+  // Filled in once listening, when the port is known
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+
+  /**
+   * Why a request's Host or Origin header is not allowed, or null. Origin is only sent by browsers.
+   */
+  function checkRequestHeaders(req: IncomingMessage): string | null {
+    const { host: hostHeader, origin } = req.headers;
+    if (!hostHeader || !allowedHosts.includes(hostHeader.toLowerCase())) {
+      return `Invalid Host header: ${hostHeader}`;
+    }
+    if (origin && !allowedOrigins.includes(origin.toLowerCase())) {
+      return `Invalid Origin header: ${origin}`;
+    }
+    return null;
+  }
+
+  /**
+   * Tear down one connection and its browser sessions
+   */
+  async function closeConnection(sessionId: string): Promise<void> {
+    const connection = connections.get(sessionId);
+    if (!connection) return;
+
+    connections.delete(sessionId);
+    try {
+      await connection.instance.cleanup();
+    } catch (error) {
+      console.error(`[http] Cleanup failed for session ${sessionId}:`, error);
+    }
+  }
+
+  async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    // Existing connection
+    if (sessionId) {
+      const connection = connections.get(sessionId);
+      if (!connection || connection.kind !== 'streamable-http') {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      connection.lastActivity = Date.now();
+      await (connection.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    // New connection - must start with initialize
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const instance = createInstance();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins,
+      onsessioninitialized: (id) => {
+        connections.set(id, { transport, instance, kind: 'streamable-http', lastActivity: Date.now() });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeConnection(transport.sessionId);
+      }
+    };
+
+    try {
+      await instance.server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Initialize failed before a session was registered - nothing else will clean it up
+      if (!transport.sessionId || !connections.has(transport.sessionId)) {
+        await transport.close().catch(() => {});
+        await instance.cleanup().catch((error) => {
+          console.error('[http] Cleanup after failed initialize failed:', error);
+        });
+      }
+    }
+  }
+
+  async function handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const instance = createInstance();
+    const transport = new SSEServerTransport('/messages', res, {
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins,
+    });
+    const sessionId = transport.sessionId;
+
+    connections.set(sessionId, { transport, instance, kind: 'sse', lastActivity: Date.now() });
+    res.on('close', () => {
+      void closeConnection(sessionId);
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await instance.server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const connection = connections.get(sessionId);
+
+    if (!connection || connection.kind !== 'sse') {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await (connection.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    // The Host header is client input; a fixed base keeps it out of URL parsing
+    let url: URL;
+    try {
+      url = new URL(req.url ?? '/', 'http://localhost');
+    } catch {
+      sendJsonRpcError(res, 400, `Bad Request: Invalid URL ${req.url}`);
+      return;
+    }
+
+    const headerError = checkRequestHeaders(req);
+    if (headerError) {
+      sendJsonRpcError(res, 403, headerError);
+      return;
+    }
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', connections: connections.size }));
+      } else if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not Found');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[http] ${req.method} ${url.pathname} failed:`, message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, message);
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Streamable HTTP clients can vanish without DELETE; SSE connections end with their stream
+  const idleTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, connection] of [...connections]) {
+      if (connection.kind === 'streamable-http' && now - connection.lastActivity > idleTimeout) {
+        console.error(`[http] Closing session ${sessionId} after ${Math.round(idleTimeout / 1000)}s idle`);
+        void closeConnection(sessionId);
+        void connection.transport.close().catch(() => {});
+      }
+    }
+  }, Math.min(idleTimeout, 60 * 1000));
+  idleTimer.unref();
+
+  // Port 0 picks a free port
+  const { port: boundPort } = httpServer.address() as AddressInfo;
+  const hostNames = allowedHostNames(host);
+  // Browsers leave out the default port
+  allowedHosts = hostNames.flatMap((name) => boundPort === 80 ? [`${name}:80`, name] : [`${name}:${boundPort}`]);
+  allowedOrigins = hostNames.flatMap((name) => boundPort === 80 ? [`http://${name}:80`, `http://${name}`] : [`http://${name}:${boundPort}`]);
+
+  return {
+    url: `http://${host}:${boundPort}`,
+    close: async () => {
+      clearInterval(idleTimer);
+      // Stop accepting new connections, then close every transport and its browsers
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+
+      for (const [sessionId, connection] of [...connections]) {
+        await connection.transport.close().catch(() => {});
+        await closeConnection(sessionId);
+      }
+
+      httpServer.closeAllConnections();
+      await closed;
+    },
+  };
+}
@@ -21,10 +21,30 @@ import { snapshotTool, snapshotSchema, createSnapshotHandler } from './tools/sna
 import { screenshotTool, screenshotSchema, createScreenshotHandler } from './tools/screenshot.js';
 import { executeTool, executeSchema, createExecuteHandler } from './tools/execute.js';
 import { searchTool, searchSchema, createSearchHandler } from './tools/search.js';
-import { networkRequestsTool, createNetworkHandler } from './tools/network.js';
+import { expandTool, expandSchema, createExpandHandler } from './tools/expand.js';
+import { listItemsTool, listItemsSchema, createListItemsHandler } from './tools/list-items.js';
+import { extractTool, extractSchema, createExtractHandler } from './tools/extract.js';
+import { formTool, formSchema, createFormHandler } from './tools/form.js';
+import { eventsTool, eventsSchema, createEventsHandler } from './tools/events.js';
+import { storageStateTool, storageStateSchema, createStorageStateHandler } from './tools/storage-state.js';
+import { cookiesTool, cookiesSchema, createCookiesHandler } from './tools/cookies.js';
+import { emulateTool, emulateSchema, createEmulateHandler } from './tools/emulate.js';
+import { profileTool, profileSchema, createProfileHandler } from './tools/profile.js';
+import { coverageTool, coverageSchema, createCoverageHandler } from './tools/coverage.js';
+import { heapTool, heapSchema, createHeapHandler } from './tools/heap.js';
+import { networkRequestsTool, networkRequestsSchema, createNetworkHandler } from './tools/network.js';
+import { sessionTool, sessionSchema, createSessionHandler } from './tools/session.js';
+import { tabsTool, tabsSchema, createTabsHandler } from './tools/tabs.js';
+import { recordingTool, recordingSchema, createRecordingHandler } from './tools/recording.js';
+import { harTool, harSchema, createHarHandler } from './tools/har.js';
+import { routeTool, routeSchema, createRouteHandler } from './tools/route.js';
+import { a11yAuditTool, a11yAuditSchema, createA11yAuditHandler } from './tools/a11y.js';
+import { visualCompareTool, visualCompareSchema, createVisualCompareHandler } from './tools/visual-compare.js';
 import { BrowserManager, BrowserConfig } from './browser.js';
+import { SessionManager, DEFAULT_SESSION, type SessionManagerOptions } from './session-manager.js';
+import { startHttpServer } from './http-server.js';
 
-export { BrowserManager };
+export { BrowserManager, SessionManager };
 export type { BrowserConfig };
 
 const SERVER_NAME = 'even-better-playwright-mcp';
@@ -35,15 +55,17 @@ const SERVER_VERSION = '0.1.0';
  */
 export interface PlaywrightMcpServer {
   server: Server;
-  browserManager: BrowserManager;
+  browserManager: BrowserManager;   // The "default" session
+  sessionManager: SessionManager;
   cleanup: () => Promise<void>;
 }
 
 /**
- * Create and configure the MCP server with a BrowserManager instance
+ * Create and configure the MCP server with a SessionManager instance.
+ * Pass a browserProvider to run its sessions as contexts in a browser owned elsewhere.
  */
-export function createServerInstance(config?: BrowserConfig): PlaywrightMcpServer {
-  const browserManager = new BrowserManager(config);
+export function createServerInstance(config?: BrowserConfig, options?: SessionManagerOptions): PlaywrightMcpServer {
+  const sessionManager = new SessionManager(config, options);
 
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
@@ -55,12 +77,30 @@ export function createServerInstance(config?: BrowserConfig): PlaywrightMcpServe
     }
   );
 
-  // Create tool handlers with injected browser manager
-  const handleSnapshot = createSnapshotHandler(browserManager);
-  const handleScreenshot = createScreenshotHandler(browserManager);
-  const handleExecute = createExecuteHandler(browserManager);
-  const handleSearch = createSearchHandler(browserManager);
-  const handleNetworkRequests = createNetworkHandler(browserManager);
+  // Create tool handlers with injected session manager (resolves the active session per call)
+  const handleSnapshot = createSnapshotHandler(sessionManager);
+  const handleScreenshot = createScreenshotHandler(sessionManager);
+  const handleExecute = createExecuteHandler(sessionManager);
+  const handleSearch = createSearchHandler(sessionManager);
+  const handleExpand = createExpandHandler(sessionManager);
+  const handleListItems = createListItemsHandler(sessionManager);
+  const handleExtract = createExtractHandler(sessionManager);
+  const handleForm = createFormHandler(sessionManager);
+  const handleEvents = createEventsHandler(sessionManager);
+  const handleStorageState = createStorageStateHandler(sessionManager);
+  const handleCookies = createCookiesHandler(sessionManager);
+  const handleEmulate = createEmulateHandler(sessionManager);
+  const handleProfile = createProfileHandler(sessionManager);
+  const handleCoverage = createCoverageHandler(sessionManager);
+  const handleHeap = createHeapHandler(sessionManager);
+  const handleNetworkRequests = createNetworkHandler(sessionManager);
+  const handleSession = createSessionHandler(sessionManager);
+  const handleTabs = createTabsHandler(sessionManager);
+  const handleRecording = createRecordingHandler(sessionManager);
+  const handleHar = createHarHandler(sessionManager);
+  const handleRoute = createRouteHandler(sessionManager);
+  const handleA11yAudit = createA11yAuditHandler(sessionManager);
+  const handleVisualCompare = createVisualCompareHandler(sessionManager);
 
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -86,10 +126,100 @@ export function createServerInstance(config?: BrowserConfig): PlaywrightMcpServe
           description: searchTool.description,
           inputSchema: zodToJsonSchema(searchSchema),
         },
+        {
+          name: expandTool.name,
+          description: expandTool.description,
+          inputSchema: zodToJsonSchema(expandSchema),
+        },
+        {
+          name: listItemsTool.name,
+          description: listItemsTool.description,
+          inputSchema: zodToJsonSchema(listItemsSchema),
+        },
+        {
+          name: extractTool.name,
+          description: extractTool.description,
+          inputSchema: zodToJsonSchema(extractSchema),
+        },
+        {
+          name: formTool.name,
+          description: formTool.description,
+          inputSchema: zodToJsonSchema(formSchema),
+        },
+        {
+          name: eventsTool.name,
+          description: eventsTool.description,
+          inputSchema: zodToJsonSchema(eventsSchema),
+        },
+        {
+          name: storageStateTool.name,
+          description: storageStateTool.description,
+          inputSchema: zodToJsonSchema(storageStateSchema),
+        },
+        {
+          name: cookiesTool.name,
+          description: cookiesTool.description,
+          inputSchema: zodToJsonSchema(cookiesSchema),
+        },
+        {
+          name: emulateTool.name,
+          description: emulateTool.description,
+          inputSchema: zodToJsonSchema(emulateSchema),
+        },
+        {
+          name: profileTool.name,
+          description: profileTool.description,
+          inputSchema: zodToJsonSchema(profileSchema),
+        },
+        {
+          name: coverageTool.name,
+          description: coverageTool.description,
+          inputSchema: zodToJsonSchema(coverageSchema),
+        },
+        {
+          name: heapTool.name,
+          description: heapTool.description,
+          inputSchema: zodToJsonSchema(heapSchema),
+        },
         {
           name: networkRequestsTool.name,
           description: networkRequestsTool.description,
-          inputSchema: networkRequestsTool.inputSchema,
+          inputSchema: zodToJsonSchema(networkRequestsSchema),
+        },
+        {
+          name: sessionTool.name,
+          description: sessionTool.description,
+          inputSchema: zodToJsonSchema(sessionSchema),
+        },
+        {
+          name: tabsTool.name,
+          description: tabsTool.description,
+          inputSchema: zodToJsonSchema(tabsSchema),
+        },
+        {
+          name: recordingTool.name,
+          description: recordingTool.description,
+          inputSchema: zodToJsonSchema(recordingSchema),
+        },
+        {
+          name: harTool.name,
+          description: harTool.description,
+          inputSchema: zodToJsonSchema(harSchema),
+        },
+        {
+          name: routeTool.name,
+          description: routeTool.description,
+          inputSchema: zodToJsonSchema(routeSchema),
+        },
+        {
+          name: a11yAuditTool.name,
+          description: a11yAuditTool.description,
+          inputSchema: zodToJsonSchema(a11yAuditSchema),
+        },
+        {
+          name: visualCompareTool.name,
+          description: visualCompareTool.description,
+          inputSchema: zodToJsonSchema(visualCompareSchema),
         },
       ],
     };
@@ -118,8 +248,92 @@ export function createServerInstance(config?: BrowserConfig): PlaywrightMcpServe
           const parsed = searchSchema.parse(args || {});
           return await handleSearch(parsed);
         }
+
+        case 'browser_expand_snapshot': {
+          const parsed = expandSchema.parse(args || {});
+          return await handleExpand(parsed);
+        }
+
+        case 'browser_list_items': {
+          const parsed = listItemsSchema.parse(args || {});
+          return await handleListItems(parsed);
+        }
+
+        case 'browser_extract': {
+          const parsed = extractSchema.parse(args || {});
+          return await handleExtract(parsed);
+        }
+
+        case 'browser_form': {
+          const parsed = formSchema.parse(args || {});
+          return await handleForm(parsed);
+        }
+
+        case 'browser_events': {
+          const parsed = eventsSchema.parse(args || {});
+          return await handleEvents(parsed);
+        }
+
+        case 'browser_storage_state': {
+          const parsed = storageStateSchema.parse(args || {});
+          return await handleStorageState(parsed);
+        }
+
+        case 'browser_cookies': {
+          const parsed = cookiesSchema.parse(args || {});
+          return await handleCookies(parsed);
+        }
+
+        case 'browser_emulate': {
+          const parsed = emulateSchema.parse(args || {});
+          return await handleEmulate(parsed);
+        }
+
+        case 'browser_profile': {
+          const parsed = profileSchema.parse(args || {});
+          return await handleProfile(parsed);
+        }
+
+        case 'browser_coverage': {
+          const parsed = coverageSchema.parse(args || {});
+          return await handleCoverage(parsed);
+        }
+
+        case 'browser_heap': {
+          const parsed = heapSchema.parse(args || {});
+          return await handleHeap(parsed);
+        }
         case 'browser_network_requests': {
-          return await handleNetworkRequests(args as any || {});
+          const parsed = networkRequestsSchema.parse(args || {});
+          return await handleNetworkRequests(parsed);
+        }
+        case 'browser_sessions': {
+          const parsed = sessionSchema.parse(args || {});
+          return await handleSession(parsed);
+        }
+        case 'browser_tabs': {
+          const parsed = tabsSchema.parse(args || {});
+          return await handleTabs(parsed);
+        }
+        case 'browser_recording': {
+          const parsed = recordingSchema.parse(args || {});
+          return await handleRecording(parsed);
+        }
+        case 'browser_network_har': {
+          const parsed = harSchema.parse(args || {});
+          return await handleHar(parsed);
+        }
+        case 'browser_route': {
+          const parsed = routeSchema.parse(args || {});
+          return await handleRoute(parsed);
+        }
+        case 'browser_a11y_audit': {
+          const parsed = a11yAuditSchema.parse(args || {});
+          return await handleA11yAudit(parsed);
+        }
+        case 'browser_visual_compare': {
+          const parsed = visualCompareSchema.parse(args || {});
+          return await handleVisualCompare(parsed);
         }
         default:
           return {
@@ -200,20 +414,54 @@ export function createServerInstance(config?: BrowserConfig): PlaywrightMcpServe
 
   return {
     server,
-    browserManager,
+    browserManager: sessionManager.getSession(DEFAULT_SESSION),
+    sessionManager,
     cleanup: async () => {
-      await browserManager.close();
+      await sessionManager.closeAll();
     },
   };
 }
 
+/**
+ * Transport options for startServer
+ */
+export interface ServerOptions {
+  port?: number;   // Serve over HTTP (Streamable HTTP + SSE) instead of stdio
+  host?: string;   // HTTP bind address (default: 127.0.0.1)
+}
+
 /**
  * Start the MCP server with optional configuration
  */
-export async function startServer(config: BrowserConfig = {}): Promise<void> {
-  const { server, cleanup } = createServerInstance(config);
+export async function startServer(config: BrowserConfig = {}, options: ServerOptions = {}): Promise<void> {
+  const browserInfo = config.browser ?? 'chromium';
+  const modeInfo = config.headless ? 'headless' : 'headed';
+
+  let cleanup: () => Promise<void>;
 
-  const transport = new StdioServerTransport();
+  if (options.port !== undefined) {
+    // One browser for the whole server; each HTTP connection gets its own server
+    // instance whose sessions are isolated contexts in it
+    if (config.userDataDir) {
+      console.error('--user-data-dir is not used over HTTP: connections get isolated contexts in one shared browser');
+    }
+    const shared = new SessionManager({ ...config, userDataDir: undefined });
+    const httpServer = await startHttpServer({
+      port: options.port,
+      host: options.host,
+      createInstance: () => createServerInstance(config, { browserProvider: () => shared.getSharedBrowser() }),
+    });
+    cleanup = async () => {
+      await httpServer.close();
+      await shared.closeAll();
+    };
+    console.error(`${SERVER_NAME} v${SERVER_VERSION} listening on ${httpServer.url}/mcp (${browserInfo}, ${modeInfo})`);
+  } else {
+    const instance = createServerInstance(config);
+    cleanup = instance.cleanup;
+    await instance.server.connect(new StdioServerTransport());
+    console.error(`${SERVER_NAME} v${SERVER_VERSION} started (${browserInfo}, ${modeInfo})`);
+  }
 
   // Handle cleanup on exit
   process.on('SIGINT', async () => {
@@ -225,12 +473,6 @@ export async function startServer(config: BrowserConfig = {}): Promise<void> {
     await cleanup();
     process.exit(0);
   });
-
-  await server.connect(transport);
-
-  const browserInfo = config.browser ?? 'chromium';
-  const modeInfo = config.headless ? 'headless' : 'headed';
-  console.error(`${SERVER_NAME} v${SERVER_VERSION} started (${browserInfo}, ${modeInfo})`);
 }
 
 // Run directly if this is the main module
@@ -243,10 +485,29 @@ if (isMainModule || process.argv[1]?.includes('index')) {
 }
 
 // Export tool factories and schemas for library consumers
+export { startHttpServer };
 export {
   createSnapshotHandler,
   createScreenshotHandler,
   createExecuteHandler,
   createSearchHandler,
+  createExpandHandler,
+  createListItemsHandler,
+  createExtractHandler,
+  createFormHandler,
+  createEventsHandler,
+  createStorageStateHandler,
+  createCookiesHandler,
+  createEmulateHandler,
+  createProfileHandler,
+  createCoverageHandler,
+  createHeapHandler,
   createNetworkHandler,
+  createSessionHandler,
+  createTabsHandler,
+  createRecordingHandler,
+  createHarHandler,
+  createRouteHandler,
+  createA11yAuditHandler,
+  createVisualCompareHandler,
 };
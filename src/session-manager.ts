@@ -0,0 +1,213 @@
+/**
+ * Named browser session registry for even-better-playwright-mcp
+ * Each session is a BrowserManager with its own context, state, logs and network capture
+ */
+
+import type { Browser } from 'playwright';
+import { BrowserManager, BrowserConfig } from './browser.js';
+
+export const DEFAULT_SESSION = 'default';
+
+/**
+ * Summary of a session for listing
+ */
+export interface SessionInfo {
+  name: string;
+  active: boolean;
+  launched: boolean;
+  url: string | null;
+  pageCount: number;
+}
+
+/**
+ * Options for a SessionManager
+ */
+export interface SessionManagerOptions {
+  /**
+   * Browser owned by someone else (e.g. the HTTP server's shared SessionManager).
+   * When set, every session - default included - is an isolated context in it.
+   */
+  browserProvider?: () => Promise<Browser | null>;
+}
+
+export class SessionManager {
+  private sessions: Map<string, BrowserManager>;
+  private activeSessionName: string;
+  private config: BrowserConfig;
+  private browserProvider: (() => Promise<Browser | null>) | null;
+  private sharedBrowser: Promise<Browser | null> | null;
+
+  constructor(config?: BrowserConfig, options?: SessionManagerOptions) {
+    this.config = { ...config };
+    this.browserProvider = options?.browserProvider ?? null;
+    this.sharedBrowser = null;
+    this.sessions = new Map();
+    this.sessions.set(
+      DEFAULT_SESSION,
+      this.browserProvider ? this.createIsolatedManager() : new BrowserManager(this.config)
+    );
+    this.activeSessionName = DEFAULT_SESSION;
+  }
+
+  /**
+   * Browser shared by all non-default sessions (and by other SessionManagers via browserProvider).
+   * Comes from the default session so only one browser process runs; a
+   * persistent profile exposes no browser, so those sessions launch their own.
+   */
+  async getSharedBrowser(): Promise<Browser | null> {
+    if (this.browserProvider) {
+      return this.browserProvider();
+    }
+
+    // Concurrent callers (e.g. two HTTP connections starting at once) share one launch
+    const primary = this.getSession(DEFAULT_SESSION);
+    this.sharedBrowser ??= primary.getPage()
+      .then(() => primary.getBrowser())
+      .then((browser) => {
+        browser?.once('disconnected', () => {
+          this.sharedBrowser = null;
+        });
+        return browser;
+      });
+
+    return this.sharedBrowser.catch((error) => {
+      this.sharedBrowser = null;
+      throw error;
+    });
+  }
+
+  /**
+   * A session whose context lives in the shared browser.
+   * It never reuses the persistent profile - it can only be opened once
+   */
+  private createIsolatedManager(): BrowserManager {
+    const { userDataDir: _userDataDir, ...config } = this.config;
+    return new BrowserManager(
+      { ...config, isolated: true },
+      { browserProvider: () => this.getSharedBrowser() }
+    );
+  }
+
+  /**
+   * Validate a session name
+   */
+  private validateName(name: string): void {
+    if (!/^[\w.-]{1,64}$/.test(name)) {
+      throw new Error(
+        `Invalid session name "${name}". Use 1-64 letters, digits, "_", "-" or ".".`
+      );
+    }
+  }
+
+  /**
+   * Create a new named session. The browser context is created lazily on first use.
+   */
+  createSession(name: string): BrowserManager {
+    this.validateName(name);
+
+    if (this.sessions.has(name)) {
+      throw new Error(`Session "${name}" already exists`);
+    }
+
+    const manager = this.createIsolatedManager();
+
+    this.sessions.set(name, manager);
+    return manager;
+  }
+
+  /**
+   * Get a session by name (defaults to the active session)
+   */
+  getSession(name?: string): BrowserManager {
+    const sessionName = name ?? this.activeSessionName;
+    const manager = this.sessions.get(sessionName);
+
+    if (!manager) {
+      throw new Error(
+        `Session "${sessionName}" not found. Available: ${[...this.sessions.keys()].join(', ')}`
+      );
+    }
+
+    return manager;
+  }
+
+  /**
+   * Get the session that tools currently act on
+   */
+  getActiveSession(): BrowserManager {
+    return this.getSession(this.activeSessionName);
+  }
+
+  /**
+   * Get the name of the active session
+   */
+  getActiveSessionName(): string {
+    return this.activeSessionName;
+  }
+
+  /**
+   * Make a session the target of all subsequent tool calls
+   */
+  switchSession(name: string): BrowserManager {
+    const manager = this.getSession(name);
+    this.activeSessionName = name;
+    return manager;
+  }
+
+  /**
+   * List all sessions with their current page. Never launches a browser or reopens a tab
+   */
+  async listSessions(): Promise<SessionInfo[]> {
+    const result: SessionInfo[] = [];
+
+    for (const [name, manager] of this.sessions) {
+      const context = await manager.getContext();
+      const pages = manager.getPages();
+      const current = manager.getCurrentPage();
+
+      result.push({
+        name,
+        active: name === this.activeSessionName,
+        launched: context !== null,
+        url: current ? current.url() : null,
+        pageCount: pages.length,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Close a session and remove it from the registry.
+   * The default session owns the shared browser and cannot be destroyed.
+   */
+  async destroySession(name: string): Promise<void> {
+    if (name === DEFAULT_SESSION) {
+      throw new Error(`The "${DEFAULT_SESSION}" session cannot be destroyed`);
+    }
+
+    const manager = this.getSession(name);
+    await manager.close();
+    this.sessions.delete(name);
+
+    if (this.activeSessionName === name) {
+      this.activeSessionName = DEFAULT_SESSION;
+    }
+  }
+
+  /**
+   * Close every session, default last since it owns the shared browser
+   */
+  async closeAll(): Promise<void> {
+    for (const [name, manager] of this.sessions) {
+      if (name !== DEFAULT_SESSION) {
+        await manager.close();
+        this.sessions.delete(name);
+      }
+    }
+
+    await this.getSession(DEFAULT_SESSION).close();
+    this.sharedBrowser = null;
+    this.activeSessionName = DEFAULT_SESSION;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Accessibility audit tool - WCAG triage on the current page's snapshot
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { SmartOutlineSimple } from '../utils/smart-outline.js';
+import { auditStructure, auditContrast, formatAuditReport, type A11yIssue } from '../utils/a11y-audit.js';
+
+export const a11yAuditSchema = z.object({
+  contrast: z.boolean().optional().default(true).describe('Check text colour contrast via CDP (slower, Chromium only)'),
+  contrastLimit: z.number().int().positive().optional().default(50).describe('Max elements to check for contrast'),
+  severity: z.enum(['error', 'warning']).optional().describe('Only report issues of this severity'),
+  rules: z.array(z.enum([
+    'button-name', 'link-name', 'image-alt', 'input-label', 'heading-order', 'landmark-unique', 'color-contrast',
+  ])).optional().describe('Only run these rules (default: all)'),
+});
+
+const A11Y_AUDIT_DESCRIPTION = `Audit the current page for accessibility problems, with refs and severities.
+
+Rules:
+- button-name, link-name (error): Buttons/links without an accessible name
+- image-alt (error): Images without alt text
+- input-label (error): Form inputs without a label
+- heading-order (warning): Skipped heading levels (h2 -> h4)
+- landmark-unique (warning): Several landmarks of one role with the same (or no) name
+- color-contrast (error): Text below WCAG AA contrast (4.5:1, 3:1 for large text)
+
+Uses a fresh snapshot, so refs in the report work with browser_execute: await $('e12').evaluate(...)`;
+
+export const a11yAuditTool = {
+  name: 'browser_a11y_audit',
+  description: A11Y_AUDIT_DESCRIPTION,
+  inputSchema: a11yAuditSchema,
+};
+
+export function createA11yAuditHandler(sessionManager: SessionManager) {
+  return async function handleA11yAudit(params: z.infer<typeof a11yAuditSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+  }> {
+    const { contrast = true, contrastLimit = 50, severity, rules } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    const snapshot = await browserManager.getSnapshot(page);
+    browserManager.setLastSnapshot(snapshot);
+    const roots = new SmartOutlineSimple().parse(snapshot);
+
+    let issues: A11yIssue[] = auditStructure(roots);
+    let contrastNote = '';
+
+    if (contrast && (!rules || rules.includes('color-contrast'))) {
+      try {
+        const result = await auditContrast(page, roots, {
+          limit: contrastLimit,
+          locate: (ref) => browserManager.getRefLocator(page, ref),
+        });
+        issues.push(...result.issues);
+        contrastNote = `\nContrast: ${result.checked} elements checked, ${result.skipped} skipped (hidden, off-screen, image backgrounds or over limit)`;
+      } catch (error) {
+        // Structural results still stand
+        contrastNote = `\nContrast: not checked - contrast needs Chromium (${(error as Error).message.split('\n')[0]})`;
+      }
+    }
+
+    if (rules) {
+      issues = issues.filter((i) => rules.includes(i.rule));
+    }
+    if (severity) {
+      issues = issues.filter((i) => i.severity === severity);
+    }
+
+    const report = formatAuditReport(issues, `Accessibility audit of ${page.url()}`);
+
+    return {
+      content: [{ type: 'text', text: report + contrastNote }],
+    };
+  };
+}
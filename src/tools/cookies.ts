@@ -0,0 +1,94 @@
+/**
+ * Cookies tool - list, set and delete cookies with domain filters
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { filterCookies, formatCookies } from '../utils/storage-state.js';
+
+export const cookiesSchema = z.object({
+  action: z.enum(['list', 'set', 'delete']).optional().default('list').describe('Cookie operation to perform'),
+  domain: z.string().optional().describe('list/delete: only cookies of this domain and its subdomains; set: cookie domain'),
+  name: z.string().optional().describe('Cookie name (filter for list/delete, required for set)'),
+  value: z.string().optional().describe('set: cookie value'),
+  path: z.string().optional().describe('set: cookie path (default: /)'),
+  url: z.string().optional().describe('set: URL the cookie belongs to, instead of domain (default: current page)'),
+  expires: z.number().optional().describe('set: expiry as Unix time in seconds (default: session cookie)'),
+  httpOnly: z.boolean().optional(),
+  secure: z.boolean().optional(),
+  sameSite: z.enum(['Strict', 'Lax', 'None']).optional(),
+  all: z.boolean().optional().default(false).describe('delete: allow deleting every cookie when no domain/name is given'),
+});
+
+const COOKIES_DESCRIPTION = `List, set and delete cookies in the active session.
+
+Actions:
+- list: Cookies grouped by domain, filtered by domain (includes subdomains) and name
+- set: Add or overwrite a cookie (name, value; domain or url, default: current page)
+- delete: Remove cookies matching domain and/or name (all: true to remove everything)`;
+
+export const cookiesTool = {
+  name: 'browser_cookies',
+  description: COOKIES_DESCRIPTION,
+  inputSchema: cookiesSchema,
+};
+
+export function createCookiesHandler(sessionManager: SessionManager) {
+  return async function handleCookies(params: z.infer<typeof cookiesSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action = 'list', domain, name, value, path, url, expires, httpOnly, secure, sameSite, all = false } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+    const context = (await browserManager.getContext())!;
+
+    switch (action) {
+      case 'set': {
+        if (!name || value === undefined) {
+          return {
+            content: [{ type: 'text', text: 'name and value are required for action "set"' }],
+            isError: true,
+          };
+        }
+        // Playwright takes either url or domain + path
+        const cookieUrl = url ?? page.url();
+        if (!domain && !/^https?:/.test(cookieUrl)) {
+          throw new Error(`Cannot set a cookie for ${cookieUrl} - pass domain or an http(s) url`);
+        }
+        const target = domain ? { domain, path: path ?? '/' } : { url: cookieUrl };
+        await context.addCookies([{ name, value, ...target, expires, httpOnly, secure, sameSite }]);
+        const where = domain ?? new URL(cookieUrl).hostname;
+        return {
+          content: [{ type: 'text', text: `Set cookie ${name} for ${where}` }],
+        };
+      }
+      case 'delete': {
+        if (!domain && !name && !all) {
+          return {
+            content: [{ type: 'text', text: 'Pass domain and/or name, or all: true to delete every cookie' }],
+            isError: true,
+          };
+        }
+        const matching = filterCookies(await context.cookies(), { domain, name });
+        for (const cookie of matching) {
+          await context.clearCookies({ name: cookie.name, domain: cookie.domain, path: cookie.path });
+        }
+        return {
+          content: [{ type: 'text', text: `Deleted ${matching.length} cookie${matching.length === 1 ? '' : 's'}` }],
+        };
+      }
+      case 'list':
+      default: {
+        const cookies = filterCookies(await context.cookies(), { domain, name });
+        const filter = [domain ? `domain ${domain}` : '', name ? `name ${name}` : ''].filter(Boolean).join(', ');
+        return {
+          content: [{
+            type: 'text',
+            text: `Cookies (${cookies.length}${filter ? `, ${filter}` : ''}):\n${formatCookies(cookies)}`,
+          }],
+        };
+      }
+    }
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Coverage tool - JS/CSS usage around a navigation, reload or code snippet, and executed-line markers
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { getCDPSession, type CDPSession } from '../devtools/cdp-session.js';
+import { createCoverage, formatCoverageAsText, type Coverage } from '../devtools/coverage.js';
+import { createEditor, type Editor } from '../devtools/editor.js';
+import { hasPageAction, runPageAction, validatePageAction } from '../utils/page-action.js';
+
+export const coverageSchema = z.object({
+  url: z.string().optional().describe('Navigate to this URL while recording'),
+  reload: z.boolean().optional().default(false).describe('Reload the current page while recording'),
+  code: z.string().optional().describe('Playwright code to run while recording, same scope as browser_execute'),
+  duration: z.number().min(0).max(30000).optional().describe('Keep recording this long after the action (ms). Default 500, or 3000 without an action'),
+  type: z.enum(['all', 'js', 'css']).optional().default('all').describe('What to cover'),
+  detail: z.string().optional().describe('Also list unused ranges and unused CSS rules for files whose URL contains this'),
+  top: z.number().min(1).max(200).optional().default(20).describe('Number of files to list'),
+  annotate: z.string().optional().describe('Instead of recording: show this script/stylesheet URL from the last coverage with executed-line markers'),
+  offset: z.number().min(0).optional().default(0).describe('annotate: first line to show (0-based, like editor.read)'),
+  limit: z.number().min(1).max(500).optional().default(100).describe('annotate: number of lines'),
+  timeout: z.number().optional().default(30000).describe('Timeout for the action in milliseconds'),
+});
+
+const COVERAGE_DESCRIPTION = `Code coverage of the active tab (Chromium): which JavaScript ran and which CSS rules matched.
+
+Records around one action - url to navigate, reload: true, or code to run.
+Code that ran before recording is not counted, so use reload or url for page load coverage.
+
+Returns unused bytes per file, largest first (URLs as createEditor lists them).
+- detail: "legacy.css" lists unused ranges with line numbers and unused CSS selectors
+- annotate: "<url>" (with offset/limit) prints lines of that file from the last
+  recording, marked + ran, - never ran, ~ partly ran
+
+Example: { "reload": true, "type": "css", "detail": "styles" }`;
+
+export const coverageTool = {
+  name: 'browser_coverage',
+  description: COVERAGE_DESCRIPTION,
+  inputSchema: coverageSchema,
+};
+
+// One instance per CDP session: annotate reads the last recording, and listeners don't pile up
+const coverages = new WeakMap<CDPSession, Coverage>();
+const editors = new WeakMap<CDPSession, Editor>();
+
+export function createCoverageHandler(sessionManager: SessionManager) {
+  return async function handleCoverage(params: z.infer<typeof coverageSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { type = 'all', detail, top = 20, annotate, offset = 0, limit = 100 } = params;
+    const invalid = validatePageAction(params);
+    if (invalid) {
+      return {
+        content: [{ type: 'text', text: invalid }],
+        isError: true,
+      };
+    }
+
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+    const context = (await browserManager.getContext())!;
+
+    let cdp: CDPSession;
+    try {
+      cdp = await getCDPSession(page);
+    } catch (error) {
+      throw new Error(`Coverage needs a Chromium browser (CDP): ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    let coverage = coverages.get(cdp);
+    if (!coverage) {
+      coverage = createCoverage({ cdp });
+      coverages.set(cdp, coverage);
+    }
+
+    if (annotate !== undefined) {
+      let editor = editors.get(cdp);
+      if (!editor) {
+        editor = createEditor({ cdp });
+        editors.set(cdp, editor);
+      }
+      const read = coverage.annotate({ url: annotate, content: await editor.read({ url: annotate, offset, limit }) });
+      return {
+        content: [{
+          type: 'text',
+          text: `### ${annotate} lines ${read.startLine}-${read.endLine} of ${read.totalLines} (+ ran, - never ran, ~ partly)\n${read.content}`,
+        }],
+      };
+    }
+
+    const duration = params.duration ?? (hasPageAction(params) ? 500 : 3000);
+
+    await coverage.start({ js: type !== 'css', css: type !== 'js' });
+    const action = await runPageAction(browserManager, page, context, { ...params, duration });
+    const result = await coverage.stop();
+
+    const lines = [
+      `### Coverage: ${action.label}`,
+      formatCoverageAsText(result, { detail, top }),
+    ];
+    if (action.output) {
+      lines.push('', '### Action output', action.output);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      isError: action.failed,
+    };
+  };
+}
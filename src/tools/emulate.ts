@@ -0,0 +1,142 @@
+/**
+ * Emulate tool - device presets, viewport, locale, geolocation, media features and throttling at runtime
+ */
+
+import { z } from 'zod';
+import { devices } from 'playwright';
+import { SessionManager } from '../session-manager.js';
+import { NETWORK_PRESETS, type EmulationChanges } from '../utils/emulation.js';
+
+export const emulateSchema = z.object({
+  device: z.string().nullable().optional().describe('Playwright device preset, e.g. "iPhone 13", "Pixel 7", "iPad Mini"; null clears'),
+  viewport: z.object({
+    width: z.number().int().min(100).max(7680),
+    height: z.number().int().min(100).max(4320),
+  }).nullable().optional().describe('Viewport size; null returns to the default / device size'),
+  geolocation: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+  }).nullable().optional().describe('Position reported to navigator.geolocation (permission is granted); null clears'),
+  locale: z.string().nullable().optional().describe('Locale, e.g. "de-DE"; null clears'),
+  timezone: z.string().nullable().optional().describe('IANA timezone, e.g. "America/New_York"; null clears'),
+  colorScheme: z.enum(['light', 'dark', 'no-preference']).nullable().optional().describe('prefers-color-scheme'),
+  reducedMotion: z.enum(['reduce', 'no-preference']).nullable().optional().describe('prefers-reduced-motion'),
+  offline: z.boolean().optional().describe('Cut the network'),
+  cpuThrottling: z.number().min(1).max(20).optional().describe('CPU slowdown factor, 1 = off (Chromium)'),
+  network: z.union([
+    z.enum(['slow-3g', 'fast-3g', '4g', 'off']),
+    z.object({
+      downloadKbps: z.number().positive(),
+      uploadKbps: z.number().positive(),
+      latencyMs: z.number().min(0),
+    }),
+  ]).optional().describe('Network throttling preset or custom conditions (Chromium)'),
+  reset: z.boolean().optional().default(false).describe('Clear all emulation before applying the other options'),
+  listDevices: z.string().optional().describe('List device presets whose name contains this text ("" for all)'),
+});
+
+const EMULATE_DESCRIPTION = `Emulate devices and environments in the active session at runtime.
+
+Changes apply to every open tab and to tabs opened later. Without options, shows
+the current emulation.
+
+- device: Playwright preset (viewport, user agent, scale, touch, mobile).
+  listDevices: "iPhone" shows the names
+- viewport, colorScheme, reducedMotion, geolocation, offline: applied in place
+- locale, timezone, device: need a new browser context - it is rebuilt with
+  cookies/localStorage carried over and open tabs reopened (refs change)
+- cpuThrottling, network: CDP throttling, Chromium only
+  (network presets: slow-3g, fast-3g, 4g; "off" removes)
+
+null clears a single setting; reset: true clears everything.
+
+Example: { "device": "iPhone 13", "colorScheme": "dark", "network": "fast-3g" }`;
+
+export const emulateTool = {
+  name: 'browser_emulate',
+  description: EMULATE_DESCRIPTION,
+  inputSchema: emulateSchema,
+};
+
+export function createEmulateHandler(sessionManager: SessionManager) {
+  return async function handleEmulate(params: z.infer<typeof emulateSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const { reset = false, listDevices, network, timezone, ...rest } = params;
+    const browserManager = sessionManager.getActiveSession();
+
+    if (listDevices !== undefined) {
+      const needle = listDevices.toLowerCase();
+      const names = Object.keys(devices).filter((name) => name.toLowerCase().includes(needle));
+      const lines = names.map((name) => {
+        const d = devices[name];
+        return `- ${name}: ${d.viewport.width}x${d.viewport.height} @${d.deviceScaleFactor}x${d.isMobile ? ', mobile' : ''}`;
+      });
+      return {
+        content: [{ type: 'text', text: `Device presets (${names.length}${listDevices ? ` matching "${listDevices}"` : ''}):\n${lines.join('\n')}` }],
+      };
+    }
+
+    const changes: EmulationChanges = { ...rest };
+    if (timezone !== undefined) {
+      changes.timezoneId = timezone;
+    }
+    if (network !== undefined) {
+      changes.network = network === 'off' ? null : typeof network === 'string' ? NETWORK_PRESETS[network] : network;
+    }
+
+    const emulation = browserManager.getEmulation();
+    await browserManager.getPage();
+
+    // reset clears every setting not given in the same call
+    if (reset) {
+      for (const key of Object.keys(emulation.getSettings()) as Array<keyof EmulationChanges>) {
+        if (changes[key] === undefined) changes[key] = null;
+      }
+    }
+
+    if (!Object.values(changes).some((value) => value !== undefined)) {
+      return {
+        content: [{ type: 'text', text: `### Emulation\n${emulation.describe()}` }],
+      };
+    }
+
+    const rebuild = emulation.needsRebuild(changes);
+    if (rebuild && !(await browserManager.getBrowser())) {
+      throw new Error('Device, locale and timezone need a new browser context, which a persistent profile (--user-data-dir) cannot create');
+    }
+    const previous = emulation.getSettings();
+    emulation.update(changes);
+
+    let note: string;
+    if (rebuild) {
+      // Carry logins over: the new context starts from the current storage state.
+      // The new context is created from the updated settings; keep the old ones if that fails
+      let harReplayStopped: boolean;
+      try {
+        const context = (await browserManager.getContext())!;
+        const storageState = await context.storageState({ indexedDB: true });
+        ({ harReplayStopped } = await browserManager.recreateContext({ storageState }));
+      } catch (error) {
+        emulation.restore(previous);
+        throw error;
+      }
+      const tabs = browserManager.getPages().length;
+      note = `Context rebuilt with storage carried over (${tabs} tab${tabs === 1 ? '' : 's'} reopened). Refs changed - call snapshot.` +
+        (harReplayStopped ? ' HAR replay stopped - run browser_network_har replay again to resume it.' : '');
+    } else {
+      const context = (await browserManager.getContext())!;
+      await emulation.applyToContext(context);
+      for (const tab of browserManager.getPages()) {
+        await emulation.applyToPage(tab);
+      }
+      note = 'Applied to open tabs.';
+    }
+
+    const size = (await browserManager.getPage()).viewportSize();
+    const sizeNote = size ? ` Viewport is now ${size.width}x${size.height}.` : '';
+
+    return {
+      content: [{ type: 'text', text: `### Emulation\n${emulation.describe()}\n\n${note}${sizeNote}` }],
+    };
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Events tool - dialogs, downloads and file choosers captured by the session's event broker
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import type { PageEventBroker } from '../utils/page-events.js';
+import { formatBytes } from '../utils/format-bytes.js';
+
+export const eventsSchema = z.object({
+  action: z.enum(['list', 'accept', 'dismiss', 'policy', 'upload', 'clear']).optional().default('list')
+    .describe('Event operation to perform'),
+  id: z.string().optional().describe('Event id (accept/dismiss default to the oldest pending dialog, upload to the newest file chooser)'),
+  promptText: z.string().optional().describe('accept: answer for prompt(); policy: answer used when auto-accepting prompts'),
+  policy: z.enum(['accept', 'dismiss', 'queue']).optional().describe('policy: how new dialogs are handled'),
+  paths: z.array(z.string()).optional().describe('upload: files to give the file chooser (working directory or /tmp)'),
+});
+
+const EVENTS_DESCRIPTION = `Dialogs, downloads and file choosers of the active session.
+
+Handled automatically in every tab:
+- Dialogs (alert/confirm/prompt/beforeunload): accepted by default so they never block.
+  With policy "queue" they stay open until accept/dismiss here
+- Downloads: saved to the session's downloads directory (path listed here)
+- File choosers: captured instead of opening a native picker; answer with upload
+
+Actions:
+- list: Pending dialogs and file choosers, downloads, recent dialogs
+- accept / dismiss: Handle a queued dialog (promptText answers a prompt)
+- policy: Set dialog policy: accept, dismiss or queue
+- upload: Give files (paths) to a captured file chooser
+- clear: Forget handled events
+
+Dialogs handled by your own page.on('dialog') in browser_execute are only recorded.`;
+
+export const eventsTool = {
+  name: 'browser_events',
+  description: EVENTS_DESCRIPTION,
+  inputSchema: eventsSchema,
+};
+
+function quote(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return JSON.stringify(oneLine.length > 120 ? `${oneLine.slice(0, 117)}...` : oneLine);
+}
+
+/**
+ * Format pending events first, then history
+ */
+function formatEvents(broker: PageEventBroker): string {
+  const { policy, promptText } = broker.getDialogPolicy();
+  const dialogs = broker.getDialogs();
+  const choosers = broker.getFileChoosers();
+  const downloads = broker.getDownloads();
+
+  const policyNote = promptText !== undefined ? `${policy}, prompt answer ${quote(promptText)}` : policy;
+  const lines = [`### Page events (dialog policy: ${policyNote})`];
+
+  const pendingDialogs = dialogs.filter((d) => d.status === 'pending');
+  if (pendingDialogs.length > 0) {
+    lines.push('', `Pending dialogs (${pendingDialogs.length}) - accept or dismiss:`);
+    lines.push(...pendingDialogs.map((d) =>
+      `- ${d.id} ${d.type} ${quote(d.message)}${d.type === 'prompt' ? ` (default ${quote(d.defaultValue)})` : ''} on ${d.url}`
+    ));
+  }
+
+  const pendingChoosers = choosers.filter((c) => c.status === 'pending');
+  if (pendingChoosers.length > 0) {
+    lines.push('', `Pending file choosers (${pendingChoosers.length}) - upload paths:`);
+    lines.push(...pendingChoosers.map((c) => `- ${c.id}${c.multiple ? ' (multiple)' : ''} on ${c.url}`));
+  }
+
+  lines.push('', `Downloads (${downloads.length}) in ${broker.getDownloadsDir()}:`);
+  if (downloads.length === 0) {
+    lines.push('- none');
+  }
+  lines.push(...downloads.map((d) => {
+    switch (d.status) {
+      case 'completed':
+        return `- ${d.id} completed ${d.suggestedFilename} (${formatBytes(d.size ?? 0)}) -> ${d.path}`;
+      case 'failed':
+        return `- ${d.id} failed ${d.suggestedFilename}: ${d.error}`;
+      default:
+        return `- ${d.id} in progress ${d.suggestedFilename} from ${d.url}`;
+    }
+  }));
+
+  const handledDialogs = dialogs.filter((d) => d.status !== 'pending');
+  if (handledDialogs.length > 0) {
+    lines.push('', `Recent dialogs (${handledDialogs.length}):`);
+    lines.push(...handledDialogs.slice(-10).map((d) =>
+      `- ${d.id} ${d.type} ${quote(d.message)} ${d.status}${d.promptText !== undefined ? ` with ${quote(d.promptText)}` : ''}`
+    ));
+  }
+
+  const handledChoosers = choosers.filter((c) => c.status !== 'pending');
+  if (handledChoosers.length > 0) {
+    lines.push('', `Recent file choosers (${handledChoosers.length}):`);
+    lines.push(...handledChoosers.slice(-10).map((c) =>
+      `- ${c.id} ${c.status}${c.files ? `: ${c.files.join(', ')}` : ''}`
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+export function createEventsHandler(sessionManager: SessionManager) {
+  return async function handleEvents(params: z.infer<typeof eventsSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action = 'list', id, promptText, policy, paths } = params;
+    const browserManager = sessionManager.getActiveSession();
+    // Tabs must exist for their events to be captured
+    await browserManager.getPage();
+    const broker = browserManager.getEventBroker();
+
+    let summary = '';
+
+    switch (action) {
+      case 'accept':
+      case 'dismiss': {
+        const event = await broker.handleDialog(action === 'accept', { id, promptText });
+        summary = `${event.id} ${event.type} ${quote(event.message)} ${event.status}`;
+        break;
+      }
+      case 'policy': {
+        if (!policy) {
+          return {
+            content: [{ type: 'text', text: 'policy is required for action "policy" (accept, dismiss or queue)' }],
+            isError: true,
+          };
+        }
+        broker.setDialogPolicy(policy, promptText);
+        summary = `New dialogs will be ${policy === 'queue' ? 'queued until accepted or dismissed' : `${policy}ed automatically`}`;
+        break;
+      }
+      case 'upload': {
+        if (!paths) {
+          return {
+            content: [{ type: 'text', text: 'paths is required for action "upload" ([] cancels the chooser)' }],
+            isError: true,
+          };
+        }
+        const event = await broker.uploadFiles(paths, id);
+        summary = `${event.id}: ${event.files!.length > 0 ? `uploaded ${event.files!.join(', ')}` : 'cleared'}`;
+        break;
+      }
+      case 'clear': {
+        broker.clearHistory();
+        summary = 'Handled events cleared';
+        break;
+      }
+      case 'list':
+      default:
+        break;
+    }
+
+    const text = formatEvents(broker);
+    return {
+      content: [{ type: 'text', text: summary ? `${summary}\n\n${text}` : text }],
+    };
+  };
+}
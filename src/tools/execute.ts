@@ -4,7 +4,7 @@
  */
 
 import { z } from 'zod';
-import { BrowserManager } from '../browser.js';
+import { SessionManager } from '../session-manager.js';
 import { executeInVM, formatVMResult, CodeExecutionTimeoutError } from '../vm-context.js';
 
 export const executeSchema = z.object({
@@ -21,7 +21,7 @@ const EXECUTE_DESCRIPTION = `Execute Playwright code with these in scope:
 - \`page\` - Current Playwright page
 - \`context\` - Browser context, access all pages via context.pages()
 - \`state\` - Persistent object across calls (e.g., state.myPage = await context.newPage())
-- \`$('e5')\` - Shorthand for page.locator('aria-ref=e5')
+- \`$('e5')\` - Shorthand for page.locator('aria-ref=e5'); iframe refs like $('f1e5') resolve inside their frame
 - \`accessibilitySnapshot()\` - Get current page snapshot
 - \`require\` - Load Node.js modules (path, url, crypto, buffer, util, assert, os, fs)
 - Node.js globals: setTimeout, setInterval, fetch, URL, Buffer, crypto, etc.
@@ -85,6 +85,7 @@ await page.locator('li').nth(3).click()  // 4th item (0-indexed)
 \`\`\`
 
 ## Working with Pages
+Prefer the browser_tabs tool to list, open, switch and close tabs - the selected tab becomes \`page\` here.
 \`\`\`js
 const pages = context.pages().filter(x => x.url().includes('localhost'));
 state.newPage = await context.newPage(); await state.newPage.goto('https://example.com');
@@ -98,9 +99,10 @@ await waitForPageLoad({ page, timeout: 5000 });
 
 ## Common Patterns
 **Popups**: \`const [popup] = await Promise.all([page.waitForEvent('popup'), page.click('a[target=_blank]')]); await popup.waitForLoadState();\`
-**Downloads**: \`const [download] = await Promise.all([page.waitForEvent('download'), page.click('button.download')]); await download.saveAs('/tmp/' + download.suggestedFilename());\`
+**Downloads**: Saved automatically - browser_events lists their paths. To wait for one: \`const [download] = await Promise.all([page.waitForEvent('download'), page.click('button.download')]); await download.path();\`
 **iFrames**: \`const frame = page.frameLocator('#my-iframe'); await frame.locator('button').click();\`
-**Dialogs**: \`page.on('dialog', async d => { await d.accept(); }); await page.click('button');\`
+**Dialogs**: Auto-accepted by default; browser_events changes the policy or queues them. A page.on('dialog', ...) handler of your own takes over instead
+**File uploads**: \`await $('e12').setInputFiles('/tmp/a.png')\`, or click the upload control and answer the captured chooser with browser_events upload
 **Load files**: \`const fs = require('fs'); const content = fs.readFileSync('./data.txt', 'utf-8'); await page.locator('textarea').fill(content);\`
 
 ## page.evaluate
@@ -118,8 +120,12 @@ console.log('Title:', title);  // Log outside evaluate
 - \`getLocatorStringForElement(locator)\` - Get stable selector from ephemeral aria-ref
 - \`getReactSource({ locator })\` - Get React component source location (dev mode only)
 - \`getStylesForLocator({ locator, cdp })\` - Inspect CSS styles (read styles-api resource first)
-- \`createDebugger({ cdp })\` - Set breakpoints, step through code (read debugger-api resource first)
+- \`getContrastForLocator({ locator, cdp })\` - WCAG text contrast ratio against the computed background
+- \`createDebugger({ cdp })\` - Set breakpoints, step through code; source-mapped scripts use original files and lines, e.g. a getReactSource fileName (read debugger-api resource first)
 - \`createEditor({ cdp })\` - View/edit page scripts and CSS (read editor-api resource first)
+- \`createProfiler({ cdp })\` - start()/stop() a trace or CPU profile; \`formatProfileAsText(result)\` summarises it (browser_profile wraps this)
+- \`createCoverage({ cdp })\` - start()/stop() JS and CSS coverage; \`coverage.annotate({ url, content: await editor.read({ url }) })\` marks executed lines (browser_coverage wraps this)
+- \`createHeapProfiler({ cdp })\` - takeSnapshot(); \`diffHeapSnapshots(a, b)\` with \`formatHeapDiffAsText\`, \`formatDetachedNodesAsText(snapshot)\` (browser_heap wraps this)
 - \`screenshotWithAccessibilityLabels({ page })\` - Screenshot with Vimium-style visual labels (yellow=links, orange=buttons, coral=inputs)
 
 ## Network Interception
@@ -132,7 +138,10 @@ page.on('response', async res => { if (res.url().includes('/api/')) { try { stat
 Then trigger actions and analyze: \`console.log('Captured', state.responses.length, 'API calls');\`
 Clean up when done: \`page.removeAllListeners('request'); page.removeAllListeners('response');\`
 
-IMPORTANT: After navigation, refs are stale - call snapshot tool again.`;
+## Refs After Navigation
+Refs from the last snapshot are fingerprinted (role and name; selector and DOM path once used). After navigation,
+\`$('e5')\` re-resolves to the same logical element and prints a note with the match confidence.
+If a ref can't be re-resolved or confidence is low, call snapshot tool again.`;
 
 export const executeTool = {
   name: 'browser_execute',
@@ -142,12 +151,26 @@ export const executeTool = {
 
 const MAX_RESPONSE_LENGTH = 6000;
 
-export function createExecuteHandler(browserManager: BrowserManager) {
+/**
+ * Stringify a return value for the recorder (undefined stays undefined)
+ */
+function formatRecordedResult(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export function createExecuteHandler(sessionManager: SessionManager) {
   return async function handleExecute(params: z.infer<typeof executeSchema>): Promise<{
     content: Array<{ type: 'text'; text: string }>;
     isError?: boolean;
   }> {
     const { code, timeout } = params;
+    const browserManager = sessionManager.getActiveSession();
 
     try {
       const page = await browserManager.getPage();
@@ -157,6 +180,13 @@ export function createExecuteHandler(browserManager: BrowserManager) {
         throw new Error('Browser context not available');
       }
 
+      // Rewrite refs before running - the snippet may navigate away from them
+      const recorder = browserManager.getRecorder();
+      const urlBefore = page.url();
+      const replayCode = recorder.isRecording()
+        ? await recorder.rewriteRefs(code, page, browserManager.getRefResolver())
+        : code;
+
       const result = await executeInVM(code, {
         page,
         context,
@@ -164,6 +194,17 @@ export function createExecuteHandler(browserManager: BrowserManager) {
         timeout,
       });
 
+      if (recorder.isRecording()) {
+        recorder.record({
+          code,
+          replayCode,
+          result: formatRecordedResult(result.result),
+          error: result.error?.message,
+          urlBefore,
+          urlAfter: page.isClosed() ? urlBefore : page.url(),
+        });
+      }
+
       // Format result
       let responseText = formatVMResult(result);
 
@@ -185,7 +226,7 @@ export function createExecuteHandler(browserManager: BrowserManager) {
 
       // Stale ref handling - refs become invalid after navigation
       if (message.includes('ref') && message.includes('not found')) {
-        hint = '\n\n[HINT: Page may have navigated. Refs are stale after navigation. Call snapshot tool to get fresh refs.]';
+        hint = '\n\n[HINT: Page may have navigated and the ref could not be re-resolved. Call snapshot tool to get fresh refs.]';
       }
       // Timeout handling
       else if (message.includes('timeout') || message.includes('Timeout') || error instanceof CodeExecutionTimeoutError) {
@@ -0,0 +1,61 @@
+/**
+ * Expand tool - expand a collapsed snapshot placeholder by ref
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { SmartOutlineSimple } from '../utils/smart-outline.js';
+
+export const expandSchema = z.object({
+  ref: z.string().describe('Ref of a collapsed placeholder (e.g. "e17" from [+42 nodes, ref=e17]) or any element'),
+  maxTokens: z.number().int().positive().optional().describe('Approximate token budget for the expanded subtree'),
+  maxLines: z.number().int().positive().optional().describe('Line budget for the expanded subtree'),
+});
+
+const EXPAND_DESCRIPTION = `Expand a collapsed subtree from a budgeted snapshot.
+
+Requires: Call snapshot with maxTokens or maxLines first.
+Returns: Outline of the subtree under ref, using a fresh snapshot of the page.
+
+Options:
+- ref: Placeholder ref, e.g. e17 from [+42 nodes, ref=e17]
+- maxTokens / maxLines: Budget for this subtree; deeper placeholders can be
+  expanded again the same way`;
+
+export const expandTool = {
+  name: 'browser_expand_snapshot',
+  description: EXPAND_DESCRIPTION,
+  inputSchema: expandSchema,
+};
+
+export function createExpandHandler(sessionManager: SessionManager) {
+  return async function handleExpand(params: z.infer<typeof expandSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const { ref, maxTokens, maxLines } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    // Refs are stable across snapshots of the same element, so expand against the live page
+    const rawSnapshot = await browserManager.getSnapshot(page);
+    browserManager.setLastSnapshot(rawSnapshot);
+
+    const outliner = new SmartOutlineSimple();
+    const expanded = outliner.expand(rawSnapshot, ref, { maxTokens, maxLines });
+
+    if (!expanded) {
+      return {
+        content: [{ type: 'text', text: `Ref ${ref} not found in the current page. The element may have been removed; call snapshot again.` }],
+      };
+    }
+
+    // Lists folded inside the expanded subtree become pageable too
+    browserManager.mergeListIndexForPage(page, outliner.getFoldedLists());
+
+    const collapsedNote = expanded.collapsed > 0 ? `, ${expanded.collapsed} subtrees still collapsed` : '';
+    const text = `### Expanded ref=${ref} (${expanded.nodeCount} nodes${collapsedNote})\n` +
+      (expanded.lines.join('\n').toWellFormed?.() ?? expanded.lines.join('\n'));
+
+    return {
+      content: [{ type: 'text', text }],
+    };
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Extract tool - pull repeated items (cards, rows, results) into JSON by schema
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { extractSubtree, resolveScopeRef } from '../utils/scoped-snapshot.js';
+import { extractItems, findRepeatedItems, type ExtractSchema } from '../utils/extract.js';
+import { waitForPageLoad } from '../utils/wait-for-page-load.js';
+
+const fieldSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean']),
+  description: z.string().optional(),
+  selector: z.string().optional().describe('CSS selector inside each item'),
+  attribute: z.string().optional().describe('Read this attribute instead of the text'),
+  pattern: z.string().optional().describe('Regex applied to the raw value; the first capture group is kept'),
+  format: z.string().optional().describe('"uri" reads the link href'),
+});
+
+export const extractSchema = z.object({
+  schema: z.object({
+    type: z.literal('object').optional(),
+    properties: z.record(fieldSchema),
+    required: z.array(z.string()).optional(),
+  }).describe('JSON schema of one item: { properties: { title: { type: "string" }, ... }, required: [...] }'),
+  ref: z.string().optional().describe('Only look for items inside this element'),
+  next: z.string().optional().describe('Ref of the "next page" link/button to follow'),
+  maxPages: z.number().int().min(1).max(20).optional().default(1).describe('Pages to extract when next is set (default: 1)'),
+  limit: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum items to return (default: 100)'),
+});
+
+const EXTRACT_DESCRIPTION = `Extract repeated items (search results, product cards, table rows) as JSON.
+
+Items are found automatically: the largest group of structurally similar elements
+on the page (or under ref). Each field is read from the item element:
+- selector / attribute: explicit CSS selector and attribute inside the item
+- otherwise by name: an element whose class, id, itemprop, name, data-testid or
+  aria-label contains the field name; "url"/"link" fields read the href,
+  "image" fields the img src, "title"/"name" fields the heading or first link
+- number / integer: first number in the value, preferring one next to the field
+  name ("42 points" for points)
+- pattern: regex to cut the value, first capture group wins
+
+Fields not listed in required may be null. Items failing validation are skipped
+and reported.
+
+Pagination: set next to the ref of the next-page control and maxPages > 1.
+
+Example:
+{ "schema": { "properties": { "title": { "type": "string" }, "url": { "type": "string", "format": "uri" },
+  "points": { "type": "integer" } }, "required": ["title"] }, "maxPages": 2, "next": "e512" }`;
+
+export const extractTool = {
+  name: 'browser_extract',
+  description: EXTRACT_DESCRIPTION,
+  inputSchema: extractSchema,
+};
+
+export function createExtractHandler(sessionManager: SessionManager) {
+  return async function handleExtract(params: z.infer<typeof extractSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const { ref, next, maxPages = 1, limit = 100 } = params;
+    const schema = params.schema as ExtractSchema;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    for (const [key, field] of Object.entries(schema.properties)) {
+      if (!field.pattern) continue;
+      try {
+        new RegExp(field.pattern);
+      } catch (error) {
+        throw new Error(`Invalid pattern for field ${key}: ${(error as Error).message}`);
+      }
+    }
+    const unknown = (schema.required ?? []).filter((key) => !(key in schema.properties));
+    if (unknown.length > 0) {
+      throw new Error(`Required fields not in properties: ${unknown.join(', ')}`);
+    }
+
+    const items: Record<string, unknown>[] = [];
+    const errors: string[] = [];
+    let pages = 0;
+
+    while (pages < maxPages && items.length < limit) {
+      const snapshot = await browserManager.getSnapshot(page);
+      browserManager.setLastSnapshot(snapshot);
+      pages++;
+
+      const scoped = ref
+        ? extractSubtree(snapshot, await resolveScopeRef(browserManager, page, snapshot, { ref }))!
+        : snapshot;
+
+      const list = findRepeatedItems(scoped);
+      if (!list) {
+        errors.push(`Page ${pages}: no repeated items found`);
+        break;
+      }
+
+      const result = await extractItems(
+        list.refs.slice(0, limit - items.length).map((itemRef) => ({
+          ref: itemRef,
+          locator: browserManager.getRefLocator(page, itemRef),
+        })),
+        schema
+      );
+      items.push(...result.items);
+      errors.push(...result.errors.map((error) => maxPages > 1 ? `Page ${pages}, ${error}` : error));
+
+      if (!next || pages >= maxPages || items.length >= limit) break;
+
+      // The next control is usually re-rendered per page; refLocator re-resolves it by fingerprint
+      try {
+        const nextLocator = await browserManager.refLocator(page, { ref: next });
+        await nextLocator.click({ timeout: 5000 });
+      } catch (error) {
+        errors.push(`Stopped after page ${pages}: next (${next}) not clickable - ${(error as Error).message.split('\n')[0]}`);
+        break;
+      }
+      await waitForPageLoad({ page });
+    }
+
+    const pageNote = next ? ` from ${pages} page${pages === 1 ? '' : 's'}` : '';
+    const lines = [
+      `### Extracted ${items.length} items${pageNote}${errors.length > 0 ? `, ${errors.length} skipped` : ''}`,
+      '```json',
+      JSON.stringify(items, null, 2),
+      '```',
+    ];
+
+    if (errors.length > 0) {
+      lines.push('', '### Skipped', ...errors.slice(0, 20).map((error) => `- ${error}`));
+      if (errors.length > 20) lines.push(`... ${errors.length - 20} more`);
+    }
+
+    const text = lines.join('\n');
+    return {
+      content: [{ type: 'text', text: text.toWellFormed?.() ?? text }],
+    };
+  };
+}
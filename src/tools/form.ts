@@ -0,0 +1,112 @@
+/**
+ * Form tool - list form fields and fill them in one call
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { createScopedFS } from '../utils/scoped-fs.js';
+import { extractSubtree, resolveScopeRef } from '../utils/scoped-snapshot.js';
+import { waitForPageLoad } from '../utils/wait-for-page-load.js';
+import {
+  collectFormFields,
+  collectValidationErrors,
+  fillFormFields,
+  formatFillReport,
+  formatFormFields,
+} from '../utils/form.js';
+
+export const formSchema = z.object({
+  values: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional()
+    .describe('Field label (or ref) -> value. Omit to only list the fields'),
+  ref: z.string().optional().describe('Only fields inside this element (e.g. a form)'),
+  selector: z.string().optional().describe('CSS selector of the element to scope to (alternative to ref)'),
+  submit: z.boolean().optional().default(false).describe('Submit the form after filling (runs native validation first)'),
+});
+
+const FORM_DESCRIPTION = `List form fields or fill many fields at once.
+
+Without values: lists every field per form with label, type, required,
+current value, options and ref.
+
+With values: fills each entry, then reports validation errors shown on the page
+(native constraint messages, aria-invalid fields, alert/error text).
+Keys are field labels (case-insensitive, partial match if unique), name
+attributes or refs. Values by field type:
+- text / email / number / textarea: string or number
+- select: option label or value; array for multi-selects
+- checkbox / switch: true / false
+- radio: option label (key is the group label), or true with a radio ref
+- date / datetime-local / month: "2024-01-31" or any parseable date
+- file: path or array of paths (working directory or /tmp); [] clears
+
+Example:
+{ "values": { "Email": "a@b.com", "Country": "Germany", "Plan": "Pro",
+  "Subscribe": true, "Avatar": "/tmp/me.png" }, "submit": true }`;
+
+export const formTool = {
+  name: 'browser_form',
+  description: FORM_DESCRIPTION,
+  inputSchema: formSchema,
+};
+
+export function createFormHandler(sessionManager: SessionManager) {
+  const fs = createScopedFS();
+
+  return async function handleForm(params: z.infer<typeof formSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const { values, ref, selector, submit = false } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    const pageSnapshot = await browserManager.getSnapshot(page);
+    browserManager.setLastSnapshot(pageSnapshot);
+
+    let snapshot = pageSnapshot;
+    let scope = page.locator('body');
+    if (ref || selector) {
+      const scopeRef = await resolveScopeRef(browserManager, page, pageSnapshot, { ref, selector });
+      snapshot = extractSubtree(pageSnapshot, scopeRef)!;
+      scope = browserManager.getRefLocator(page, scopeRef);
+    }
+
+    const locate = (r: string) => browserManager.getRefLocator(page, r);
+    const groups = await collectFormFields(snapshot, locate, scope);
+    const title = ref || selector ? `Form fields in ${ref ? `ref=${ref}` : `selector=${selector}`}` : `Form fields on ${page.url()}`;
+
+    if (!values || Object.keys(values).length === 0) {
+      const text = formatFormFields(groups, title);
+      return {
+        content: [{ type: 'text', text: text.toWellFormed?.() ?? text }],
+      };
+    }
+
+    if (groups.every((g) => g.fields.length === 0)) {
+      throw new Error(`No form fields to fill${ref || selector ? ' in the scoped element' : ' on the page'}`);
+    }
+
+    const results = await fillFormFields(groups, values, fs, locate);
+
+    let note = '';
+    if (submit) {
+      // requestSubmit() runs constraint validation and submit handlers like a click on the submit button would
+      const target = results.find((r) => r.field && !r.error)?.field ?? groups.flatMap((g) => g.fields)[0];
+      const submitted = await target.locator.evaluate((el) => {
+        const form = (el as HTMLInputElement).form ?? el.closest('form');
+        if (!form) return false;
+        form.requestSubmit();
+        return true;
+      });
+      note = submitted ? ', submitted' : ', not submitted (fields are outside a form)';
+      if (submitted) {
+        await waitForPageLoad({ page });
+      }
+    }
+
+    // After a navigation the old field locators no longer resolve; only page messages remain
+    const errors = await collectValidationErrors(groups, scope);
+    const text = formatFillReport(results, errors, note);
+
+    return {
+      content: [{ type: 'text', text: text.toWellFormed?.() ?? text }],
+    };
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * HAR tool - export captured traffic as HAR 1.2 and replay HAR files through route handlers
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { createScopedFS } from '../utils/scoped-fs.js';
+import { parseHar } from '../utils/har.js';
+
+export const harSchema = z.object({
+  action: z.enum(['export', 'replay', 'stop', 'status']).describe('HAR operation to perform'),
+  path: z.string().optional().describe('HAR file to write (export) or read (replay). Default: network.har in the working directory'),
+  includeStatic: z.boolean().optional().default(false).describe('On export, include images/CSS/fonts'),
+  scope: z.enum(['page', 'context']).optional().default('context').describe('On replay, route only the current tab or every tab in the session'),
+  notFound: z.enum(['abort', 'fallback']).optional().default('abort').describe('On replay, abort requests missing from the HAR or let them hit the network'),
+  urlFilter: z.string().optional().describe('On replay, only serve URLs containing this substring'),
+});
+
+const HAR_DESCRIPTION = `Export captured network traffic as a HAR 1.2 file, or replay a HAR file for offline, deterministic runs.
+
+Actions:
+- export: Write requests captured by browser_network_requests (headers, post data, text bodies, timings)
+- replay: Serve responses from a HAR file via route handlers. Requests match by method + URL (+ post data)
+- stop: Stop replaying
+- status: Show replay state and hit/miss counts
+
+Files must be in the working directory or /tmp. Capture must already be running
+(call browser_network_requests once) for export to have anything to write.`;
+
+const DEFAULT_HAR_PATH = 'network.har';
+
+export const harTool = {
+  name: 'browser_network_har',
+  description: HAR_DESCRIPTION,
+  inputSchema: harSchema,
+};
+
+export function createHarHandler(sessionManager: SessionManager) {
+  const fs = createScopedFS();
+
+  return async function handleHar(params: z.infer<typeof harSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action, path = DEFAULT_HAR_PATH, includeStatic = false, scope = 'context', notFound = 'abort', urlFilter } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const replayer = browserManager.getHarReplayer();
+
+    switch (action) {
+      case 'export': {
+        const har = browserManager.getNetworkCapture().exportHar({ includeStatic });
+        if (har.log.entries.length === 0) {
+          throw new Error('No captured requests to export. Call browser_network_requests to start capturing first.');
+        }
+        await fs.promises.writeFile(path, JSON.stringify(har, null, 2), 'utf-8');
+        return {
+          content: [{ type: 'text', text: `Exported ${har.log.entries.length} requests to ${path}` }],
+        };
+      }
+      case 'replay': {
+        const har = parseHar((await fs.promises.readFile(path, 'utf-8')).toString());
+        const page = await browserManager.getPage();
+        const target = scope === 'page' ? page : await browserManager.getContext();
+        if (!target) {
+          throw new Error('Browser context not available');
+        }
+        const count = await replayer.start(target, har, { notFound, urlFilter });
+        const unmatched = notFound === 'abort' ? 'aborted' : 'sent to the network';
+        return {
+          content: [{ type: 'text', text: `Replaying ${count} HAR entries from ${path} (${scope}). Unmatched requests are ${unmatched}.` }],
+        };
+      }
+      case 'stop': {
+        const { hits, misses } = replayer.getStats();
+        await replayer.stop();
+        return {
+          content: [{ type: 'text', text: `HAR replay stopped (${hits} served, ${misses} unmatched)` }],
+        };
+      }
+      case 'status':
+      default: {
+        const { hits, misses, urls } = replayer.getStats();
+        const text = replayer.isActive()
+          ? `HAR replay active: ${urls} request keys, ${hits} served, ${misses} unmatched`
+          : 'HAR replay inactive';
+        return { content: [{ type: 'text', text }] };
+      }
+    }
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Heap tool - heap snapshots, snapshot diffs by constructor and detached DOM nodes
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { getCDPSession, type CDPSession } from '../devtools/cdp-session.js';
+import {
+  createHeapProfiler,
+  diffHeapSnapshots,
+  formatDetachedNodesAsText,
+  formatHeapDiffAsText,
+  formatHeapSnapshotAsText,
+  type HeapProfiler,
+  type HeapSnapshot,
+} from '../devtools/heap.js';
+import { formatBytes } from '../utils/format-bytes.js';
+
+export const heapSchema = z.object({
+  action: z.enum(['snapshot', 'diff', 'detached', 'list', 'clear']).optional().default('snapshot')
+    .describe('Heap operation to perform'),
+  from: z.number().int().optional().describe('diff: earlier snapshot id (default: the one before "to")'),
+  to: z.number().int().optional().describe('diff: later snapshot id (default: latest)'),
+  id: z.number().int().optional().describe('detached: snapshot id (default: latest, or a new one)'),
+  gc: z.boolean().optional().default(true).describe('snapshot: collect garbage first, so only retained objects count'),
+  top: z.number().min(1).max(100).optional().default(15).describe('Number of constructors to list'),
+});
+
+const HEAP_DESCRIPTION = `Memory leak hunting in the active tab (Chromium) with heap snapshots.
+
+Actions:
+- snapshot: Take a heap snapshot (after GC). Shows size, top constructors by retained
+  size and detached DOM count, plus the growth since the previous snapshot
+- diff: Compare two snapshots by constructor - count before -> after, objects
+  allocated in between that are still alive, retained size change
+- detached: Detached DOM subtrees with the retainer path keeping them alive
+  (e.g. Window.cache -> Array[3] -> Detached HTMLDivElement)
+- list / clear: Snapshots kept for this tab (the last 5)
+
+Leak workflow: snapshot, repeat the suspect action a few times (navigate, open/close
+a dialog), snapshot again, then read the growth and run detached.`;
+
+export const heapTool = {
+  name: 'browser_heap',
+  description: HEAP_DESCRIPTION,
+  inputSchema: heapSchema,
+};
+
+// Parsed snapshots keep per-object ids for diffs; a few are enough to compare
+const MAX_SNAPSHOTS = 5;
+
+interface HeapState {
+  profiler: HeapProfiler;
+  snapshots: HeapSnapshot[];
+}
+
+const states = new WeakMap<CDPSession, HeapState>();
+
+function findSnapshot(state: HeapState, id: number): HeapSnapshot {
+  const snapshot = state.snapshots.find((s) => s.id === id);
+  if (!snapshot) {
+    const kept = state.snapshots.map((s) => `#${s.id}`).join(', ') || 'none';
+    throw new Error(`Snapshot #${id} not found (kept: ${kept})`);
+  }
+  return snapshot;
+}
+
+export function createHeapHandler(sessionManager: SessionManager) {
+  return async function handleHeap(params: z.infer<typeof heapSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action = 'snapshot', from, to, id, gc = true, top = 15 } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    let cdp: CDPSession;
+    try {
+      cdp = await getCDPSession(page);
+    } catch (error) {
+      throw new Error(`Heap snapshots need a Chromium browser (CDP): ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    let state = states.get(cdp);
+    if (!state) {
+      state = { profiler: createHeapProfiler({ cdp }), snapshots: [] };
+      states.set(cdp, state);
+    }
+
+    const take = async () => {
+      const snapshot = await state!.profiler.takeSnapshot({ gc });
+      state!.snapshots = [...state!.snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+      return snapshot;
+    };
+
+    let text: string;
+    switch (action) {
+      case 'diff': {
+        const latest = state.snapshots[state.snapshots.length - 1];
+        const after = to !== undefined ? findSnapshot(state, to) : latest;
+        if (!after) {
+          return {
+            content: [{ type: 'text', text: 'No snapshots yet - take two with action "snapshot" first' }],
+            isError: true,
+          };
+        }
+        const earlier = state.snapshots.filter((s) => s.id < after.id);
+        const before = from !== undefined ? findSnapshot(state, from) : earlier[earlier.length - 1];
+        if (!before) {
+          return {
+            content: [{ type: 'text', text: `No snapshot before #${after.id} - take another one to compare` }],
+            isError: true,
+          };
+        }
+        text = formatHeapDiffAsText(diffHeapSnapshots(before, after), { top });
+        break;
+      }
+      case 'detached': {
+        const latest = state.snapshots[state.snapshots.length - 1];
+        const snapshot = id !== undefined ? findSnapshot(state, id) : latest ?? await take();
+        text = formatDetachedNodesAsText(snapshot);
+        break;
+      }
+      case 'list': {
+        text = state.snapshots.length === 0
+          ? 'No snapshots'
+          : state.snapshots.map((s) =>
+            `- #${s.id} ${s.takenAt.toISOString().slice(11, 19)}: ${formatBytes(s.totalSize)}, ${s.nodeCount} objects, ${s.detachedCount} detached DOM nodes`
+          ).join('\n');
+        break;
+      }
+      case 'clear': {
+        state.snapshots = [];
+        text = 'Snapshots cleared';
+        break;
+      }
+      case 'snapshot':
+      default: {
+        const previous = state.snapshots[state.snapshots.length - 1];
+        const snapshot = await take();
+        text = formatHeapSnapshotAsText(snapshot, { top });
+        if (previous) {
+          text += `\n\n${formatHeapDiffAsText(diffHeapSnapshots(previous, snapshot), { top: 10 })}`;
+        }
+        break;
+      }
+    }
+
+    return {
+      content: [{ type: 'text', text: `### Heap (${page.url()})\n${text}` }],
+    };
+  };
+}
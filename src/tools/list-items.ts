@@ -0,0 +1,122 @@
+/**
+ * List items tool - page through or search lists folded by snapshot compression
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { SmartOutlineSimple } from '../utils/smart-outline.js';
+import type { ElementNode, FoldedList } from '../types/outline.js';
+import { parseRegexLiteral } from '../utils/route-manager.js';
+
+export const listItemsSchema = z.object({
+  ref: z.string().describe('Container ref of the folded list (the line above the sample), or any item ref'),
+  start: z.number().int().min(1).optional().default(1).describe('First item to return, 1-based (within search matches when search is set)'),
+  count: z.number().int().min(1).max(50).optional().default(10).describe('Number of items to return (max 50)'),
+  search: z.string().optional().describe('Only items whose text matches: substring (case-insensitive) or /regex/flags'),
+});
+
+const LIST_ITEMS_DESCRIPTION = `Get items from a list that snapshot compression folded.
+
+Requires: Call snapshot (compressed) first.
+A folded list looks like:
+  - list [ref=e12]
+    - listitem [ref=e13]: first item
+    - listitem (... and 47 more similar) [refs: e14, e15, ...]
+
+Options:
+- ref: Container ref (e12 above) or any item ref (e13, e14, ...)
+- start / count: Range of items, 1-based (default: items 1-10)
+- search: Filter items by text; start/count then page through the matches
+
+Each item is returned with its position (#31) and full subtree with refs.`;
+
+export const listItemsTool = {
+  name: 'browser_list_items',
+  description: LIST_ITEMS_DESCRIPTION,
+  inputSchema: listItemsSchema,
+};
+
+function createMatcher(search: string): (text: string) => boolean {
+  const regex = parseRegexLiteral(search);
+  if (regex) {
+    return (text) => regex.test(text);
+  }
+
+  const needle = search.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+function subtreeText(node: ElementNode): string {
+  return [node.line, ...node.children.map(subtreeText)].join('\n');
+}
+
+function findList(lists: FoldedList[], ref: string): FoldedList | undefined {
+  return lists.find((list) => list.containerRef === ref) ??
+    lists.find((list) => list.items.some((item) => item.ref === ref));
+}
+
+export function createListItemsHandler(sessionManager: SessionManager) {
+  return async function handleListItems(params: z.infer<typeof listItemsSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    const { ref, start = 1, count = 10, search } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+
+    const lists = browserManager.getListIndexForPage(page);
+    if (lists.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No folded lists available. Run the snapshot tool (with compress: true) first.' }],
+      };
+    }
+
+    const list = findList(lists, ref);
+    if (!list) {
+      const known = lists
+        .slice(0, 10)
+        .map((l) => `  ${l.containerRef ? `ref=${l.containerRef}` : `item ref=${l.items[0].ref}`}: ${l.items.length} ${l.type} items`)
+        .join('\n');
+      return {
+        content: [{ type: 'text', text: `No folded list for ref ${ref} in the last snapshot. Folded lists:\n${known}` }],
+      };
+    }
+
+    // Positions stay relative to the full list so "#31" means the same item with or without search
+    let entries = list.items.map((item, index) => ({ item, position: index + 1 }));
+    if (search) {
+      let matches: (text: string) => boolean;
+      try {
+        matches = createMatcher(search);
+      } catch (error) {
+        throw new Error(`Invalid search pattern: ${(error as Error).message}`);
+      }
+      entries = entries.filter(({ item }) => matches(subtreeText(item)));
+    }
+
+    const location = list.containerRef ? `ref=${list.containerRef}` : `root (item ref=${list.items[0].ref})`;
+    const scope = search
+      ? `${entries.length} of ${list.items.length} ${list.type} items match "${search}"`
+      : `${list.items.length} ${list.type} items`;
+
+    if (entries.length === 0 || start > entries.length) {
+      return {
+        content: [{ type: 'text', text: `### List in ${location}: ${scope} (nothing at ${start})` }],
+      };
+    }
+
+    const shown = entries.slice(start - 1, start - 1 + count);
+    const outliner = new SmartOutlineSimple();
+    const lines = [`### List in ${location}: ${scope} (showing ${start}-${start - 1 + shown.length})`];
+
+    for (const { item, position } of shown) {
+      lines.push(`#${position}`, ...outliner.renderNodes([item]));
+    }
+
+    if (start - 1 + shown.length < entries.length) {
+      lines.push(`... ${entries.length - (start - 1 + shown.length)} more (start: ${start + shown.length})`);
+    }
+
+    const text = lines.join('\n');
+    return {
+      content: [{ type: 'text', text: text.toWellFormed?.() ?? text }],
+    };
+  };
+}
@@ -3,13 +3,30 @@
  * Returns captured network traffic
  */
 
-import { BrowserManager } from '../browser.js';
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { formatRouteRule } from '../utils/route-manager.js';
 
-export interface NetworkRequestsParams {
-  includeStatic?: boolean; // Include static resources (images, CSS, fonts)
-  limit?: number;          // Max number of requests to return
-  clear?: boolean;         // Clear captured requests after returning
-}
+export const networkRequestsSchema = z.object({
+  includeStatic: z.boolean().optional().default(false).describe(
+    'Whether to include successful static resources like images, fonts, scripts, etc. Defaults to false.'
+  ),
+  limit: z.number().optional().default(50).describe('Maximum number of requests to return (most recent). Defaults to 50.'),
+  clear: z.boolean().optional().default(false).describe('Clear captured requests after returning them. Defaults to false.'),
+  scope: z.enum(['page', 'context']).optional().default('context').describe(
+    'Capture every tab and popup in the session (context) or only the current tab (page). Switching scope restarts capture.'
+  ),
+  urlPattern: z.string().optional().describe('Only requests whose URL contains this substring, or matches a regex literal like "/api\\/v\\d/i"'),
+  method: z.string().optional().describe('Only requests with this HTTP method'),
+  status: z.string().optional().describe('Only responses in this status range: "404", "4xx" or "400-499"'),
+  resourceType: z.array(z.string()).optional().describe('Only these resource types (document, xhr, fetch, script, ...)'),
+  minDuration: z.number().optional().describe('Only requests that took at least this many milliseconds'),
+  id: z.number().int().optional().describe('Detail mode: full headers and body of request #id from the list'),
+  offset: z.number().int().min(0).optional().default(0).describe('Detail mode: body character offset for pagination'),
+  maxLength: z.number().int().positive().optional().default(10000).describe('Detail mode: max body characters to return'),
+});
+
+export type NetworkRequestsParams = z.infer<typeof networkRequestsSchema>;
 
 /**
  * Tool definition for MCP
@@ -17,49 +34,59 @@ export interface NetworkRequestsParams {
 export const networkRequestsTool = {
   name: 'browser_network_requests',
   description:
-    'Get captured network requests from the browser. Automatically starts capturing when first called. ' +
-    'Use includeStatic:true to include images/CSS/fonts. Returns recent requests with status, timing, and response previews.',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      includeStatic: {
-        type: 'boolean',
-        description:
-          'Whether to include successful static resources like images, fonts, scripts, etc. Defaults to false.',
-      },
-      limit: {
-        type: 'number',
-        description: 'Maximum number of requests to return (most recent). Defaults to 50.',
-      },
-      clear: {
-        type: 'boolean',
-        description: 'Clear captured requests after returning them. Defaults to false.',
-      },
-    },
-  },
+    'Get captured network requests from the browser. Automatically starts capturing when first called, ' +
+    'following every tab and popup (scope:"page" limits it to the current tab). Keeps the most recent 1000 requests. ' +
+    'Use includeStatic:true to include images/CSS/fonts. Returns recent requests (#id, status or failure reason, timing, redirects, response previews), ' +
+    'followed by any active browser_route mocking rules. Filter with urlPattern, method, status ("4xx"), resourceType and minDuration. ' +
+    'Pass id to get one request\'s full headers and body, paginated with offset/maxLength.',
+  inputSchema: networkRequestsSchema,
 };
 
-export function createNetworkHandler(browserManager: BrowserManager) {
+export function createNetworkHandler(sessionManager: SessionManager) {
   return async function getNetworkRequests(
-    params: NetworkRequestsParams = {}
+    params: Partial<NetworkRequestsParams> = {}
   ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
+      const browserManager = sessionManager.getActiveSession();
       const page = await browserManager.getPage();
       const networkCapture = browserManager.getNetworkCapture();
+      const target = params.scope === 'page' ? page : (await browserManager.getContext()) ?? page;
 
       // Start capturing if not already started
-      networkCapture.start(page, {
+      networkCapture.start(target, {
         includeStatic: params.includeStatic ?? false,
         captureResponseBody: true,
         maxBodySize: 50 * 1024,
       });
 
+      // Detail mode: one request, full headers and paginated body
+      if (params.id !== undefined) {
+        const detail = await networkCapture.getDetail(params.id, {
+          offset: params.offset,
+          maxLength: params.maxLength,
+        });
+        return { content: [{ type: 'text', text: detail }] };
+      }
+
       // Get summary of captured requests
-      const summary = networkCapture.getSummary({
+      let summary = networkCapture.getSummary({
         includeStatic: params.includeStatic,
         limit: params.limit ?? 50,
+        filter: {
+          urlPattern: params.urlPattern,
+          method: params.method,
+          status: params.status,
+          resourceType: params.resourceType,
+          minDuration: params.minDuration,
+        },
       });
 
+      // Mocked traffic is only meaningful alongside the rules that shaped it
+      const rules = browserManager.getRouteManager().getRules();
+      if (rules.length > 0) {
+        summary += `Active routes (browser_route):\n${rules.map((r) => `  ${formatRouteRule(r)}`).join('\n')}\n`;
+      }
+
       // Clear if requested
       if (params.clear) {
         networkCapture.clear();
@@ -0,0 +1,93 @@
+/**
+ * Profile tool - records a trace or CPU profile around a navigation, reload or code snippet
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { getCDPSession, type CDPSession } from '../devtools/cdp-session.js';
+import { createProfiler, formatProfileAsText, type Profiler } from '../devtools/profiler.js';
+import { hasPageAction, runPageAction, validatePageAction } from '../utils/page-action.js';
+
+export const profileSchema = z.object({
+  url: z.string().optional().describe('Navigate to this URL while recording'),
+  reload: z.boolean().optional().default(false).describe('Reload the current page while recording'),
+  code: z.string().optional().describe('Playwright code to run while recording, same scope as browser_execute (e.g. clicks for INP)'),
+  duration: z.number().min(0).max(30000).optional().describe('Keep recording this long after the action (ms). Default 1000, or 3000 without an action'),
+  mode: z.enum(['trace', 'cpu']).optional().default('trace').describe('trace: Web Vitals, long tasks and CPU profile; cpu: CPU profile only (lighter)'),
+  top: z.number().min(1).max(100).optional().default(15).describe('Number of functions to list by self time'),
+  timeout: z.number().optional().default(30000).describe('Timeout for the action in milliseconds'),
+});
+
+const PROFILE_DESCRIPTION = `Profile page performance in the active tab (Chromium).
+
+Records around one action and returns a compact summary:
+- Web Vitals: FCP and LCP (when a navigation is recorded), CLS, INP (when
+  interactions happen), TBT
+- Long tasks (>50ms) with the function that dominated each
+- Top functions by self time with url:line:col - the URLs are the ones
+  createEditor lists, so editor.read({ url, offset: line - 10 }) shows the code
+
+Action (one of): url to navigate, reload: true, or code to run
+(e.g. "await $('e5').click()"). Without one, records the page for duration ms.
+
+Example: { "reload": true }  |  { "code": "await page.getByText('Load more').click()" }`;
+
+export const profileTool = {
+  name: 'browser_profile',
+  description: PROFILE_DESCRIPTION,
+  inputSchema: profileSchema,
+};
+
+// One profiler per CDP session, so listeners don't pile up across calls
+const profilers = new WeakMap<CDPSession, Profiler>();
+
+export function createProfileHandler(sessionManager: SessionManager) {
+  return async function handleProfile(params: z.infer<typeof profileSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { mode = 'trace', top = 15 } = params;
+    const invalid = validatePageAction(params);
+    if (invalid) {
+      return {
+        content: [{ type: 'text', text: invalid }],
+        isError: true,
+      };
+    }
+    const duration = params.duration ?? (hasPageAction(params) ? 1000 : 3000);
+
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+    const context = (await browserManager.getContext())!;
+
+    let cdp: CDPSession;
+    try {
+      cdp = await getCDPSession(page);
+    } catch (error) {
+      throw new Error(`Profiling needs a Chromium browser (CDP): ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    let profiler = profilers.get(cdp);
+    if (!profiler) {
+      profiler = createProfiler({ cdp });
+      profilers.set(cdp, profiler);
+    }
+
+    await profiler.start({ mode });
+    const action = await runPageAction(browserManager, page, context, { ...params, duration });
+    const result = await profiler.stop();
+
+    const lines = [
+      `### Profile: ${action.label} (${(result.durationMs / 1000).toFixed(1)}s, ${mode})`,
+      formatProfileAsText(result, { top }),
+    ];
+    if (action.output) {
+      lines.push('', '### Action output', action.output);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      isError: action.failed,
+    };
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Recording tool - record browser_execute calls and export them as a Playwright test
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+
+export const recordingSchema = z.object({
+  action: z.enum(['start', 'stop', 'status', 'export']).describe('Recording operation to perform'),
+  path: z.string().optional().describe('Output file for export (default: recorded-session.spec.ts in the working directory)'),
+  testName: z.string().optional().describe('Test title for export (default: "recorded session")'),
+  keepSteps: z.boolean().optional().default(false).describe('On start, append to previously recorded steps instead of clearing them'),
+});
+
+const RECORDING_DESCRIPTION = `Record browser_execute calls in the active session and export them as a runnable @playwright/test spec.
+
+Actions:
+- start: Begin recording (clears earlier steps unless keepSteps: true)
+- stop: Stop recording, keeping steps for export
+- status: Show recorded steps
+- export: Write the spec file (path must be in the working directory or /tmp)
+
+Each step stores the snippet, its result and the URL before/after.
+\`$('eN')\` calls are rewritten to durable locators (getByRole, getByTestId, ...)
+so the spec does not depend on snapshot refs. Failed steps are exported commented out.`;
+
+export const recordingTool = {
+  name: 'browser_recording',
+  description: RECORDING_DESCRIPTION,
+  inputSchema: recordingSchema,
+};
+
+export function createRecordingHandler(sessionManager: SessionManager) {
+  return async function handleRecording(params: z.infer<typeof recordingSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action, path, testName, keepSteps = false } = params;
+    const recorder = sessionManager.getActiveSession().getRecorder();
+
+    switch (action) {
+      case 'start': {
+        recorder.start({ keepSteps });
+        const existing = recorder.getSteps().length;
+        const suffix = existing > 0 ? ` (continuing after ${existing} steps)` : '';
+        return {
+          content: [{ type: 'text', text: `Recording browser_execute calls${suffix}` }],
+        };
+      }
+      case 'stop': {
+        recorder.stop();
+        return {
+          content: [{ type: 'text', text: `Recording stopped. ${recorder.getSteps().length} steps recorded.` }],
+        };
+      }
+      case 'export': {
+        const { path: writtenPath, content } = await recorder.exportTest({ path, testName });
+        return {
+          content: [{ type: 'text', text: `Exported ${recorder.getSteps().length} steps to ${writtenPath}\n\n${content}` }],
+        };
+      }
+      case 'status':
+      default: {
+        const steps = recorder.getSteps();
+        const state = recorder.isRecording() ? 'recording' : 'stopped';
+        const lines = steps.map((step, i) => {
+          const firstLine = step.code.trim().split('\n')[0].slice(0, 80);
+          const outcome = step.error ? ' [failed]' : '';
+          return `${i + 1}. ${firstLine}${outcome}`;
+        });
+        return {
+          content: [{ type: 'text', text: `Recorder ${state}, ${steps.length} steps:\n${lines.join('\n')}` }],
+        };
+      }
+    }
+  };
+}
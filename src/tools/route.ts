@@ -0,0 +1,99 @@
+/**
+ * Route tool - add, list and remove network mocking rules for the active session
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { formatRouteRule } from '../utils/route-manager.js';
+
+export const routeSchema = z.object({
+  action: z.enum(['add', 'list', 'remove', 'clear']).describe('Route operation to perform'),
+  url: z.string().optional().describe('URL glob ("**/api/users*") or regex literal ("/\\/api\\/v\\d\\//") to match (required for add)'),
+  method: z.string().optional().describe('Only match this HTTP method'),
+  resourceType: z.string().optional().describe('Only match this resource type (document, xhr, fetch, script, image, ...)'),
+  behavior: z.enum(['fulfill', 'modify', 'delay', 'abort']).optional().describe('What to do with matched requests (required for add)'),
+  status: z.number().int().optional().describe('fulfill/modify: response status'),
+  headers: z.record(z.string()).optional().describe('fulfill/modify: response headers (modify merges them over the real ones)'),
+  body: z.string().optional().describe('fulfill: static response body'),
+  path: z.string().optional().describe('fulfill: serve this file as the body (working directory or /tmp)'),
+  contentType: z.string().optional().describe('fulfill: content type, e.g. application/json'),
+  delayMs: z.number().int().optional().describe('delay: milliseconds to hold the request before it continues'),
+  errorCode: z.string().optional().describe('abort: network error code (failed, timedout, connectionrefused, ...)'),
+  times: z.number().int().positive().optional().describe('Remove the rule after this many matches'),
+  id: z.string().optional().describe('Rule id for remove (e.g. "r2")'),
+});
+
+const ROUTE_DESCRIPTION = `Mock, modify, slow down or block network requests in the active session.
+
+Actions:
+- add: Add a rule matched by url (glob or /regex/), optional method and resourceType
+- list: Show active rules with hit counts
+- remove: Remove a rule by id
+- clear: Remove all rules
+
+Behaviors:
+- fulfill: Respond with status/headers and a static body or file, without hitting the network
+- modify: Fetch the real response and override its status and/or headers
+- delay: Hold the request for delayMs, then let it continue (other rules still apply)
+- abort: Fail the request with errorCode
+
+Rules apply to every tab, persist across calls and browser relaunches, and newer rules win.
+Active rules are also listed in browser_network_requests output.
+
+Example: { action: "add", url: "**/api/user", method: "GET", behavior: "fulfill",
+           contentType: "application/json", body: "{\\"name\\":\\"Test\\"}" }`;
+
+export const routeTool = {
+  name: 'browser_route',
+  description: ROUTE_DESCRIPTION,
+  inputSchema: routeSchema,
+};
+
+export function createRouteHandler(sessionManager: SessionManager) {
+  return async function handleRoute(params: z.infer<typeof routeSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action, id, url, behavior, ...options } = params;
+    const browserManager = sessionManager.getActiveSession();
+    const routes = browserManager.getRouteManager();
+
+    switch (action) {
+      case 'add': {
+        if (!url || !behavior) {
+          throw new Error('add requires url and behavior');
+        }
+        // Install on the live context right away
+        await browserManager.getPage();
+        const rule = await routes.add({ url, behavior, ...options });
+        return {
+          content: [{ type: 'text', text: `Added route ${formatRouteRule(rule)}` }],
+        };
+      }
+      case 'remove': {
+        if (!id) {
+          throw new Error('remove requires id');
+        }
+        await routes.remove(id);
+        return {
+          content: [{ type: 'text', text: `Removed route ${id}` }],
+        };
+      }
+      case 'clear': {
+        const count = routes.getRules().length;
+        await routes.clear();
+        return {
+          content: [{ type: 'text', text: `Removed ${count} routes` }],
+        };
+      }
+      case 'list':
+      default: {
+        const rules = routes.getRules();
+        const text = rules.length === 0
+          ? 'No active routes.'
+          : `Active routes (${rules.length}, newest wins):\n${rules.map((r) => `  ${formatRouteRule(r)}`).join('\n')}`;
+        return { content: [{ type: 'text', text }] };
+      }
+    }
+  };
+}
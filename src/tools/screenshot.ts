@@ -3,8 +3,11 @@
  */
 
 import { z } from 'zod';
+import type { Page, Locator } from 'playwright';
+import { SessionManager } from '../session-manager.js';
 import { BrowserManager } from '../browser.js';
 import { showAriaRefLabels, hideAriaRefLabels } from '../visual/index.js';
+import type { Rect } from '../visual/pixel-diff.js';
 
 export const screenshotSchema = z.object({
   ref: z.string().optional().describe('Element ref from snapshot to screenshot. If not provided, screenshots the viewport.'),
@@ -32,10 +35,77 @@ export const screenshotTool = {
   inputSchema: screenshotSchema,
 };
 
-export function createScreenshotHandler(browserManager: BrowserManager) {
+export interface CaptureOptions {
+  ref?: string;          // Screenshot one element by ref
+  fullPage?: boolean;
+  mask?: string[];       // Refs painted over in the capture
+}
+
+export interface CaptureResult {
+  buffer: Buffer;
+  description: string;
+  masks: Rect[];         // Masked regions in image pixels
+}
+
+/**
+ * Image-pixel rectangles for masked locators, relative to the captured area
+ */
+async function getMaskRects(page: Page, masks: Locator[], clip: Locator | null, fullPage: boolean): Promise<Rect[]> {
+  const { scrollX, scrollY, dpr } = await page.evaluate(() => ({
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    dpr: window.devicePixelRatio,
+  }));
+  const origin = clip
+    ? await clip.boundingBox()
+    : { x: fullPage ? -scrollX : 0, y: fullPage ? -scrollY : 0 };
+
+  const rects: Rect[] = [];
+  for (const mask of masks) {
+    const box = await mask.boundingBox();
+    if (!box || !origin) continue;
+    rects.push({
+      x: Math.floor((box.x - origin.x) * dpr),
+      y: Math.floor((box.y - origin.y) * dpr),
+      width: Math.ceil(box.width * dpr),
+      height: Math.ceil(box.height * dpr),
+    });
+  }
+
+  return rects;
+}
+
+/**
+ * Capture a PNG of the viewport, full page or one element (shared with browser_visual_compare)
+ */
+export async function captureScreenshot(
+  browserManager: BrowserManager,
+  page: Page,
+  options: CaptureOptions = {}
+): Promise<CaptureResult> {
+  const mask = await Promise.all(
+    (options.mask ?? []).map((ref) => browserManager.refLocator(page, { ref }))
+  );
+
+  if (options.ref) {
+    // Screenshot specific element by ref
+    const locator = await browserManager.refLocator(page, { ref: options.ref });
+    const masks = mask.length ? await getMaskRects(page, mask, locator, false) : [];
+    const buffer = await locator.screenshot({ type: 'png', mask });
+    return { buffer, description: `Screenshot of element [ref=${options.ref}]`, masks };
+  }
+
+  const fullPage = options.fullPage ?? false;
+  const masks = mask.length ? await getMaskRects(page, mask, null, fullPage) : [];
+  const buffer = await page.screenshot({ type: 'png', fullPage, mask });
+  return { buffer, description: fullPage ? 'Full page screenshot' : 'Viewport screenshot', masks };
+}
+
+export function createScreenshotHandler(sessionManager: SessionManager) {
   return async function handleScreenshot(params: z.infer<typeof screenshotSchema>): Promise<{
     content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }>;
   }> {
+    const browserManager = sessionManager.getActiveSession();
     const page = await browserManager.getPage();
 
     let buffer: Buffer;
@@ -44,28 +114,17 @@ export function createScreenshotHandler(browserManager: BrowserManager) {
 
     // Show labels if requested (only for viewport/fullPage, not element screenshots)
     if (params.withLabels && !params.ref) {
-      const result = await showAriaRefLabels({ page });
+      const result = await showAriaRefLabels({ page, refResolver: browserManager.getRefResolver() });
       snapshot = result.snapshot;
     }
 
     try {
-      if (params.ref) {
-        // Screenshot specific element by ref
-        const locator = await browserManager.refLocator(page, { ref: params.ref });
-        buffer = await locator.screenshot({ type: 'png' });
-        description = `Screenshot of element [ref=${params.ref}]`;
-      } else if (params.fullPage) {
-        // Full page screenshot
-        buffer = await page.screenshot({ type: 'png', fullPage: true });
-        description = params.withLabels
-          ? 'Full page screenshot with ref labels'
-          : 'Full page screenshot';
-      } else {
-        // Viewport screenshot
-        buffer = await page.screenshot({ type: 'png' });
-        description = params.withLabels
-          ? 'Viewport screenshot with ref labels'
-          : 'Viewport screenshot';
+      ({ buffer, description } = await captureScreenshot(browserManager, page, {
+        ref: params.ref,
+        fullPage: params.fullPage,
+      }));
+      if (params.withLabels && !params.ref) {
+        description += ' with ref labels';
       }
     } finally {
       // Always hide labels after screenshot
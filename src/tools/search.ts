@@ -3,7 +3,7 @@
  */
 
 import { z } from 'zod';
-import { BrowserManager } from '../browser.js';
+import { SessionManager } from '../session-manager.js';
 import { searchSnapshot } from '../utils/search.js';
 
 export const searchSchema = z.object({
@@ -31,9 +31,10 @@ export const searchTool = {
   inputSchema: searchSchema,
 };
 
-export function createSearchHandler(browserManager: BrowserManager) {
+export function createSearchHandler(sessionManager: SessionManager) {
   return async function handleSearch(params: z.infer<typeof searchSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     const { pattern, ignoreCase = false, lineLimit = 100 } = params;
+    const browserManager = sessionManager.getActiveSession();
 
     const snapshot = browserManager.getLastSnapshot();
 
@@ -0,0 +1,92 @@
+/**
+ * Session tool - create, list, switch and destroy named browser sessions
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+
+export const sessionSchema = z.object({
+  action: z.enum(['list', 'create', 'switch', 'destroy']).describe('Session operation to perform'),
+  name: z.string().optional().describe('Session name (required for create, switch and destroy)'),
+  activate: z.boolean().optional().default(true).describe('Switch to the session after creating it (default: true)'),
+});
+
+const SESSION_DESCRIPTION = `Manage named, isolated browser sessions.
+
+Each session has its own browser context (cookies, storage), pages,
+persistent \`state\` object, console logs and network capture.
+All other tools act on the active session.
+
+Actions:
+- list: Show sessions with their current URL
+- create: Create a session (name required), activates it by default
+- switch: Make a session active (name required)
+- destroy: Close a session and its pages (name required)
+
+The "default" session always exists and cannot be destroyed.`;
+
+export const sessionTool = {
+  name: 'browser_sessions',
+  description: SESSION_DESCRIPTION,
+  inputSchema: sessionSchema,
+};
+
+export function createSessionHandler(sessionManager: SessionManager) {
+  return async function handleSession(params: z.infer<typeof sessionSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action, name, activate = true } = params;
+
+    if (action !== 'list' && !name) {
+      return {
+        content: [{ type: 'text', text: `Session name is required for action "${action}"` }],
+        isError: true,
+      };
+    }
+
+    switch (action) {
+      case 'create': {
+        sessionManager.createSession(name!);
+        if (activate) {
+          sessionManager.switchSession(name!);
+        }
+        const suffix = activate ? ' and switched to it' : '';
+        return {
+          content: [{ type: 'text', text: `Created session "${name}"${suffix}` }],
+        };
+      }
+      case 'switch': {
+        sessionManager.switchSession(name!);
+        return {
+          content: [{ type: 'text', text: `Switched to session "${name}". Refs from other sessions are not valid here - call snapshot.` }],
+        };
+      }
+      case 'destroy': {
+        await sessionManager.destroySession(name!);
+        return {
+          content: [{
+            type: 'text',
+            text: `Destroyed session "${name}". Active session: "${sessionManager.getActiveSessionName()}"`,
+          }],
+        };
+      }
+      case 'list':
+      default: {
+        const sessions = await sessionManager.listSessions();
+        const lines = sessions.map((s) => {
+          const marker = s.active ? '* ' : '  ';
+          const location = !s.launched
+            ? '(not launched)'
+            : s.url === null
+              ? '(no open tabs)'
+              : `${s.url} (${s.pageCount} page${s.pageCount === 1 ? '' : 's'})`;
+          return `${marker}${s.name} - ${location}`;
+        });
+        return {
+          content: [{ type: 'text', text: `Sessions (${sessions.length}, * = active):\n${lines.join('\n')}` }],
+        };
+      }
+    }
+  };
+}
@@ -3,9 +3,10 @@
  */
 
 import { z } from 'zod';
-import { createPatch } from 'diff';
-import { BrowserManager } from '../browser.js';
+import { SessionManager } from '../session-manager.js';
 import { SmartOutlineSimple } from '../utils/smart-outline.js';
+import { diffTrees, formatTreeDiff, fromElementNodes } from '../utils/tree-diff.js';
+import { extractSubtree, resolveScopeRef } from '../utils/scoped-snapshot.js';
 
 function isRegExp(value: any): value is RegExp {
   return typeof value === 'object' && value !== null &&
@@ -16,19 +17,35 @@ export const snapshotSchema = z.object({
   compress: z.boolean().optional().default(true).describe('Whether to compress the snapshot using smart outline'),
   search: z.union([z.string(), z.instanceof(RegExp)]).optional().describe('Search pattern (string or regex) to filter snapshot results'),
   showDiff: z.boolean().optional().default(false).describe('Show diff since last snapshot call'),
+  maxTokens: z.number().int().positive().optional().describe('Approximate token budget; low-priority subtrees collapse into [+N nodes, ref=eX] placeholders'),
+  maxLines: z.number().int().positive().optional().describe('Line budget for the outline (same collapsing as maxTokens)'),
+  ref: z.string().optional().describe('Only snapshot the subtree of this element ref'),
+  selector: z.string().optional().describe('Only snapshot the subtree of the first element matching this Playwright selector'),
 });
 
 const SNAPSHOT_DESCRIPTION = `Get compressed accessibility snapshot with ref IDs.
 
 Returns: DOM tree with [ref=e1], [ref=e2] etc.
 Use refs with execute tool: await $('e1').click()
-Call again after navigation (refs become stale).
+Iframes are inlined and labelled with their URL (- iframe [url=...] [ref=e7]);
+refs inside them look like f1e5 and work with $() like any other ref.
+Refs are fingerprinted and re-resolved after navigation when possible;
+call again if a ref can't be re-resolved or the page changed a lot.
 
 Options:
 - compress: Enable smart compression (default: true)
   Reduces token usage by ~90% via list folding and wrapper removal.
 - search: Search pattern (string or regex) to filter results with context
-- showDiff: Show changes since last snapshot (useful for tracking page updates)`;
+- showDiff: Show changes since last snapshot (useful for tracking page updates)
+  Semantic diff: added / removed / moved / renamed / state-changed nodes with refs.
+- maxTokens / maxLines: Budget for the compressed outline. Low-priority subtrees
+  (text, generic wrappers) collapse first into placeholders like [+42 nodes, ref=e17];
+  interactive elements, headings and landmarks are kept longest.
+  Expand a placeholder with browser_expand_snapshot.
+
+Folded lists ("... and 47 more similar") can be paged or searched with browser_list_items.
+- ref / selector: Snapshot only one element's subtree (a modal, a table, a form).
+  Diff state is tracked per scope, so showDiff compares against the last snapshot of the same scope.`;
 
 export const snapshotTool = {
   name: 'snapshot',
@@ -36,23 +53,43 @@ export const snapshotTool = {
   inputSchema: snapshotSchema,
 };
 
-export function createSnapshotHandler(browserManager: BrowserManager) {
+export function createSnapshotHandler(sessionManager: SessionManager) {
   return async function handleSnapshot(params: z.infer<typeof snapshotSchema>): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
-    const { compress = true, search, showDiff = false } = params;
+    const { compress = true, search, showDiff = false, maxTokens, maxLines, ref, selector } = params;
+    const browserManager = sessionManager.getActiveSession();
     const page = await browserManager.getPage();
 
+    if (ref && selector) {
+      throw new Error('Pass either ref or selector, not both');
+    }
+
     const url = page.url();
     const title = await page.title();
-    const rawSnapshot = await browserManager.getSnapshot(page);
+    const pageSnapshot = await browserManager.getSnapshot(page);
 
     // Store the raw snapshot for search functionality
-    browserManager.setLastSnapshot(rawSnapshot);
+    browserManager.setLastSnapshot(pageSnapshot);
+
+    // Narrow to one element's subtree; diffs are tracked per scope
+    let rawSnapshot = pageSnapshot;
+    let scope = '';
+    let scopeRef: string | null = null;
+    if (ref || selector) {
+      scopeRef = await resolveScopeRef(browserManager, page, pageSnapshot, { ref, selector });
+      rawSnapshot = extractSubtree(pageSnapshot, scopeRef)!;
+      scope = ref ? `ref=${ref}` : `selector=${selector}`;
+    }
 
-    // Apply compression if enabled
+    // Apply compression if enabled (a budget implies compression)
     let snapshot: string;
-    if (compress) {
+    if (compress || maxTokens || maxLines) {
       const outliner = new SmartOutlineSimple();
-      snapshot = outliner.generate(rawSnapshot);
+      snapshot = outliner.generate(rawSnapshot, { maxTokens, maxLines });
+      if (scope) {
+        browserManager.mergeListIndexForPage(page, outliner.getFoldedLists());
+      } else {
+        browserManager.setListIndexForPage(page, outliner.getFoldedLists());
+      }
     } else {
       snapshot = rawSnapshot;
     }
@@ -60,36 +97,31 @@ export function createSnapshotHandler(browserManager: BrowserManager) {
     // Sanitize to remove unpaired surrogates
     snapshot = snapshot.toWellFormed?.() ?? snapshot;
 
-    // Handle diff mode
+    // Handle diff mode (always against the uncompressed tree so folded lists still diff)
     if (showDiff) {
-      const previousSnapshot = browserManager.getLastSnapshotForPage(page);
+      const previousSnapshot = browserManager.getLastSnapshotForPage(page, scope);
+      browserManager.setLastSnapshotForPage(page, rawSnapshot, scope);
 
       if (!previousSnapshot) {
-        browserManager.setLastSnapshotForPage(page, snapshot);
+        const target = scope ? `scope ${scope}` : 'this page';
         return {
-          content: [{ type: 'text', text: 'No previous snapshot available. This is the first snapshot for this page. Full snapshot stored for next diff.' }],
+          content: [{ type: 'text', text: `No previous snapshot available. This is the first snapshot for ${target}. Full snapshot stored for next diff.` }],
         };
       }
 
-      const patch = createPatch('snapshot', previousSnapshot, snapshot, 'previous', 'current', {
-        context: 3,
-      });
-
-      browserManager.setLastSnapshotForPage(page, snapshot);
-
-      if (patch.split('\n').length <= 4) {
-        return {
-          content: [{ type: 'text', text: 'No changes detected since last snapshot' }],
-        };
-      }
+      const outliner = new SmartOutlineSimple();
+      const diff = diffTrees(
+        fromElementNodes(outliner.parse(previousSnapshot)),
+        fromElementNodes(outliner.parse(rawSnapshot))
+      );
 
       return {
-        content: [{ type: 'text', text: `### Snapshot Diff\n\n${patch}` }],
+        content: [{ type: 'text', text: formatTreeDiff(diff, { title: scope ? `Snapshot Diff (${scope})` : 'Snapshot Diff' }) }],
       };
     }
 
     // Store for future diffs
-    browserManager.setLastSnapshotForPage(page, snapshot);
+    browserManager.setLastSnapshotForPage(page, rawSnapshot, scope);
 
     // Handle search mode
     if (search) {
@@ -153,7 +185,7 @@ export function createSnapshotHandler(browserManager: BrowserManager) {
       `- URL: ${url}`,
       `- Title: ${title}`,
       ``,
-      `### Accessibility Snapshot`,
+      scope ? `### Accessibility Snapshot (${scope}${scopeRef !== ref ? ` -> ref=${scopeRef}` : ''})` : `### Accessibility Snapshot`,
       snapshot,
     ].join('\n');
 
@@ -0,0 +1,88 @@
+/**
+ * Storage state tool - save named login state to files and restore it into a new context
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { StorageStateStore, DEFAULT_STORAGE_STATE_DIR, describeStorageState } from '../utils/storage-state.js';
+
+export const storageStateSchema = z.object({
+  action: z.enum(['save', 'restore', 'list', 'delete']).describe('Storage state operation to perform'),
+  name: z.string().optional().default('default')
+    .describe(`State name (file in ${DEFAULT_STORAGE_STATE_DIR}/) or a .json path in the working directory or /tmp`),
+  indexedDB: z.boolean().optional().default(true).describe('save: include IndexedDB databases'),
+});
+
+const STORAGE_STATE_DESCRIPTION = `Save and restore login state (cookies, localStorage, IndexedDB).
+
+Actions:
+- save: Write the active session's storage state to a named file
+- restore: Load a saved state into a fresh browser context; open tabs are reopened
+- list: Show saved states
+- delete: Remove a saved state
+
+Typical use: log in once, save as "admin", then restore "admin" in later runs
+instead of logging in again. Files are Playwright storageState JSON.`;
+
+export const storageStateTool = {
+  name: 'browser_storage_state',
+  description: STORAGE_STATE_DESCRIPTION,
+  inputSchema: storageStateSchema,
+};
+
+export function createStorageStateHandler(sessionManager: SessionManager) {
+  const store = new StorageStateStore();
+
+  return async function handleStorageState(params: z.infer<typeof storageStateSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+  }> {
+    const { action, name = 'default', indexedDB = true } = params;
+    const browserManager = sessionManager.getActiveSession();
+
+    switch (action) {
+      case 'save': {
+        await browserManager.getPage();
+        const context = (await browserManager.getContext())!;
+        const state = await context.storageState({ indexedDB });
+        const file = await store.save(name, state);
+        return {
+          content: [{ type: 'text', text: `Saved ${describeStorageState(state)} to ${file}` }],
+        };
+      }
+      case 'restore': {
+        const state = await store.load(name);
+        const { harReplayStopped } = await browserManager.recreateContext({ storageState: state });
+        const tabs = browserManager.getPages().length;
+        const replayNote = harReplayStopped ? ' HAR replay stopped - run browser_network_har replay again to resume it.' : '';
+        return {
+          content: [{
+            type: 'text',
+            text: `Restored ${describeStorageState(state)} from ${store.fileFor(name)} into a new context ` +
+              `(${tabs} tab${tabs === 1 ? '' : 's'} reopened). Refs changed - call snapshot.${replayNote}`,
+          }],
+        };
+      }
+      case 'delete': {
+        const file = await store.remove(name);
+        return {
+          content: [{ type: 'text', text: `Deleted ${file}` }],
+        };
+      }
+      case 'list':
+      default: {
+        const states = await store.list();
+        if (states.length === 0) {
+          return {
+            content: [{ type: 'text', text: `No saved storage states in ${DEFAULT_STORAGE_STATE_DIR}/` }],
+          };
+        }
+        const lines = states.map((s) =>
+          `- ${s.name}: ${s.cookies} cookies, ${s.origins.length} origins${s.origins.length > 0 ? ` (${s.origins.slice(0, 3).join(', ')}${s.origins.length > 3 ? ', ...' : ''})` : ''}, saved ${s.savedAt.toISOString().slice(0, 16)}`
+        );
+        return {
+          content: [{ type: 'text', text: `Saved storage states (${states.length}):\n${lines.join('\n')}` }],
+        };
+      }
+    }
+  };
+}
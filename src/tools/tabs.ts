@@ -0,0 +1,89 @@
+/**
+ * Tabs tool - list, open, select and close pages in the active session
+ */
+
+import { z } from 'zod';
+import type { Page } from 'playwright';
+import { BrowserManager } from '../browser.js';
+import { SessionManager } from '../session-manager.js';
+
+export const tabsSchema = z.object({
+  action: z.enum(['list', 'new', 'select', 'close']).describe('Tab operation to perform'),
+  index: z.number().int().min(0).optional().describe('Tab index (required for select; close defaults to the current tab)'),
+  url: z.string().optional().describe('URL to open in the new tab (new only)'),
+});
+
+const TABS_DESCRIPTION = `Manage browser tabs in the active session.
+
+Actions:
+- list: Show all tabs with index, title and URL (* = current)
+- new: Open a tab (optionally at url) and make it current
+- select: Make tab at index current
+- close: Close tab at index (default: current tab)
+
+The current tab is the \`page\` used by browser_execute, snapshot and screenshot.
+Popups and tabs opened by the page are picked up automatically.
+Refs are per-tab - call snapshot after switching.`;
+
+export const tabsTool = {
+  name: 'browser_tabs',
+  description: TABS_DESCRIPTION,
+  inputSchema: tabsSchema,
+};
+
+/**
+ * Format tab list, one line per tab
+ */
+async function formatTabList(browserManager: BrowserManager): Promise<string> {
+  const current = await browserManager.getPage();
+  const pages = browserManager.getPages();
+
+  const lines = await Promise.all(pages.map(async (page: Page, index: number) => {
+    const marker = page === current ? '* ' : '  ';
+    const title = await page.title().catch(() => '');
+    const opener = await page.opener().catch(() => null);
+    const openerIndex = opener ? browserManager.getPageIndex(opener) : -1;
+    const popup = openerIndex >= 0 ? ` (popup from tab ${openerIndex})` : '';
+    return `${marker}${index}: ${title || '(no title)'} - ${page.url()}${popup}`;
+  }));
+
+  return `Tabs (${pages.length}, * = current):\n${lines.join('\n')}`;
+}
+
+export function createTabsHandler(sessionManager: SessionManager) {
+  return async function handleTabs(params: z.infer<typeof tabsSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string }>;
+    isError?: boolean;
+  }> {
+    const { action, index, url } = params;
+    const browserManager = sessionManager.getActiveSession();
+
+    switch (action) {
+      case 'new': {
+        await browserManager.newPage(url);
+        break;
+      }
+      case 'select': {
+        if (index === undefined) {
+          return {
+            content: [{ type: 'text', text: 'Tab index is required for action "select"' }],
+            isError: true,
+          };
+        }
+        await browserManager.selectPage(index);
+        break;
+      }
+      case 'close': {
+        await browserManager.closePage(index);
+        break;
+      }
+      case 'list':
+      default:
+        break;
+    }
+
+    return {
+      content: [{ type: 'text', text: await formatTabList(browserManager) }],
+    };
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Visual compare tool - named screenshot baselines and pixel diffs
+ */
+
+import { z } from 'zod';
+import { SessionManager } from '../session-manager.js';
+import { captureScreenshot } from './screenshot.js';
+import { BaselineStore, DEFAULT_BASELINE_DIR, baselineUrl } from '../visual/baselines.js';
+import { decodePng, encodePng } from '../visual/png.js';
+import { diffImages } from '../visual/pixel-diff.js';
+
+export const visualCompareSchema = z.object({
+  action: z.enum(['compare', 'update', 'list', 'delete']).optional().default('compare').describe('Visual baseline operation'),
+  name: z.string().optional().describe('Baseline name (required except for list)'),
+  ref: z.string().optional().describe('Capture one element by ref instead of the viewport'),
+  fullPage: z.boolean().optional().default(false).describe('Capture the full scrollable page'),
+  mask: z.array(z.string()).optional().describe('Refs to mask (dynamic content like timestamps or ads); excluded from the diff'),
+  threshold: z.number().min(0).max(1).optional().default(0.1).describe('Per-pixel color tolerance, 0 (exact) to 1'),
+  maxMismatch: z.number().min(0).max(100).optional().default(0).describe('Mismatch percentage still reported as a pass'),
+  baselineDir: z.string().optional().describe(`Baseline directory (default: ${DEFAULT_BASELINE_DIR} in the working directory)`),
+});
+
+const VISUAL_COMPARE_DESCRIPTION = `Visual regression check against named screenshot baselines.
+
+Actions:
+- compare (default): Capture and diff against the baseline for this name + URL + viewport.
+  Creates the baseline if none exists. Returns mismatch % and a diff image
+  (differences red, size changes magenta, masked regions blue).
+- update: Capture and overwrite the baseline
+- list: Show stored baselines
+- delete: Remove every baseline with this name
+
+Capture options match the screenshot tool (ref, fullPage). Use mask with the same refs
+on update and compare for regions that change on every load.
+Typical loop: update -> edit via createEditor -> compare.`;
+
+export const visualCompareTool = {
+  name: 'browser_visual_compare',
+  description: VISUAL_COMPARE_DESCRIPTION,
+  inputSchema: visualCompareSchema,
+};
+
+export function createVisualCompareHandler(sessionManager: SessionManager) {
+  return async function handleVisualCompare(params: z.infer<typeof visualCompareSchema>): Promise<{
+    content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }>;
+  }> {
+    const {
+      action = 'compare', name, ref, fullPage = false, mask, threshold = 0.1, maxMismatch = 0, baselineDir,
+    } = params;
+    const store = new BaselineStore(baselineDir);
+
+    if (action === 'list') {
+      const baselines = await store.list();
+      const text = baselines.length === 0
+        ? 'No visual baselines stored.'
+        : `Visual baselines (${baselines.length}):\n` + baselines.map((b) => {
+          const target = b.ref ? ` ref=${b.ref}` : b.fullPage ? ' fullPage' : '';
+          return `  ${b.name} - ${b.url} @ ${b.viewport}${target} (${b.createdAt})`;
+        }).join('\n');
+      return { content: [{ type: 'text', text }] };
+    }
+
+    if (!name) {
+      throw new Error(`${action} requires a baseline name`);
+    }
+
+    if (action === 'delete') {
+      const removed = await store.remove(name);
+      return { content: [{ type: 'text', text: `Deleted ${removed} baselines named "${name}"` }] };
+    }
+
+    const browserManager = sessionManager.getActiveSession();
+    const page = await browserManager.getPage();
+    const size = page.viewportSize();
+    const viewport = size ? `${size.width}x${size.height}` : 'default';
+    const url = page.url();
+
+    const capture = await captureScreenshot(browserManager, page, { ref, fullPage, mask });
+    const existing = action === 'compare' ? await store.load(name, url, viewport) : null;
+
+    if (!existing) {
+      const info = await store.save(capture.buffer, { name, url, viewport, ref, fullPage, mask });
+      const verb = action === 'update' ? 'Updated' : 'Created';
+      return {
+        content: [
+          { type: 'text', text: `${verb} baseline "${name}" for ${baselineUrl(url)} @ ${viewport} (${info.file})` },
+          { type: 'image', data: capture.buffer.toString('base64'), mimeType: 'image/png' },
+        ],
+      };
+    }
+
+    const before = decodePng(existing.png);
+    const after = decodePng(capture.buffer);
+    const result = diffImages(before, after, {
+      threshold,
+      ignore: capture.masks,
+    });
+    const diffPng = encodePng(result.diff);
+    const passed = !result.sizeChanged && result.mismatch <= maxMismatch;
+
+    let text = `${passed ? 'PASS' : 'FAIL'} "${name}" vs baseline from ${existing.info.createdAt}\n`;
+    text += `Mismatch: ${result.mismatch.toFixed(2)}% (${result.diffPixels} of ${result.comparedPixels} pixels)`;
+    if (result.sizeChanged) {
+      text += `\nSize changed: ${before.width}x${before.height} -> ${after.width}x${after.height}`;
+    }
+
+    if (!passed) {
+      const diffFile = await store.saveArtifact(existing.info, 'diff', diffPng);
+      const actualFile = await store.saveArtifact(existing.info, 'actual', capture.buffer);
+      text += `\nDiff: ${diffFile}\nActual: ${actualFile}\nRun with action: "update" to accept the new rendering.`;
+    }
+
+    return {
+      content: [
+        { type: 'text', text },
+        { type: 'image', data: diffPng.toString('base64'), mimeType: 'image/png' },
+      ],
+    };
+  };
+}
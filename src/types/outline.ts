@@ -37,8 +37,15 @@ export interface PageStructure {
   rootNodes: ElementNode[];
 }
 
+export interface FoldedList {
+  containerRef: string;   // Ref of the element holding the items ('' at the root)
+  type: string;           // Item role
+  items: ElementNode[];   // Every item, including the sample shown in the outline
+}
+
 export interface OutlineOptions {
   maxLines: number;
+  maxTokens?: number;     // Approximate token budget (~4 chars per token)
   mode: 'smart' | 'simple';
   preserveStructure: boolean;
   foldThreshold: number;  // Fold threshold
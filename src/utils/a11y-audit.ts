@@ -0,0 +1,203 @@
+/**
+ * Accessibility audit over the snapshot ElementNode tree
+ * Structural checks run on the parsed snapshot; contrast checks query CDP per element.
+ */
+
+import type { Locator, Page } from 'playwright';
+import type { ElementNode } from '../types/outline.js';
+import { getCDPSession } from '../devtools/cdp-session.js';
+import { getContrastForLocator } from '../devtools/styles.js';
+
+export type A11ySeverity = 'error' | 'warning';
+
+export type A11yRule =
+  | 'button-name'
+  | 'link-name'
+  | 'image-alt'
+  | 'input-label'
+  | 'heading-order'
+  | 'landmark-unique'
+  | 'color-contrast';
+
+export interface A11yIssue {
+  rule: A11yRule;
+  severity: A11ySeverity;
+  ref: string;
+  message: string;
+  line: string;              // Snapshot line of the offending node
+}
+
+export interface ContrastAuditOptions {
+  limit?: number;            // Max elements to check (each costs several CDP round trips)
+  locate?: (ref: string) => Locator;  // Ref to locator (default: main-frame aria-ref; pass one that knows iframe refs)
+}
+
+const INPUT_ROLES = new Set([
+  'textbox', 'searchbox', 'combobox', 'checkbox', 'radio', 'spinbutton',
+  'slider', 'switch', 'listbox',
+]);
+
+const LANDMARK_ROLES = new Set([
+  'banner', 'navigation', 'main', 'contentinfo', 'complementary', 'region', 'search', 'form',
+]);
+
+// Roles whose text is worth a contrast check
+const TEXT_ROLES = new Set(['link', 'button', 'heading', 'paragraph', 'cell', 'listitem', 'label', 'tab', 'menuitem']);
+
+const DEFAULT_CONTRAST_LIMIT = 50;
+
+/**
+ * Accessible name from a node's content ('"Submit" [level=2]' -> 'Submit')
+ */
+export function getNodeName(node: ElementNode): string {
+  const match = node.content.match(/^"((?:[^"\\]|\\.)*)"/);
+  return match ? match[1].replace(/\\(.)/g, '$1').trim() : '';
+}
+
+function walk(nodes: ElementNode[], visit: (node: ElementNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    walk(node.children, visit);
+  }
+}
+
+function issue(node: ElementNode, rule: A11yRule, severity: A11ySeverity, message: string): A11yIssue {
+  const line = node.line.trim();
+  return { rule, severity, ref: node.ref, message, line: line.length > 120 ? line.slice(0, 120) + '...' : line };
+}
+
+/**
+ * Structural checks: names, alt text, labels, heading order, landmark names
+ */
+export function auditStructure(roots: ElementNode[]): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  const landmarks = new Map<string, ElementNode[]>();
+  let previousHeading: { level: number; node: ElementNode } | null = null;
+
+  walk(roots, (node) => {
+    const name = getNodeName(node);
+
+    switch (node.type) {
+      case 'button':
+        if (!name) issues.push(issue(node, 'button-name', 'error', 'Button has no accessible name'));
+        break;
+      case 'link':
+        if (!name) issues.push(issue(node, 'link-name', 'error', 'Link has no accessible name'));
+        break;
+      case 'img':
+        if (!name) issues.push(issue(node, 'image-alt', 'error', 'Image has no alt text (use alt="" if decorative)'));
+        break;
+      case 'heading': {
+        const level = Number(node.content.match(/\[level=(\d)\]/)?.[1] ?? 0);
+        if (level && previousHeading && level > previousHeading.level + 1) {
+          issues.push(issue(node, 'heading-order', 'warning',
+            `Heading level ${level} follows level ${previousHeading.level} (skips ${level - previousHeading.level - 1})`));
+        }
+        if (level) previousHeading = { level, node };
+        break;
+      }
+    }
+
+    if (INPUT_ROLES.has(node.type) && !name) {
+      issues.push(issue(node, 'input-label', 'error', `${node.type} has no label`));
+    }
+
+    if (LANDMARK_ROLES.has(node.type)) {
+      const list = landmarks.get(node.type) ?? [];
+      list.push(node);
+      landmarks.set(node.type, list);
+    }
+  });
+
+  // Multiple landmarks of one role must be told apart by name
+  for (const [role, nodes] of landmarks) {
+    if (nodes.length < 2) continue;
+
+    const byName = new Map<string, ElementNode[]>();
+    for (const node of nodes) {
+      const name = getNodeName(node);
+      byName.set(name, [...(byName.get(name) ?? []), node]);
+    }
+
+    for (const [name, duplicates] of byName) {
+      if (duplicates.length < 2) continue;
+      const label = name ? `named "${name}"` : 'without a name';
+      for (const node of duplicates) {
+        issues.push(issue(node, 'landmark-unique', 'warning',
+          `${duplicates.length} ${role} landmarks ${label} - give each a distinct aria-label`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Contrast checks for named text elements, via the CDP styles code.
+ * Throws if the browser has no CDP (Firefox, WebKit).
+ */
+export async function auditContrast(
+  page: Page,
+  roots: ElementNode[],
+  options: ContrastAuditOptions = {}
+): Promise<{ issues: A11yIssue[]; checked: number; skipped: number }> {
+  const candidates: ElementNode[] = [];
+  walk(roots, (node) => {
+    if (node.ref && TEXT_ROLES.has(node.type) && getNodeName(node)) {
+      candidates.push(node);
+    }
+  });
+
+  const limit = options.limit ?? DEFAULT_CONTRAST_LIMIT;
+  const locate = options.locate ?? ((ref: string) => page.locator(`aria-ref=${ref}`));
+  const cdp = await getCDPSession(page);
+  const issues: A11yIssue[] = [];
+  let checked = 0;
+  let skipped = 0;
+
+  for (const node of candidates.slice(0, limit)) {
+    try {
+      const contrast = await getContrastForLocator({ locator: locate(node.ref!), cdp });
+      if (!contrast) {
+        skipped++;
+        continue;
+      }
+      checked++;
+      if (!contrast.passes) {
+        issues.push(issue(node, 'color-contrast', 'error',
+          `Contrast ${contrast.ratio}:1 is below ${contrast.required}:1 ` +
+          `(${contrast.foreground} on ${contrast.background}, ${contrast.fontSize})`));
+      }
+    } catch {
+      // Off-screen, hidden or detached - nothing to measure
+      skipped++;
+    }
+  }
+
+  skipped += Math.max(0, candidates.length - limit);
+  return { issues, checked, skipped };
+}
+
+/**
+ * Compact report grouped by severity
+ */
+export function formatAuditReport(issues: A11yIssue[], header: string): string {
+  const errors = issues.filter((i) => i.severity === 'error');
+  const warnings = issues.filter((i) => i.severity === 'warning');
+
+  const lines = [`${header}: ${errors.length} errors, ${warnings.length} warnings`];
+
+  if (issues.length === 0) {
+    lines.push('', 'No issues found.');
+    return lines.join('\n');
+  }
+
+  for (const item of [...errors, ...warnings]) {
+    const level = item.severity === 'error' ? 'ERROR' : 'WARN ';
+    const ref = item.ref ? ` [ref=${item.ref}]` : '';
+    lines.push(`${level} ${item.rule}${ref}: ${item.message}`);
+    lines.push(`      ${item.line}`);
+  }
+
+  return lines.join('\n');
+}
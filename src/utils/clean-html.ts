@@ -4,7 +4,7 @@
  */
 
 import type { Page, Locator } from 'playwright';
-import { createPatch } from 'diff';
+import { diffTrees, formatTreeDiff, fromHtml } from './tree-diff.js';
 
 export interface GetCleanHTMLOptions {
   locator: Locator | Page;
@@ -117,16 +117,11 @@ export async function getCleanHTML(options: GetCleanHTMLOptions): Promise<string
       return 'No previous snapshot available. This is the first call for this locator. Full snapshot stored for next diff.';
     }
 
-    const patch = createPatch('html', previousSnapshot, htmlStr, 'previous', 'current', {
-      context: 3,
-    });
+    const diff = diffTrees(fromHtml(previousSnapshot), fromHtml(htmlStr));
 
     pageSnapshots.set(snapshotKey, htmlStr);
 
-    if (patch.split('\n').length <= 4) {
-      return 'No changes detected since last snapshot';
-    }
-    return patch;
+    return formatTreeDiff(diff, { title: 'HTML Diff' });
   }
 
   // Store snapshot for future diffs
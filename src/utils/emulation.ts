@@ -0,0 +1,269 @@
+/**
+ * Device and environment emulation for even-better-playwright-mcp
+ * Settings outlive single tool calls: context options apply to every new context,
+ * page settings (viewport, media, CDP throttling) to every tab as it opens.
+ */
+
+import { devices, type BrowserContext, type BrowserContextOptions, type Page } from 'playwright';
+import { getCDPSession } from '../devtools/cdp-session.js';
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface NetworkConditions {
+  downloadKbps: number;
+  uploadKbps: number;
+  latencyMs: number;
+}
+
+export type ColorScheme = 'light' | 'dark' | 'no-preference';
+export type ReducedMotion = 'reduce' | 'no-preference';
+
+export interface EmulationSettings {
+  device?: string;                       // Playwright device preset name
+  viewport?: { width: number; height: number };
+  geolocation?: Geolocation;
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: ColorScheme;
+  reducedMotion?: ReducedMotion;
+  offline?: boolean;
+  cpuThrottling?: number;                // Slowdown factor, 1 = none (Chromium only)
+  network?: NetworkConditions;           // Chromium only
+}
+
+/**
+ * Changes to apply: undefined keeps a setting, null clears it
+ */
+export type EmulationChanges = { [K in keyof EmulationSettings]?: EmulationSettings[K] | null };
+
+export const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+
+// Chrome DevTools throttling presets
+export const NETWORK_PRESETS: Record<string, NetworkConditions> = {
+  'slow-3g': { downloadKbps: 400, uploadKbps: 400, latencyMs: 2000 },
+  'fast-3g': { downloadKbps: 1440, uploadKbps: 675, latencyMs: 563 },
+  '4g': { downloadKbps: 9000, uploadKbps: 9000, latencyMs: 170 },
+};
+
+// Settings baked into a context at creation; changing them means a new context
+const CONTEXT_ONLY: Array<keyof EmulationSettings> = ['device', 'locale', 'timezoneId'];
+
+/**
+ * Check values Playwright would only reject when the context is created
+ */
+function validateChanges(changes: EmulationChanges): void {
+  if (changes.device && !devices[changes.device]) {
+    const close = Object.keys(devices)
+      .filter((name) => name.toLowerCase().includes(changes.device!.toLowerCase().split(' ')[0]))
+      .slice(0, 8);
+    throw new Error(`Unknown device "${changes.device}"${close.length > 0 ? `. Similar: ${close.join(', ')}` : ''}`);
+  }
+  if (changes.locale) {
+    try {
+      Intl.getCanonicalLocales(changes.locale);
+    } catch {
+      throw new Error(`Invalid locale "${changes.locale}" (expected e.g. "de-DE")`);
+    }
+  }
+  if (changes.timezoneId) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: changes.timezoneId });
+    } catch {
+      throw new Error(`Invalid timezone "${changes.timezoneId}" (expected an IANA name like "Europe/Berlin")`);
+    }
+  }
+}
+
+export class EmulationManager {
+  private settings: EmulationSettings = {};
+  private browserName: string;
+  private baseOptions: BrowserContextOptions;
+  private resizedPages = new WeakSet<Page>();      // Tabs with a runtime viewport override
+  private throttledPages = new WeakSet<Page>();    // Tabs with CDP throttling applied
+
+  constructor(browserName = 'chromium', baseOptions: BrowserContextOptions = {}) {
+    this.browserName = browserName;
+    this.baseOptions = baseOptions;
+  }
+
+  getSettings(): EmulationSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Whether anything is emulated (new tabs need applyToPage)
+   */
+  isActive(): boolean {
+    return Object.keys(this.settings).length > 0;
+  }
+
+  /**
+   * Whether changes touch settings that are fixed when a context is created
+   */
+  needsRebuild(changes: EmulationChanges): boolean {
+    return CONTEXT_ONLY.some((key) =>
+      changes[key] !== undefined && JSON.stringify(changes[key] ?? undefined) !== JSON.stringify(this.settings[key])
+    );
+  }
+
+  /**
+   * Merge changes into the settings. Returns whether open contexts must be replaced.
+   */
+  update(changes: EmulationChanges): { rebuild: boolean } {
+    validateChanges(changes);
+
+    if ((changes.cpuThrottling && changes.cpuThrottling !== 1) || changes.network) {
+      if (this.browserName !== 'chromium') {
+        throw new Error(`CPU and network throttling use CDP and need Chromium (this session runs ${this.browserName})`);
+      }
+    }
+
+    const rebuild = this.needsRebuild(changes);
+    const next: Record<string, unknown> = { ...this.settings };
+
+    for (const [key, value] of Object.entries(changes) as Array<[keyof EmulationSettings, unknown]>) {
+      if (value === undefined) continue;
+      if (value === null) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+    }
+
+    // A device preset brings its own viewport; an explicit viewport given alongside still wins
+    if (changes.device && changes.viewport === undefined) {
+      delete next.viewport;
+    }
+    if (next.cpuThrottling === 1) {
+      delete next.cpuThrottling;
+    }
+
+    this.settings = next as EmulationSettings;
+    return { rebuild };
+  }
+
+  /**
+   * Put back settings from getSettings(), e.g. when the context rebuild they needed failed
+   */
+  restore(settings: EmulationSettings): void {
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Options for a new context: default viewport, then the configured contextOptions, then emulation
+   */
+  contextOptions(): BrowserContextOptions {
+    const { device, viewport, geolocation, locale, timezoneId, colorScheme, reducedMotion, offline } = this.settings;
+    const options: BrowserContextOptions = { viewport: DEFAULT_VIEWPORT, ...this.baseOptions };
+
+    if (device) {
+      const { defaultBrowserType: _browserType, ...descriptor } = devices[device];
+      Object.assign(options, descriptor);
+      // Firefox has no mobile mode
+      if (this.browserName === 'firefox') {
+        delete options.isMobile;
+      }
+    }
+    if (viewport) options.viewport = viewport;
+    if (locale) options.locale = locale;
+    if (timezoneId) options.timezoneId = timezoneId;
+    if (colorScheme) options.colorScheme = colorScheme;
+    if (reducedMotion) options.reducedMotion = reducedMotion;
+    if (offline) options.offline = true;
+    if (geolocation) {
+      options.geolocation = geolocation;
+      options.permissions = [...new Set([...(options.permissions ?? []), 'geolocation'])];
+    }
+
+    return options;
+  }
+
+  /**
+   * Apply runtime-changeable context settings (geolocation, offline) to an open context
+   */
+  async applyToContext(context: BrowserContext): Promise<void> {
+    const { geolocation, offline } = this.settings;
+
+    if (geolocation) {
+      await context.grantPermissions(['geolocation']);
+      await context.setGeolocation(geolocation);
+    } else {
+      await context.setGeolocation(null);
+    }
+    await context.setOffline(offline ?? false);
+  }
+
+  /**
+   * Apply page settings to a tab: viewport, media features and CDP throttling
+   */
+  async applyToPage(page: Page): Promise<void> {
+    const { viewport, colorScheme, reducedMotion, cpuThrottling, network, offline } = this.settings;
+
+    if (viewport) {
+      await page.setViewportSize(viewport);
+      this.resizedPages.add(page);
+    } else if (this.resizedPages.has(page)) {
+      await page.setViewportSize(this.contextOptions().viewport ?? DEFAULT_VIEWPORT);
+      this.resizedPages.delete(page);
+    }
+    // null resets the media feature to the context default
+    await page.emulateMedia({ colorScheme: colorScheme ?? null, reducedMotion: reducedMotion ?? null });
+
+    if (this.browserName !== 'chromium') {
+      return;
+    }
+
+    // Only talk CDP when throttling is or was in use
+    if (cpuThrottling || network || this.throttledPages.has(page)) {
+      const cdp = await getCDPSession(page);
+      await cdp.send('Emulation.setCPUThrottlingRate', { rate: cpuThrottling ?? 1 });
+      await cdp.send('Network.enable');
+      // Playwright's setOffline uses the same CDP call, so keep its offline flag
+      await cdp.send('Network.emulateNetworkConditions', {
+        offline: offline ?? false,
+        latency: network?.latencyMs ?? 0,
+        downloadThroughput: network ? (network.downloadKbps * 1000) / 8 : -1,
+        uploadThroughput: network ? (network.uploadKbps * 1000) / 8 : -1,
+      });
+      if (cpuThrottling || network) {
+        this.throttledPages.add(page);
+      } else {
+        this.throttledPages.delete(page);
+      }
+    }
+  }
+
+  /**
+   * One line per active setting
+   */
+  describe(): string {
+    const { device, viewport, geolocation, locale, timezoneId, colorScheme, reducedMotion, offline, cpuThrottling, network } = this.settings;
+    const lines: string[] = [];
+
+    if (device) {
+      const d = devices[device];
+      const traits = [`${d.viewport.width}x${d.viewport.height}`, `${d.deviceScaleFactor}x`, d.isMobile ? 'mobile' : '', d.hasTouch ? 'touch' : '']
+        .filter(Boolean)
+        .join(', ');
+      lines.push(`- device: ${device} (${traits})`);
+    }
+    lines.push(`- viewport: ${viewport ? `${viewport.width}x${viewport.height}` : device ? 'from device' : `${DEFAULT_VIEWPORT.width}x${DEFAULT_VIEWPORT.height} (default)`}`);
+    if (geolocation) lines.push(`- geolocation: ${geolocation.latitude}, ${geolocation.longitude}${geolocation.accuracy !== undefined ? ` (±${geolocation.accuracy}m)` : ''}`);
+    if (locale) lines.push(`- locale: ${locale}`);
+    if (timezoneId) lines.push(`- timezone: ${timezoneId}`);
+    if (colorScheme) lines.push(`- color scheme: ${colorScheme}`);
+    if (reducedMotion) lines.push(`- reduced motion: ${reducedMotion}`);
+    if (offline) lines.push('- offline');
+    if (cpuThrottling) lines.push(`- CPU: ${cpuThrottling}x slowdown`);
+    if (network) {
+      const preset = Object.entries(NETWORK_PRESETS).find(([, p]) => JSON.stringify(p) === JSON.stringify(network))?.[0];
+      lines.push(`- network: ${preset ? `${preset} ` : ''}(${network.downloadKbps} kbps down, ${network.uploadKbps} kbps up, ${network.latencyMs} ms latency)`);
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Schema-driven extraction of repeated items (cards, rows, list entries)
+ * Items come from ListDetector's SimHash grouping over the snapshot tree;
+ * each item's fields are read from its DOM element and validated with zod.
+ */
+
+import { z } from 'zod';
+import type { Locator } from 'playwright';
+import { ListDetector, type ListPattern } from './list-detector.js';
+import { UselessWrapperRemover } from './remove-useless-wrappers.js';
+import { SmartOutlineSimple } from './smart-outline.js';
+
+export type ExtractFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ExtractField {
+  type: ExtractFieldType;
+  description?: string;
+  selector?: string;       // CSS selector inside the item
+  attribute?: string;      // Read this attribute instead of text
+  pattern?: string;        // Regex applied to the raw value; first group wins
+  format?: string;         // "uri" reads the nearest link href
+}
+
+export interface ExtractSchema {
+  type?: 'object';
+  properties: Record<string, ExtractField>;
+  required?: string[];
+}
+
+export interface ExtractResult {
+  items: Record<string, unknown>[];
+  errors: string[];            // One line per item that failed validation
+}
+
+/**
+ * Find the repeated-item pattern with the most items in a snapshot
+ */
+export function findRepeatedItems(snapshot: string): ListPattern | null {
+  const detector = new ListDetector();
+  const roots = new UselessWrapperRemover().removeWrappers(new SmartOutlineSimple().parse(snapshot));
+
+  const lists = roots.length >= 3 ? detector.detectLists(roots) : [];
+  for (const root of roots) {
+    lists.push(...detector.detectNestedLists(root));
+  }
+
+  const withRefs = lists.filter((list) => list.refs.length === list.items.length);
+  withRefs.sort((a, b) => b.count - a.count || a.start - b.start);
+  return withRefs[0] ?? null;
+}
+
+/**
+ * Read raw field values from an item element (runs in the browser)
+ */
+function readFields(
+  root: Element,
+  fields: Array<{ key: string; type: string; selector?: string; attribute?: string; format?: string }>
+): Record<string, string | null> {
+  const text = (el: Element | null | undefined) => (el?.textContent ?? '').replace(/\s+/g, ' ').trim() || null;
+  const all = [root, ...Array.from(root.querySelectorAll('*'))];
+  const named = (key: string) => {
+    const needle = key.toLowerCase();
+    return all.find((el) => ['itemprop', 'name', 'data-field', 'data-testid', 'aria-label', 'class', 'id']
+      .some((attr) => (el.getAttribute(attr) ?? '').toLowerCase().includes(needle)));
+  };
+  const link = (el: Element | null | undefined) =>
+    (el?.closest('a[href]') ?? el?.querySelector('a[href]') ?? root.querySelector('a[href]')) as HTMLAnchorElement | null;
+
+  const result: Record<string, string | null> = {};
+
+  for (const field of fields) {
+    const key = field.key.toLowerCase();
+    const el = field.selector
+      ? (root.matches(field.selector) ? root : root.querySelector(field.selector))
+      : named(field.key);
+
+    if (field.attribute) {
+      result[field.key] = el?.getAttribute(field.attribute) ?? null;
+    } else if (field.format === 'uri' || /url|link|href/.test(key)) {
+      result[field.key] = link(el)?.href ?? null;
+    } else if (/image|img|photo|thumbnail/.test(key)) {
+      const img = (el?.tagName === 'IMG' ? el : (el ?? root).querySelector('img')) as HTMLImageElement | null;
+      result[field.key] = img?.currentSrc || img?.src || null;
+    } else if (field.type === 'boolean' && el && (el as HTMLInputElement).type === 'checkbox') {
+      result[field.key] = String((el as HTMLInputElement).checked);
+    } else if (el) {
+      result[field.key] = text(el);
+    } else if (/title|name|heading|headline/.test(key)) {
+      result[field.key] = text(root.querySelector('h1, h2, h3, h4, h5, h6') ?? root.querySelector('a[href]'));
+    } else if (field.type === 'number' || field.type === 'integer') {
+      // No dedicated element: numbers are picked out of the whole item text
+      result[field.key] = text(root);
+    } else {
+      result[field.key] = null;
+    }
+  }
+
+  return result;
+}
+
+const NUMBER = /-?\d[\d,]*(?:\.\d+)?/;
+
+/**
+ * Convert a raw string to the field type; numbers next to the field name win ("42 points")
+ */
+function coerce(raw: string | null, key: string, field: ExtractField): unknown {
+  if (raw !== null && field.pattern) {
+    const match = raw.match(new RegExp(field.pattern));
+    raw = match ? (match[1] ?? match[0]) : null;
+  }
+
+  if (raw === null) {
+    return field.type === 'boolean' ? false : null;
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      const word = key.replace(/s$/i, '').replace(/[^a-z]/gi, '');
+      const near = word
+        ? raw.match(new RegExp(`(${NUMBER.source})\\s*${word}`, 'i')) ?? raw.match(new RegExp(`${word}\\W*(${NUMBER.source})`, 'i'))
+        : null;
+      const value = (near?.[1] ?? raw.match(NUMBER)?.[0])?.replace(/,/g, '');
+      if (value === undefined) return null;
+      return field.type === 'integer' ? parseInt(value, 10) : parseFloat(value);
+    }
+    case 'boolean':
+      return raw !== '' && !/^(false|no|0|off)$/i.test(raw);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * zod validator for one item
+ */
+export function buildItemValidator(schema: ExtractSchema): z.ZodObject<Record<string, z.ZodTypeAny>> {
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, field] of Object.entries(schema.properties)) {
+    const base = field.type === 'string' ? z.string()
+      : field.type === 'number' ? z.number()
+      : field.type === 'integer' ? z.number().int()
+      : z.boolean();
+    shape[key] = required.has(key) ? base : base.nullable();
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Extract and validate one object per item locator
+ */
+export async function extractItems(items: Array<{ ref: string; locator: Locator }>, schema: ExtractSchema): Promise<ExtractResult> {
+  const validator = buildItemValidator(schema);
+  const fields = Object.entries(schema.properties).map(([key, field]) => ({
+    key,
+    type: field.type,
+    selector: field.selector,
+    attribute: field.attribute,
+    format: field.format,
+  }));
+
+  const result: ExtractResult = { items: [], errors: [] };
+
+  for (const { ref, locator } of items) {
+    let raw: Record<string, string | null>;
+    try {
+      raw = await locator.evaluate(readFields, fields, { timeout: 2000 });
+    } catch (error) {
+      result.errors.push(`${ref}: ${(error as Error).message.split('\n')[0]}`);
+      continue;
+    }
+
+    const candidate = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, field]) => [key, coerce(raw[key], key, field)])
+    );
+
+    const parsed = validator.safeParse(candidate);
+    if (parsed.success) {
+      result.items.push(parsed.data);
+    } else {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      result.errors.push(`${ref}: ${issues}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,504 @@
+/**
+ * Form understanding - detect fields from the snapshot, fill them in bulk, read validation errors
+ * Field candidates come from snapshot refs; each is described from its DOM element so labels,
+ * types, options and constraint state match what the page will submit.
+ */
+
+import path from 'node:path';
+import type { Locator } from 'playwright';
+import type { ScopedFS } from './scoped-fs.js';
+import { parseSnapshotRefs } from './ref-resolver.js';
+
+export type FormValue = string | number | boolean | string[];
+
+export interface FormOption {
+  label: string;
+  value: string;
+  selected: boolean;
+  ref?: string;              // Radio options are separate elements with their own refs
+}
+
+export interface FormField {
+  ref: string | null;        // null for hidden file inputs, which have no snapshot ref
+  label: string;
+  type: string;              // Input type, "select", "textarea", "radio" (group) or ARIA role
+  name: string;
+  required: boolean;
+  disabled: boolean;
+  multiple: boolean;
+  value: string | string[] | boolean;
+  options?: FormOption[];
+  form: number;              // Index in document.forms, -1 outside any form
+  locator: Locator;
+}
+
+export interface FormGroup {
+  index: number;
+  label: string;             // "login" (POST /session)
+  fields: FormField[];
+}
+
+export interface FillResult {
+  key: string;
+  field?: FormField;
+  value?: FormValue;
+  error?: string;
+}
+
+export interface ValidationError {
+  field?: FormField;
+  message: string;
+}
+
+interface RawControl {
+  type: string;
+  label: string;
+  name: string;
+  required: boolean;
+  disabled: boolean;
+  multiple: boolean;
+  value: string | string[] | boolean;
+  options?: Array<{ label: string; value: string; selected: boolean }>;
+  form: number;
+  formLabel: string;
+  group: string;             // Radio group caption (fieldset legend / radiogroup label)
+}
+
+// Snapshot roles that can be form fields; buttons are checked for <input type=file>
+const FIELD_ROLES = new Set([
+  'textbox', 'searchbox', 'combobox', 'listbox', 'checkbox', 'radio', 'spinbutton', 'slider', 'switch', 'button',
+]);
+
+// Candidates described per page - each costs a round trip
+const MAX_FIELD_CANDIDATES = 300;
+const DESCRIBE_TIMEOUT = 1000;
+const FILL_TIMEOUT = 5000;
+
+// Options listed per select before "+N more"
+const MAX_OPTIONS_SHOWN = 20;
+const MAX_PAGE_ERRORS = 10;
+
+const REF_KEY = /^(?:f\d+)?e\d+$/;
+
+/**
+ * Describe a form control (runs in the browser). Returns null for non-field elements.
+ */
+function describeControl(el: Element, role: string): RawControl | null {
+  const text = (node: Element | null | undefined) => (node?.textContent ?? '').replace(/\s+/g, ' ').trim();
+  const tag = el.tagName.toLowerCase();
+  const control = el as HTMLInputElement;
+
+  if (role === 'button' && !(tag === 'input' && control.type === 'file')) {
+    return null;
+  }
+
+  const labelledBy = (el.getAttribute('aria-labelledby') ?? '')
+    .split(/\s+/)
+    .map((id) => text(id ? el.ownerDocument.getElementById(id) : null))
+    .filter(Boolean)
+    .join(' ');
+  const label = Array.from(control.labels ?? []).map((l) => text(l)).filter(Boolean).join(' ') ||
+    el.getAttribute('aria-label') || labelledBy || el.getAttribute('placeholder') || el.getAttribute('title') || '';
+
+  const form = control.form ?? el.closest('form');
+  const formIndex = form ? Array.from(el.ownerDocument.forms).indexOf(form) : -1;
+  let formLabel = '';
+  if (form) {
+    const formName = form.getAttribute('aria-label') || form.getAttribute('name') || form.id;
+    const action = form.getAttribute('action');
+    const method = (form.getAttribute('method') || 'get').toUpperCase();
+    formLabel = [formName ? `"${formName}"` : '', action ? `(${method} ${action})` : ''].filter(Boolean).join(' ');
+  }
+
+  const base = {
+    label: label.replace(/\s*[*:]\s*$/, ''),
+    name: el.getAttribute('name') ?? '',
+    required: control.required === true || el.getAttribute('aria-required') === 'true',
+    disabled: control.disabled === true || el.getAttribute('aria-disabled') === 'true',
+    multiple: control.multiple === true,
+    form: formIndex,
+    formLabel,
+    group: '',
+  };
+
+  if (tag === 'select') {
+    const options = Array.from((el as HTMLSelectElement).options).map((o) => ({ label: text(o), value: o.value, selected: o.selected }));
+    const selected = options.filter((o) => o.selected).map((o) => o.label);
+    return { ...base, type: 'select', options, value: control.multiple ? selected : (selected[0] ?? '') };
+  }
+
+  if (tag === 'textarea') {
+    return { ...base, type: 'textarea', value: control.value };
+  }
+
+  if (tag === 'input') {
+    const type = control.type || 'text';
+    if (type === 'checkbox') return { ...base, type, value: control.checked };
+    if (type === 'radio') {
+      const group = el.closest('[role=radiogroup]')?.getAttribute('aria-label') ||
+        text(el.closest('fieldset')?.querySelector('legend')) || base.name;
+      return { ...base, type, group, value: control.checked };
+    }
+    if (type === 'file') return { ...base, type, value: Array.from(control.files ?? []).map((f) => f.name) };
+    if (type === 'password') return { ...base, type, value: control.value ? '********' : '' };
+    return { ...base, type, value: control.value };
+  }
+
+  // Custom widgets: ARIA state stands in for the value
+  const checked = el.getAttribute('aria-checked');
+  if (checked !== null) return { ...base, type: role, value: checked === 'true' };
+  const valueNow = el.getAttribute('aria-valuenow');
+  return { ...base, type: role, value: valueNow ?? ((el as HTMLElement).isContentEditable ? text(el) : el.getAttribute('aria-valuetext') ?? '') };
+}
+
+/**
+ * Collect the fields in a snapshot (optionally a scoped one), grouped by form.
+ * File inputs hidden behind custom upload buttons have no ref; they are found through the DOM.
+ */
+export async function collectFormFields(
+  snapshot: string,
+  locate: (ref: string) => Locator,
+  scope: Locator
+): Promise<FormGroup[]> {
+  const candidates = parseSnapshotRefs(snapshot)
+    .filter((r) => FIELD_ROLES.has(r.role))
+    .slice(0, MAX_FIELD_CANDIDATES);
+
+  const described: Array<{ raw: RawControl; ref: string | null; snapshotName: string; locator: Locator }> = [];
+
+  for (const { ref, role, name } of candidates) {
+    const locator = locate(ref);
+    const raw = await locator.evaluate(describeControl, role, { timeout: DESCRIBE_TIMEOUT }).catch(() => null);
+    if (raw) described.push({ raw, ref, snapshotName: name, locator });
+  }
+
+  const fileInputs = scope.locator('input[type=file]');
+  const hidden = await fileInputs.evaluateAll((els) => els.map((el) =>
+    !(el as HTMLElement).checkVisibility({ visibilityProperty: true }) || el.closest('[aria-hidden=true]') !== null
+  )).catch(() => [] as boolean[]);
+
+  for (let i = 0; i < hidden.length; i++) {
+    if (!hidden[i]) continue;
+    const locator = fileInputs.nth(i);
+    const raw = await locator.evaluate(describeControl, 'button', { timeout: DESCRIBE_TIMEOUT }).catch(() => null);
+    if (raw) described.push({ raw, ref: null, snapshotName: '', locator });
+  }
+
+  const groups = new Map<number, FormGroup>();
+  const radioGroups = new Map<string, FormField>();
+
+  for (const { raw, ref, snapshotName, locator } of described) {
+    let group = groups.get(raw.form);
+    if (!group) {
+      group = { index: raw.form, label: raw.formLabel, fields: [] };
+      groups.set(raw.form, group);
+    }
+
+    // The accessible name is what the agent reads in snapshots, so it wins over the DOM label
+    const label = snapshotName || raw.label || raw.name;
+
+    if (raw.type === 'radio' && raw.name) {
+      const key = `${raw.form}\u0000${raw.name}`;
+      let radio = radioGroups.get(key);
+      if (!radio) {
+        radio = { ...raw, ref, label: raw.group || raw.name, type: 'radio', value: '', options: [], locator };
+        radioGroups.set(key, radio);
+        group.fields.push(radio);
+      }
+      radio.required ||= raw.required;
+      radio.options!.push({ label, value: label, selected: raw.value === true, ref: ref ?? undefined });
+      if (raw.value === true) radio.value = label;
+      continue;
+    }
+
+    group.fields.push({ ...raw, ref, label, locator });
+  }
+
+  // Fields outside any form come last
+  return [...groups.values()].sort((a, b) => (a.index === -1 ? 1 : b.index === -1 ? -1 : a.index - b.index));
+}
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/\s*[*:]\s*$/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the field a key refers to: a ref, then exact label, then name attribute, then a unique partial label
+ */
+export function findField(fields: FormField[], key: string): { field?: FormField; option?: FormOption; error?: string } {
+  if (REF_KEY.test(key)) {
+    for (const field of fields) {
+      // A grouped radio's ref is its first option - match that through options below
+      if (field.ref === key && !(field.type === 'radio' && field.options)) return { field };
+      const option = field.options?.find((o) => o.ref === key);
+      if (option) return { field, option };
+    }
+    return { error: `No field with ref ${key}` };
+  }
+
+  const needle = normalizeLabel(key);
+  const exact = fields.filter((f) => normalizeLabel(f.label) === needle);
+  if (exact.length === 1) return { field: exact[0] };
+
+  const byName = fields.filter((f) => f.name.toLowerCase() === needle);
+  if (byName.length === 1) return { field: byName[0] };
+
+  const partial = exact.length > 1 ? exact : fields.filter((f) => normalizeLabel(f.label).includes(needle));
+  if (partial.length === 1) return { field: partial[0] };
+  if (partial.length > 1) {
+    return { error: `"${key}" matches ${partial.length} fields (${partial.slice(0, 5).map(fieldId).join(', ')}) - use a ref` };
+  }
+
+  return { error: `No field labelled "${key}"` };
+}
+
+function fieldId(field: FormField): string {
+  return field.ref ? `"${field.label}" [ref=${field.ref}]` : `"${field.label}"`;
+}
+
+function toBoolean(value: FormValue): boolean {
+  if (typeof value === 'string') return !/^(false|no|off|0|)$/i.test(value.trim());
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Native formats accepted by fill(); other parseable dates are converted
+const DATE_FORMATS: Record<string, { pattern: RegExp; format: (d: Date) => string }> = {
+  date: {
+    pattern: /^\d{4}-\d{2}-\d{2}$/,
+    format: (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+  },
+  'datetime-local': {
+    pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/,
+    format: (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`,
+  },
+  month: {
+    pattern: /^\d{4}-\d{2}$/,
+    format: (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`,
+  },
+};
+
+function normalizeDate(type: string, value: string): string {
+  const spec = DATE_FORMATS[type];
+  if (!spec || spec.pattern.test(value)) return value;
+
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`"${value}" is not a valid ${type} (expected e.g. ${spec.format(new Date(2024, 0, 31, 9, 30))})`);
+  }
+  return spec.format(parsed);
+}
+
+async function fillField(field: FormField, option: FormOption | undefined, value: FormValue, fs: ScopedFS, locate: (ref: string) => Locator): Promise<void> {
+  if (field.disabled) {
+    throw new Error('field is disabled');
+  }
+
+  const options = { timeout: FILL_TIMEOUT };
+
+  switch (field.type) {
+    case 'select': {
+      const wanted = Array.isArray(value) ? value.map(String) : [String(value)];
+      const known = field.options ?? [];
+      const missing = wanted.filter((w) => !known.some((o) => o.value === w || o.label === w));
+      if (missing.length > 0) {
+        const available = known.slice(0, MAX_OPTIONS_SHOWN).map((o) => `"${o.label}"`).join(', ');
+        throw new Error(`no option ${missing.map((m) => `"${m}"`).join(', ')} (options: ${available})`);
+      }
+      await field.locator.selectOption(wanted, options);
+      return;
+    }
+    case 'radio': {
+      // A radio without a name is its own group
+      if (!field.options) {
+        if (toBoolean(value)) await field.locator.check(options);
+        return;
+      }
+      const target = option ?? field.options?.find((o) => normalizeLabel(o.label) === normalizeLabel(String(value)));
+      if (!target?.ref) {
+        throw new Error(`no option "${value}" (options: ${field.options?.map((o) => `"${o.label}"`).join(', ')})`);
+      }
+      if (option && !toBoolean(value)) {
+        throw new Error('a radio button cannot be unchecked; choose another option');
+      }
+      await locate(target.ref).check(options);
+      return;
+    }
+    case 'checkbox':
+    case 'switch':
+    case 'menuitemcheckbox':
+      await field.locator.setChecked(toBoolean(value), options);
+      return;
+    case 'file': {
+      const files = (Array.isArray(value) ? value : [String(value)]).filter(Boolean);
+      for (const file of files) {
+        fs.statSync(file);
+      }
+      await field.locator.setInputFiles(files.map((file) => path.resolve(file)), options);
+      return;
+    }
+    default:
+      await field.locator.fill(normalizeDate(field.type, Array.isArray(value) ? value.join(', ') : String(value)), options);
+      // Many forms validate on blur
+      await field.locator.blur({ timeout: FILL_TIMEOUT }).catch(() => {});
+  }
+}
+
+/**
+ * Fill fields by label or ref. Each key is reported separately; one failure doesn't stop the rest.
+ * File paths are checked against the scoped file system before upload.
+ */
+export async function fillFormFields(
+  groups: FormGroup[],
+  values: Record<string, FormValue>,
+  fs: ScopedFS,
+  locate: (ref: string) => Locator
+): Promise<FillResult[]> {
+  const fields = groups.flatMap((g) => g.fields);
+  const results: FillResult[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const { field, option, error } = findField(fields, key);
+    if (!field) {
+      results.push({ key, value, error });
+      continue;
+    }
+
+    try {
+      await fillField(field, option, value, fs, locate);
+      results.push({ key, field, value });
+    } catch (e) {
+      results.push({ key, field, value, error: (e as Error).message.split('\n')[0] });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Validation problems currently on the page: native constraint violations, aria-invalid fields
+ * with their error text, and visible alert / error messages inside the scope
+ */
+export async function collectValidationErrors(groups: FormGroup[], scope: Locator): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const fieldMessages = new Set<string>();
+
+  for (const field of groups.flatMap((g) => g.fields)) {
+    const state = await field.locator.evaluate((el) => {
+      const control = el as HTMLInputElement;
+      const describedBy = [el.getAttribute('aria-errormessage'), el.getAttribute('aria-describedby')]
+        .join(' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((id) => el.ownerDocument.getElementById(id)?.textContent?.replace(/\s+/g, ' ').trim() ?? '')
+        .filter(Boolean)
+        .join(' ');
+      // validity is read without checkValidity() so no "invalid" events fire
+      const nativeInvalid = control.validity ? !control.validity.valid : false;
+      const ariaInvalid = el.getAttribute('aria-invalid') === 'true';
+      return {
+        invalid: nativeInvalid || ariaInvalid,
+        message: (ariaInvalid && describedBy) || control.validationMessage || describedBy || 'invalid',
+      };
+    }, undefined, { timeout: DESCRIBE_TIMEOUT }).catch(() => null);
+
+    if (state?.invalid) {
+      errors.push({ field, message: state.message });
+      fieldMessages.add(state.message);
+    }
+  }
+
+  const pageMessages = await scope.evaluate((root, limit) => {
+    const selectors = '[role=alert], [aria-live=assertive], .error, .errors, .invalid-feedback, .field-error, [class*="error-message"], [class*="errorMessage"]';
+    const seen = new Set<string>();
+    const messages: string[] = [];
+    for (const el of Array.from(root.querySelectorAll(selectors))) {
+      if (!(el as HTMLElement).checkVisibility({ visibilityProperty: true })) continue;
+      if (el.querySelector('input, select, textarea')) continue;
+      const message = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (!message || message.length > 300 || seen.has(message)) continue;
+      seen.add(message);
+      messages.push(message);
+      if (messages.length >= limit) break;
+    }
+    return messages;
+  }, MAX_PAGE_ERRORS, { timeout: DESCRIBE_TIMEOUT }).catch(() => [] as string[]);
+
+  for (const message of pageMessages) {
+    if (!fieldMessages.has(message)) errors.push({ message });
+  }
+
+  return errors;
+}
+
+function formatValue(field: FormField): string {
+  if (field.type === 'password' || typeof field.value === 'boolean') return String(field.value);
+  if (Array.isArray(field.value)) return field.value.length > 0 ? field.value.map((v) => `"${v}"`).join(', ') : '(none)';
+  return `"${field.value}"`;
+}
+
+function formatField(field: FormField): string {
+  const flags = [field.type, field.required ? 'required' : '', field.disabled ? 'disabled' : '', field.multiple ? 'multiple' : '']
+    .filter(Boolean)
+    .join(', ');
+  const ref = field.ref ? ` [ref=${field.ref}]` : ' (hidden)';
+
+  if (field.type === 'radio') {
+    const options = (field.options ?? [])
+      .map((o) => `${o.selected ? '(x)' : '( )'} ${o.label}${o.ref ? ` [ref=${o.ref}]` : ''}`)
+      .join(', ');
+    return `- "${field.label}" ${flags}: ${options}`;
+  }
+
+  let line = `- "${field.label}" ${flags}${ref} = ${formatValue(field)}`;
+  if (field.options && field.options.length > 0) {
+    const shown = field.options.slice(0, MAX_OPTIONS_SHOWN).map((o) => o.label || `(${o.value || 'empty'})`).join(' | ');
+    const more = field.options.length > MAX_OPTIONS_SHOWN ? ` (+${field.options.length - MAX_OPTIONS_SHOWN} more)` : '';
+    line += `\n  options: ${shown}${more}`;
+  }
+  return line;
+}
+
+/**
+ * Outline of the fields per form
+ */
+export function formatFormFields(groups: FormGroup[], title: string): string {
+  const fieldCount = groups.reduce((sum, g) => sum + g.fields.length, 0);
+  if (fieldCount === 0) {
+    return `### ${title}: no form fields found`;
+  }
+
+  const formCount = groups.filter((g) => g.index !== -1).length;
+  const lines = [`### ${title}: ${formCount} form${formCount === 1 ? '' : 's'}, ${fieldCount} fields`];
+
+  for (const group of groups) {
+    lines.push('', group.index === -1 ? 'Outside forms:' : `Form ${group.index + 1}${group.label ? ` ${group.label}` : ''}:`);
+    lines.push(...group.fields.map(formatField));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Report of a bulk fill followed by the validation errors found afterwards
+ */
+export function formatFillReport(results: FillResult[], errors: ValidationError[], note = ''): string {
+  const filled = results.filter((r) => !r.error).length;
+  const lines = [`### Filled ${filled} of ${results.length} fields${note}`];
+
+  for (const { key, field, value, error } of results) {
+    const target = field ? fieldId(field) : `"${key}"`;
+    const shown = field?.type === 'password' ? '********' : JSON.stringify(value);
+    lines.push(error ? `! ${target}: ${error}` : `- ${target} = ${shown}`);
+  }
+
+  if (errors.length > 0) {
+    lines.push('', `### Validation errors (${errors.length})`);
+    lines.push(...errors.map(({ field, message }) => field ? `- ${fieldId(field)}: ${message}` : `- ${message}`));
+  } else {
+    lines.push('', 'No validation errors shown');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,10 @@
+/**
+ * Human-readable byte sizes for tool output ("512 B", "1.5 KB", "2.3 MB").
+ * Negative values (size deltas) keep their sign.
+ */
+export function formatBytes(bytes: number): string {
+  const abs = Math.abs(bytes);
+  if (abs < 1024) return `${bytes} B`;
+  if (abs < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
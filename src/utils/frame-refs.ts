@@ -0,0 +1,85 @@
+/**
+ * Frame-qualified refs
+ * Snapshots inline iframe content with refs prefixed by frame ("f1e5"). This labels
+ * iframe boundaries with their URL and maps each prefix to its Frame so refs resolve
+ * inside the right frame.
+ */
+
+import type { Frame, Locator, Page } from 'playwright';
+
+export type FrameMap = Map<string, Frame>;
+
+const FRAME_REF = /^(f\d+)e\d+$/;
+const IFRAME_LINE = /^(\s*)- iframe\b(.*?)\[ref=([^\]]+)\]/;
+const FIRST_REF = /\[ref=([^\]]+)\]/;
+
+// URLs longer than this are cut to origin + path so outlines stay readable
+const MAX_URL_LENGTH = 80;
+
+/**
+ * Frame prefix of a ref ("f1" for "f1e5"), or null for main-frame refs
+ */
+export function framePrefix(ref: string): string | null {
+  return ref.match(FRAME_REF)?.[1] ?? null;
+}
+
+function shortUrl(url: string): string {
+  if (url.length <= MAX_URL_LENGTH) return url;
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`.slice(0, MAX_URL_LENGTH);
+  } catch {
+    return url.slice(0, MAX_URL_LENGTH);
+  }
+}
+
+/**
+ * Locator for a ref, scoped to its frame when the ref belongs to a known child frame
+ */
+export function locatorForRef(page: Page, ref: string, frames?: FrameMap): Locator {
+  const prefix = framePrefix(ref);
+  const frame = prefix ? frames?.get(prefix) : undefined;
+  const root = frame && !frame.isDetached() ? frame : page;
+  return root.locator(`aria-ref=${ref}`);
+}
+
+/**
+ * Add [url=...] to every iframe line and map child ref prefixes to their frames.
+ * Outer iframes come first in the snapshot, so nested frames resolve through their parents.
+ */
+export async function labelFrames(page: Page, snapshot: string): Promise<{ snapshot: string; frames: FrameMap }> {
+  const frames: FrameMap = new Map();
+  const lines = snapshot.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(IFRAME_LINE);
+    if (!match) continue;
+
+    const [, indent, , iframeRef] = match;
+    let frame: Frame | null = null;
+    try {
+      const handle = await locatorForRef(page, iframeRef, frames).elementHandle({ timeout: 1000 });
+      frame = (await handle?.contentFrame()) ?? null;
+      await handle?.dispose();
+    } catch {
+      // Detached while labelling - leave the line as is
+    }
+    if (!frame) continue;
+
+    lines[i] = lines[i].replace(`[ref=${iframeRef}]`, `[url=${shortUrl(frame.url())}] [ref=${iframeRef}]`);
+
+    // First ref inside the iframe tells us the prefix Playwright gave this frame
+    for (let j = i + 1; j < lines.length; j++) {
+      const lineIndent = lines[j].length - lines[j].trimStart().length;
+      if (lines[j].trim() && lineIndent <= indent.length) break;
+
+      const prefix = framePrefix(lines[j].match(FIRST_REF)?.[1] ?? '');
+      if (prefix) {
+        if (!frames.has(prefix)) frames.set(prefix, frame);
+        break;
+      }
+    }
+  }
+
+  return { snapshot: lines.join('\n'), frames };
+}
@@ -0,0 +1,280 @@
+/**
+ * HAR 1.2 export and replay for captured network traffic
+ * Export converts NetworkRequest records; replay serves HAR responses through page.route
+ */
+
+import type { Page, BrowserContext, Route, Request } from 'playwright';
+import type { NetworkRequest } from './network-capture.js';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: HarHeader[];
+    queryString: Array<{ name: string; value: string }>;
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  _resourceType?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarReplayOptions {
+  notFound?: 'abort' | 'fallback';   // Unmatched requests: fail them or let them hit the network
+  urlFilter?: string | RegExp;        // Only replay matching URLs
+}
+
+const CREATOR = { name: 'even-better-playwright-mcp', version: '0.1.0' };
+
+function toHarHeaders(headers: Record<string, string> | undefined): HarHeader[] {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }));
+}
+
+/**
+ * HAR timing phase from two Playwright resource-timing marks (-1 when unavailable)
+ */
+function phase(start: number | undefined, end: number | undefined): number {
+  if (start === undefined || end === undefined || start < 0 || end < 0) return -1;
+  return Math.max(0, end - start);
+}
+
+/**
+ * Bodies the capture replaced with a placeholder rather than real content
+ */
+function isPlaceholderBody(body: string | undefined): boolean {
+  return !!body && /^\[(Body too large|Error capturing body)/.test(body);
+}
+
+/**
+ * Whether replay can serve an entry: it has a body, or its response has none (204, 304, redirects).
+ * Entries whose body was not recorded are treated as missing, not served empty.
+ */
+function hasReplayableBody(entry: HarEntry): boolean {
+  const { status, content } = entry.response;
+  return content.text !== undefined || content.size === 0 || status === 204 || status === 304 || (status >= 300 && status < 400);
+}
+
+/**
+ * Convert captured requests to a HAR 1.2 document
+ */
+export function toHar(requests: NetworkRequest[]): Har {
+  const entries = requests.map((req): HarEntry => {
+    const url = new URL(req.url);
+    const timing = req.timing?.detail;
+    const body = req.responseBody;
+    const placeholder = isPlaceholderBody(body);
+    const base64 = req.responseBodyEncoding === 'base64';
+
+    const wait = phase(timing?.requestStart, timing?.responseStart);
+    const receive = phase(timing?.responseStart, timing?.responseEnd);
+
+    return {
+      startedDateTime: new Date(req.timestamp).toISOString(),
+      time: req.timing?.duration ?? 0,
+      request: {
+        method: req.method,
+        url: req.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(req.headers),
+        queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+        ...(req.postData !== undefined && {
+          postData: { mimeType: req.headers['content-type'] ?? 'application/octet-stream', text: req.postData },
+        }),
+        headersSize: -1,
+        bodySize: req.postData !== undefined ? Buffer.byteLength(req.postData) : 0,
+      },
+      response: {
+        status: req.status ?? 0,
+        statusText: req.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(req.responseHeaders),
+        content: {
+          size: body !== undefined && !placeholder ? Buffer.byteLength(body, base64 ? 'base64' : 'utf-8') : -1,
+          mimeType: req.mimeType ?? req.responseHeaders?.['content-type'] ?? '',
+          ...(body !== undefined && !placeholder && { text: body }),
+          ...(body !== undefined && !placeholder && base64 && { encoding: 'base64' }),
+          ...(placeholder && { comment: body }),
+        },
+        redirectURL: req.responseHeaders?.['location'] ?? '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: {
+        blocked: -1,
+        dns: phase(timing?.domainLookupStart, timing?.domainLookupEnd),
+        connect: phase(timing?.connectStart, timing?.connectEnd),
+        ssl: phase(timing?.secureConnectionStart, timing?.connectEnd),
+        send: 0,
+        wait: wait >= 0 ? wait : (req.timing?.duration ?? 0),
+        receive: receive >= 0 ? receive : 0,
+      },
+      _resourceType: req.resourceType,
+    };
+  });
+
+  return { log: { version: '1.2', creator: CREATOR, entries } };
+}
+
+/**
+ * Parse and minimally validate a HAR document
+ */
+export function parseHar(text: string): Har {
+  const har = JSON.parse(text) as Har;
+
+  if (!har?.log || !Array.isArray(har.log.entries)) {
+    throw new Error('Invalid HAR file: missing log.entries');
+  }
+
+  return har;
+}
+
+/**
+ * Serves HAR responses through route handlers for offline, deterministic runs.
+ * Entries are matched by method + URL (+ post data when recorded); repeated requests
+ * to the same URL get the recorded responses in order, then the last one repeats.
+ */
+export class HarReplayer {
+  private target: Page | BrowserContext | null = null;
+  private handler: ((route: Route, request: Request) => Promise<void>) | null = null;
+  private entries = new Map<string, HarEntry[]>();
+  private served = new Map<string, number>();
+  private stats = { hits: 0, misses: 0 };
+
+  private key(method: string, url: string, postData?: string | null): string {
+    return `${method.toUpperCase()} ${url}${postData ? `\n${postData}` : ''}`;
+  }
+
+  /**
+   * Start replaying a HAR on a page or whole context (replaces any running replay)
+   */
+  async start(target: Page | BrowserContext, har: Har, options: HarReplayOptions = {}): Promise<number> {
+    await this.stop();
+
+    const { notFound = 'abort', urlFilter } = options;
+    const matchesFilter = (url: string) =>
+      !urlFilter || (typeof urlFilter === 'string' ? url.includes(urlFilter) : urlFilter.test(url));
+
+    this.entries.clear();
+    this.served.clear();
+    this.stats = { hits: 0, misses: 0 };
+
+    for (const entry of har.log.entries) {
+      if (!matchesFilter(entry.request.url) || !entry.response.status || !hasReplayableBody(entry)) continue;
+
+      // Index under both the exact key (with body) and the body-less key as a fallback
+      for (const key of new Set([
+        this.key(entry.request.method, entry.request.url, entry.request.postData?.text),
+        this.key(entry.request.method, entry.request.url),
+      ])) {
+        const list = this.entries.get(key) ?? [];
+        list.push(entry);
+        this.entries.set(key, list);
+      }
+    }
+
+    this.handler = async (route: Route, request: Request) => {
+      if (!matchesFilter(request.url())) {
+        await route.fallback();
+        return;
+      }
+
+      const exactKey = this.key(request.method(), request.url(), request.postData());
+      const key = this.entries.has(exactKey) ? exactKey : this.key(request.method(), request.url());
+      const candidates = this.entries.get(key);
+
+      if (!candidates) {
+        this.stats.misses++;
+        if (notFound === 'abort') {
+          await route.abort('internetdisconnected');
+        } else {
+          await route.fallback();
+        }
+        return;
+      }
+
+      const index = this.served.get(key) ?? 0;
+      this.served.set(key, index + 1);
+      const entry = candidates[Math.min(index, candidates.length - 1)];
+      this.stats.hits++;
+
+      const { content } = entry.response;
+      const body = content.text === undefined
+        ? ''
+        : content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : content.text;
+
+      // Content-length/encoding from the original response no longer match the decoded body
+      const headers = Object.fromEntries(
+        entry.response.headers
+          .filter((h) => !['content-length', 'content-encoding', 'transfer-encoding'].includes(h.name.toLowerCase()))
+          .map((h) => [h.name, h.value])
+      );
+
+      await route.fulfill({ status: entry.response.status, headers, body });
+    };
+
+    await target.route('**/*', this.handler);
+    this.target = target;
+
+    return har.log.entries.length;
+  }
+
+  /**
+   * Stop replaying and let requests hit the network again
+   */
+  async stop(): Promise<void> {
+    if (this.target && this.handler) {
+      await this.target.unroute('**/*', this.handler).catch(() => {});
+    }
+    this.target = null;
+    this.handler = null;
+  }
+
+  isActive(): boolean {
+    return this.target !== null;
+  }
+
+  getStats(): { hits: number; misses: number; urls: number } {
+    return { ...this.stats, urls: this.entries.size };
+  }
+}
@@ -3,7 +3,14 @@
  * Simplified version that uses Playwright's locator inspector
  */
 
-import type { Locator, ElementHandle, Page } from 'playwright';
+import type { Locator, ElementHandle } from 'playwright';
+
+/**
+ * Escape a value for a single-quoted JS string
+ */
+export function quote(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+}
 
 /**
  * Get a human-readable locator string for an element
@@ -14,22 +21,14 @@ export async function getLocatorStringForElement(element: Locator | ElementHandl
     throw new Error('getLocatorStringForElement: element argument is required');
   }
 
-  let page: Page;
   let locator: Locator;
 
   // Handle both Locator and ElementHandle
   if ('page' in element && typeof element.page === 'function') {
-    page = element.page();
     locator = element as Locator;
   } else if ('evaluate' in element && typeof element.evaluate === 'function') {
     // ElementHandle
     const handle = element as ElementHandle;
-    const ownerPage = await handle.evaluateHandle(() => document)
-      .then((doc: any) => doc._page);
-    if (!ownerPage) {
-      throw new Error('Could not determine page from ElementHandle');
-    }
-    page = ownerPage;
 
     // Try to get locator info from the element
     const info = await handle.evaluate((el: Element) => {
@@ -46,22 +45,22 @@ export async function getLocatorStringForElement(element: Locator | ElementHandl
 
     // Generate a descriptive locator string
     if (info.testId) {
-      return `page.getByTestId('${info.testId}')`;
+      return `page.getByTestId('${quote(info.testId)}')`;
     }
     if (info.id) {
-      return `page.locator('#${info.id}')`;
+      return `page.locator('#${quote(info.id)}')`;
     }
     if (info.ariaLabel) {
-      return `page.getByLabel('${info.ariaLabel}')`;
+      return `page.getByLabel('${quote(info.ariaLabel)}')`;
     }
     if (info.placeholder) {
-      return `page.getByPlaceholder('${info.placeholder}')`;
+      return `page.getByPlaceholder('${quote(info.placeholder)}')`;
     }
     if (info.role && info.text) {
-      return `page.getByRole('${info.role}', { name: '${info.text}' })`;
+      return `page.getByRole('${quote(info.role)}', { name: '${quote(info.text)}' })`;
     }
     if (info.text) {
-      return `page.getByText('${info.text}')`;
+      return `page.getByText('${quote(info.text)}')`;
     }
     return `page.locator('${info.tag}')`;
   } else {
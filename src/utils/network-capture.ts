@@ -3,9 +3,12 @@
  * Captures network traffic via Playwright's request/response event listeners
  */
 
-import type { Page, Request, Response } from 'playwright';
+import type { Page, BrowserContext, Request, Response } from 'playwright';
+import { toHar, Har } from './har.js';
+import { parseRegexLiteral } from './route-manager.js';
 
 export interface NetworkRequest {
+  id: number;                   // Stable per-capture id (shown as #N in summaries)
   url: string;
   method: string;
   resourceType: string;
@@ -16,11 +19,17 @@ export interface NetworkRequest {
   statusText?: string;
   responseHeaders?: Record<string, string>;
   responseBody?: string;
+  responseBodyEncoding?: 'base64';  // Set for binary bodies (images, fonts, wasm)
   mimeType?: string;
+  state?: 'finished' | 'failed';  // Unset while in flight
+  failure?: string;             // requestfailed error text (net::ERR_..., aborted, ...)
+  redirectedFrom?: number;      // Id of the previous hop in a redirect chain
+  redirectedTo?: number;        // Id of the next hop in a redirect chain
   timing?: {
     startTime: number;
     responseTime?: number;
     duration?: number;
+    detail?: ReturnType<Request['timing']>;  // Browser resource timing (used for HAR phases)
   };
 }
 
@@ -28,8 +37,19 @@ export interface NetworkCaptureOptions {
   includeStatic?: boolean;      // Include images, CSS, JS, fonts
   captureResponseBody?: boolean; // Capture response body (increases memory)
   maxBodySize?: number;          // Max body size in bytes (default: 50KB)
+  maxRequests?: number;          // Ring buffer size; oldest requests are dropped (default: 1000)
 }
 
+export interface NetworkFilter {
+  urlPattern?: string;           // Substring, or regex literal like "/api\/v\d/i"
+  method?: string;
+  status?: string;               // "404", "4xx" or "400-499"
+  resourceType?: string[];       // document, xhr, fetch, script, ...
+  minDuration?: number;          // Only requests that took at least this many ms
+}
+
+const DEFAULT_DETAIL_LENGTH = 10000;
+
 const STATIC_RESOURCE_TYPES = new Set([
   'image',
   'stylesheet',
@@ -40,22 +60,31 @@ const STATIC_RESOURCE_TYPES = new Set([
 ]);
 
 export class NetworkCapture {
-  private requests: Map<string, NetworkRequest> = new Map();
-  private page: Page | null = null;
+  private requests: Map<number, NetworkRequest> = new Map();   // Insertion (= start) order, oldest first
+  private byRequest: WeakMap<Request, NetworkRequest> = new WeakMap();
+  private responses: Map<number, Response> = new Map();  // For fetching full bodies on demand
+  private nextId = 1;
+  private dropped = 0;                                   // Evicted by the ring buffer since last clear
+  private target: Page | BrowserContext | null = null;
   private options: Required<NetworkCaptureOptions> = {
     includeStatic: false,
     captureResponseBody: true,
     maxBodySize: 50 * 1024, // 50KB
+    maxRequests: 1000,
   };
-  private requestListener: ((request: Request) => void) | null = null;
-  private responseListener: ((response: Response) => void) | null = null;
+  private listeners: {
+    request: (request: Request) => void;
+    response: (response: Response) => Promise<void>;
+    requestfinished: (request: Request) => void;
+    requestfailed: (request: Request) => void;
+  } | null = null;
 
   /**
-   * Start capturing network requests for a page
+   * Start capturing network requests for a page, or for every tab and popup of a context
    */
-  start(page: Page, options?: NetworkCaptureOptions): void {
-    if (this.page === page) {
-      // Already capturing on this page
+  start(target: Page | BrowserContext, options?: NetworkCaptureOptions): void {
+    if (this.target === target) {
+      // Already capturing on this target
       return;
     }
 
@@ -68,132 +97,231 @@ export class NetworkCapture {
       ...options,
     };
 
-    this.page = page;
-    this.requests.clear();
+    this.target = target;
+    this.clear();
 
-    // Request listener
-    this.requestListener = (request: Request) => {
-      const resourceType = request.resourceType();
+    this.listeners = {
+      request: (request) => this.onRequest(request),
+      response: (response) => this.onResponse(response),
+      requestfinished: (request) => this.onSettled(request),
+      requestfailed: (request) => this.onSettled(request, request.failure()?.errorText ?? 'failed'),
+    };
 
-      // Skip static resources if not included
-      if (!this.options.includeStatic && STATIC_RESOURCE_TYPES.has(resourceType)) {
-        return;
-      }
+    this.attach(target);
+  }
+
+  /**
+   * Page and BrowserContext emit the same network events; context events cover every page
+   */
+  private attach(target: Page | BrowserContext): void {
+    const emitter = target as Page;
+    emitter.on('request', this.listeners!.request);
+    emitter.on('response', this.listeners!.response);
+    emitter.on('requestfinished', this.listeners!.requestfinished);
+    emitter.on('requestfailed', this.listeners!.requestfailed);
+  }
+
+  private detach(target: Page | BrowserContext): void {
+    const emitter = target as Page;
+    emitter.off('request', this.listeners!.request);
+    emitter.off('response', this.listeners!.response);
+    emitter.off('requestfinished', this.listeners!.requestfinished);
+    emitter.off('requestfailed', this.listeners!.requestfailed);
+  }
+
+  /**
+   * Stop capturing network requests
+   */
+  stop(): void {
+    if (this.target && this.listeners) {
+      this.detach(this.target);
+    }
+
+    this.target = null;
+    this.listeners = null;
+  }
+
+  /**
+   * Move a running capture to a replacement target (e.g. a recreated context), keeping its history
+   */
+  retarget(from: Page | BrowserContext, to: Page | BrowserContext): void {
+    if (this.target !== from || !this.listeners) return;
+
+    this.detach(from);
+    this.attach(to);
+    this.target = to;
+  }
 
-      const requestData: NetworkRequest = {
-        url: request.url(),
-        method: request.method(),
-        resourceType,
-        timestamp: Date.now(),
-        headers: request.headers(),
-        postData: request.postData() || undefined,
-        timing: {
-          startTime: Date.now(),
-        },
-      };
-
-      this.requests.set(request.url() + ':' + Date.now(), requestData);
+  /**
+   * Target the capture is listening on, or null when stopped
+   */
+  getTarget(): Page | BrowserContext | null {
+    return this.target;
+  }
+
+  /**
+   * Whether capture currently follows a whole context rather than a single page
+   */
+  isContextWide(): boolean {
+    return this.target !== null && !('mainFrame' in this.target);
+  }
+
+  private isSkipped(request: Request): boolean {
+    return !this.options.includeStatic && STATIC_RESOURCE_TYPES.has(request.resourceType());
+  }
+
+  private onRequest(request: Request): void {
+    // Skip static resources if not included
+    if (this.isSkipped(request)) {
+      return;
+    }
+
+    const now = Date.now();
+    const requestData: NetworkRequest = {
+      id: this.nextId++,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      timestamp: now,
+      headers: request.headers(),
+      postData: request.postData() || undefined,
+      timing: {
+        startTime: now,
+      },
     };
 
-    // Response listener
-    this.responseListener = async (response: Response) => {
-      const request = response.request();
-      const resourceType = request.resourceType();
+    // Each hop of a redirect chain is its own Request, linked to the previous hop
+    const previous = request.redirectedFrom();
+    const previousData = previous ? this.byRequest.get(previous) : undefined;
+    if (previousData) {
+      previousData.redirectedTo = requestData.id;
+      requestData.redirectedFrom = previousData.id;
+    }
 
-      // Skip static resources if not included
-      if (!this.options.includeStatic && STATIC_RESOURCE_TYPES.has(resourceType)) {
-        return;
-      }
+    this.byRequest.set(request, requestData);
+    this.requests.set(requestData.id, requestData);
+    this.evict();
+  }
 
-      // Find the matching request
-      const key = Array.from(this.requests.keys()).find((k) =>
-        k.startsWith(request.url() + ':')
-      );
+  private async onResponse(response: Response): Promise<void> {
+    const request = response.request();
+    const requestData = this.byRequest.get(request);
 
-      if (!key) {
-        return;
-      }
+    // Skipped, evicted, or issued before capture started
+    if (!requestData || !this.requests.has(requestData.id)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.responses.set(requestData.id, response);
+
+    // Update with response data
+    requestData.status = response.status();
+    requestData.statusText = response.statusText();
+    requestData.responseHeaders = response.headers();
 
-      const requestData = this.requests.get(key)!;
-      const now = Date.now();
+    if (requestData.timing) {
+      requestData.timing.responseTime = now;
+      requestData.timing.duration = now - requestData.timing.startTime;
+    }
+
+    // Redirect responses have no body
+    if (!this.options.captureResponseBody || request.redirectedTo()) {
+      return;
+    }
 
-      // Update with response data
-      requestData.status = response.status();
-      requestData.statusText = response.statusText();
-      requestData.responseHeaders = response.headers();
+    try {
+      const contentType = response.headers()['content-type'] || '';
+      requestData.mimeType = contentType;
 
-      if (requestData.timing) {
-        requestData.timing.responseTime = now;
-        requestData.timing.duration = now - requestData.timing.startTime;
+      // Skip downloading bodies (video, large files) that are known to be too large
+      const contentLength = Number(response.headers()['content-length']);
+      if (contentLength > this.options.maxBodySize) {
+        requestData.responseBody = `[Body too large: ${contentLength} bytes]`;
+        return;
       }
 
-      // Capture response body if enabled
-      if (this.options.captureResponseBody) {
-        try {
-          const contentType = response.headers()['content-type'] || '';
-          requestData.mimeType = contentType;
-
-          // Only capture text-based responses
-          if (
-            contentType.includes('json') ||
-            contentType.includes('text') ||
-            contentType.includes('xml') ||
-            contentType.includes('javascript') ||
-            contentType.includes('x-www-form-urlencoded')
-          ) {
-            const buffer = await response.body();
-            if (buffer.length <= this.options.maxBodySize) {
-              requestData.responseBody = buffer.toString('utf-8');
-            } else {
-              requestData.responseBody = `[Body too large: ${buffer.length} bytes]`;
-            }
-          }
-        } catch (error) {
-          // Some responses can't be captured (redirects, etc.)
-          requestData.responseBody = `[Error capturing body: ${error}]`;
-        }
+      // Text as is; binary bodies as base64, so HAR export and replay keep them intact
+      const buffer = await response.body();
+      if (buffer.length > this.options.maxBodySize) {
+        requestData.responseBody = `[Body too large: ${buffer.length} bytes]`;
+      } else if (isTextContentType(contentType)) {
+        requestData.responseBody = buffer.toString('utf-8');
+      } else {
+        requestData.responseBody = buffer.toString('base64');
+        requestData.responseBodyEncoding = 'base64';
       }
+    } catch (error) {
+      // Some responses can't be captured (aborted, evicted, etc.)
+      requestData.responseBody = `[Error capturing body: ${error}]`;
+    }
+  }
 
-      this.requests.set(key, requestData);
-    };
+  /**
+   * requestfinished / requestfailed: record final timing and any failure reason
+   */
+  private onSettled(request: Request, failure?: string): void {
+    const requestData = this.byRequest.get(request);
+    if (!requestData) {
+      return;
+    }
 
-    // Attach listeners
-    page.on('request', this.requestListener);
-    page.on('response', this.responseListener);
+    requestData.state = failure ? 'failed' : 'finished';
+    if (failure) {
+      requestData.failure = failure;
+    }
+
+    if (requestData.timing) {
+      requestData.timing.detail = request.timing();
+      if (requestData.timing.duration === undefined) {
+        requestData.timing.duration = Date.now() - requestData.timing.startTime;
+      }
+    }
   }
 
   /**
-   * Stop capturing network requests
+   * Drop the oldest requests beyond maxRequests
    */
-  stop(): void {
-    if (this.page && this.requestListener && this.responseListener) {
-      this.page.off('request', this.requestListener);
-      this.page.off('response', this.responseListener);
+  private evict(): void {
+    while (this.requests.size > this.options.maxRequests) {
+      const oldest = this.requests.keys().next().value as number;
+      this.requests.delete(oldest);
+      this.responses.delete(oldest);
+      this.dropped++;
     }
-
-    this.page = null;
-    this.requestListener = null;
-    this.responseListener = null;
   }
 
   /**
    * Get all captured requests
    */
-  getRequests(options?: { includeStatic?: boolean }): NetworkRequest[] {
-    const requests = Array.from(this.requests.values());
+  getRequests(options?: { includeStatic?: boolean; filter?: NetworkFilter }): NetworkRequest[] {
+    let requests = Array.from(this.requests.values());
 
     if (options?.includeStatic === false) {
-      return requests.filter(req => !STATIC_RESOURCE_TYPES.has(req.resourceType));
+      requests = requests.filter(req => !STATIC_RESOURCE_TYPES.has(req.resourceType));
+    }
+
+    if (options?.filter) {
+      requests = requests.filter(matchesFilter(options.filter));
     }
 
     return requests;
   }
 
+  /**
+   * Get a captured request by id
+   */
+  getRequest(id: number): NetworkRequest | undefined {
+    return this.requests.get(id);
+  }
+
   /**
    * Clear all captured requests
    */
   clear(): void {
     this.requests.clear();
+    this.responses.clear();
+    this.dropped = 0;
   }
 
   /**
@@ -203,28 +331,45 @@ export class NetworkCapture {
     return this.requests.size;
   }
 
+  /**
+   * Export captured requests as a HAR 1.2 document
+   */
+  exportHar(options?: { includeStatic?: boolean }): Har {
+    return toHar(this.getRequests(options));
+  }
+
   /**
    * Get compact summary of requests (for token efficiency)
    */
-  getSummary(options?: { includeStatic?: boolean; limit?: number }): string {
-    const requests = this.getRequests({ includeStatic: options?.includeStatic });
+  getSummary(options?: { includeStatic?: boolean; limit?: number; filter?: NetworkFilter }): string {
+    const requests = this.getRequests({ includeStatic: options?.includeStatic, filter: options?.filter });
     const limit = options?.limit || 50;
     const limitedRequests = requests.slice(-limit); // Get most recent
 
     if (limitedRequests.length === 0) {
-      return 'No network requests captured.';
+      const filtered = Object.values(options?.filter ?? {}).some((value) => value !== undefined);
+      return this.requests.size > 0 && filtered
+        ? `No captured requests match the filter (${this.requests.size} captured).`
+        : 'No network requests captured.';
     }
 
-    let summary = `Network Requests (${requests.length} total, showing last ${limitedRequests.length}):\n\n`;
+    const scope = this.isContextWide() ? ', all tabs' : '';
+    const dropped = this.dropped > 0 ? `, ${this.dropped} older dropped` : '';
+    let summary = `Network Requests (${requests.length} total, showing last ${limitedRequests.length}${scope}${dropped}):\n\n`;
 
     for (const req of limitedRequests) {
-      const status = req.status ? ` [${req.status}]` : ' [pending]';
+      const status = req.failure
+        ? ` [failed: ${req.failure}]`
+        : req.status ? ` [${req.status}]` : ' [pending]';
+      const redirect = req.redirectedTo !== undefined ? ` -> #${req.redirectedTo}` : '';
       const duration = req.timing?.duration ? ` (${req.timing.duration}ms)` : '';
-      const bodyPreview = req.responseBody
-        ? ` - ${req.responseBody.substring(0, 100)}${req.responseBody.length > 100 ? '...' : ''}`
-        : '';
+      const bodyPreview = !req.responseBody
+        ? ''
+        : req.responseBodyEncoding === 'base64'
+          ? ` - [Binary body: ${Buffer.byteLength(req.responseBody, 'base64')} bytes]`
+          : ` - ${req.responseBody.substring(0, 100)}${req.responseBody.length > 100 ? '...' : ''}`;
 
-      summary += `${req.method} ${req.url}${status}${duration}\n`;
+      summary += `#${req.id} ${req.method} ${req.url}${status}${duration}${redirect}\n`;
       if (req.postData) {
         summary += `  POST: ${req.postData.substring(0, 100)}${req.postData.length > 100 ? '...' : ''}\n`;
       }
@@ -236,4 +381,160 @@ export class NetworkCapture {
 
     return summary;
   }
+
+  /**
+   * Full headers and a page of the body for one request.
+   * Bodies that were truncated or skipped at capture time are re-read from the response.
+   */
+  async getDetail(id: number, options?: { offset?: number; maxLength?: number }): Promise<string> {
+    const req = this.getRequest(id);
+
+    if (!req) {
+      throw new Error(`Request #${id} not found. It may have been cleared - list requests again for current ids.`);
+    }
+
+    const offset = options?.offset ?? 0;
+    const maxLength = options?.maxLength ?? DEFAULT_DETAIL_LENGTH;
+    const formatHeaders = (headers: Record<string, string> | undefined) =>
+      Object.entries(headers ?? {}).map(([name, value]) => `  ${name}: ${value}`).join('\n') || '  (none)';
+
+    let detail = `#${req.id} ${req.method} ${req.url}\n`;
+    detail += `Type: ${req.resourceType}  Status: ${req.status ?? 'pending'} ${req.statusText ?? ''}`;
+    detail += req.timing?.duration !== undefined ? `  Duration: ${req.timing.duration}ms\n` : '\n';
+
+    if (req.failure) {
+      detail += `Failed: ${req.failure}\n`;
+    }
+
+    const chain = this.getRedirectChain(req);
+    if (chain.length > 1) {
+      detail += `Redirect chain: ${chain.map((hop) => `#${hop.id} ${hop.status ?? '?'} ${hop.url}`).join(' -> ')}\n`;
+    }
+    detail += `\nRequest headers:\n${formatHeaders(req.headers)}\n`;
+
+    if (req.postData) {
+      detail += `\nRequest body:\n${req.postData}\n`;
+    }
+
+    if (req.status === undefined) {
+      return detail;
+    }
+
+    detail += `\nResponse headers:\n${formatHeaders(req.responseHeaders)}\n`;
+
+    const body = await this.getFullBody(req);
+    if (body === null) {
+      return detail + `\nResponse body: (not available)\n`;
+    }
+
+    const page = body.slice(offset, offset + maxLength);
+    const end = offset + page.length;
+    detail += `\nResponse body (chars ${offset}-${end} of ${body.length}):\n${page}\n`;
+
+    if (end < body.length) {
+      detail += `\n[More: call again with offset: ${end}]\n`;
+    }
+
+    return detail;
+  }
+
+  /**
+   * All hops of the redirect chain a request belongs to, first hop first
+   */
+  getRedirectChain(req: NetworkRequest): NetworkRequest[] {
+    let first = req;
+    while (first.redirectedFrom !== undefined && this.requests.has(first.redirectedFrom)) {
+      first = this.requests.get(first.redirectedFrom)!;
+    }
+
+    const chain = [first];
+    let hop = first;
+    while (hop.redirectedTo !== undefined && this.requests.has(hop.redirectedTo)) {
+      hop = this.requests.get(hop.redirectedTo)!;
+      chain.push(hop);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Body as text, preferring the live response over capture-time placeholders
+   */
+  private async getFullBody(req: NetworkRequest): Promise<string | null> {
+    const captured = req.responseBody;
+    const contentType = req.responseHeaders?.['content-type'] ?? '';
+    if (captured !== undefined && req.responseBodyEncoding === 'base64') {
+      return `[Binary body: ${Buffer.byteLength(captured, 'base64')} bytes${contentType ? `, ${contentType}` : ''}]`;
+    }
+    if (captured !== undefined && !captured.startsWith('[Body too large') && !captured.startsWith('[Error capturing body')) {
+      return captured;
+    }
+
+    const response = this.responses.get(req.id);
+    if (!response) {
+      return captured ?? null;
+    }
+
+    try {
+      const buffer = await response.body();
+      if (isTextContentType(contentType)) {
+        return buffer.toString('utf-8');
+      }
+      return `[Binary body: ${buffer.length} bytes${contentType ? `, ${contentType}` : ''}]`;
+    } catch {
+      // Body was evicted (e.g. after navigation)
+      return captured ?? null;
+    }
+  }
+}
+
+function isTextContentType(contentType: string): boolean {
+  return /json|text|xml|javascript|x-www-form-urlencoded/.test(contentType);
+}
+
+/**
+ * Parse a status filter ("404", "4xx", "400-499") into an inclusive range
+ */
+function parseStatusRange(status: string): [number, number] {
+  const trimmed = status.trim().toLowerCase();
+
+  const classMatch = trimmed.match(/^([1-5])xx$/);
+  if (classMatch) {
+    const base = Number(classMatch[1]) * 100;
+    return [base, base + 99];
+  }
+
+  const rangeMatch = trimmed.match(/^(\d{3})\s*-\s*(\d{3})$/);
+  if (rangeMatch) {
+    return [Number(rangeMatch[1]), Number(rangeMatch[2])];
+  }
+
+  if (/^\d{3}$/.test(trimmed)) {
+    return [Number(trimmed), Number(trimmed)];
+  }
+
+  throw new Error(`Invalid status filter "${status}". Use "404", "4xx" or "400-499".`);
+}
+
+/**
+ * Build a predicate for a request filter
+ */
+function matchesFilter(filter: NetworkFilter): (req: NetworkRequest) => boolean {
+  const urlRegex = filter.urlPattern ? parseRegexLiteral(filter.urlPattern) : null;
+  const statusRange = filter.status ? parseStatusRange(filter.status) : null;
+  const types = filter.resourceType?.map((t) => t.toLowerCase());
+
+  return (req) => {
+    if (filter.urlPattern) {
+      const urlMatches = urlRegex ? urlRegex.test(req.url) : req.url.includes(filter.urlPattern);
+      if (!urlMatches) return false;
+    }
+    if (filter.method && req.method !== filter.method.toUpperCase()) return false;
+    if (statusRange && (req.status === undefined || req.status < statusRange[0] || req.status > statusRange[1])) {
+      return false;
+    }
+    if (types && !types.includes(req.resourceType)) return false;
+    if (filter.minDuration !== undefined && (req.timing?.duration ?? -1) < filter.minDuration) return false;
+    return true;
+  };
 }
@@ -0,0 +1,86 @@
+/**
+ * Page actions recorded by measuring tools (profile, coverage): navigate, reload or run a snippet,
+ * then keep the page running for a while. Failures are reported instead of thrown, so the
+ * recording can still be stopped and summarised.
+ */
+
+import type { BrowserContext, Page } from 'playwright';
+import type { BrowserManager } from '../browser.js';
+import { executeInVM, formatVMResult } from '../vm-context.js';
+import { waitForPageLoad } from './wait-for-page-load.js';
+
+export interface PageAction {
+  url?: string;
+  reload?: boolean;
+  code?: string;                       // Playwright code, same scope as browser_execute
+  duration?: number;                   // Keep running after the action (ms)
+  timeout?: number;
+}
+
+export interface PageActionResult {
+  label: string;                       // "navigation to https://...", "reload of ...", "code snippet"
+  output: string;                      // Console output / return value of code, or the error
+  failed: boolean;
+}
+
+const MAX_OUTPUT_LENGTH = 1500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Error message if more than one of url, reload and code is given
+ */
+export function validatePageAction(action: PageAction): string | null {
+  const count = [action.url !== undefined, action.reload === true, action.code !== undefined].filter(Boolean).length;
+  return count > 1 ? 'Give only one of url, reload or code' : null;
+}
+
+/**
+ * Whether the action does anything besides waiting
+ */
+export function hasPageAction(action: PageAction): boolean {
+  return action.url !== undefined || action.reload === true || action.code !== undefined;
+}
+
+export async function runPageAction(
+  browserManager: BrowserManager,
+  page: Page,
+  context: BrowserContext,
+  action: PageAction
+): Promise<PageActionResult> {
+  const { url, reload, code, duration = 0, timeout = 30000 } = action;
+  let label = `${duration}ms on ${page.url()}`;
+  let output = '';
+  let failed = false;
+
+  try {
+    if (url !== undefined) {
+      label = `navigation to ${url}`;
+      await page.goto(url, { waitUntil: 'load', timeout });
+      await waitForPageLoad({ page, timeout });
+    } else if (reload) {
+      label = `reload of ${page.url()}`;
+      await page.reload({ waitUntil: 'load', timeout });
+      await waitForPageLoad({ page, timeout });
+    } else if (code !== undefined) {
+      label = 'code snippet';
+      const run = await executeInVM(code, { page, context, browserManager, timeout });
+      output = formatVMResult(run).trim();
+      failed = !!run.error;
+    }
+    if (!failed) {
+      await sleep(duration);
+    }
+  } catch (error) {
+    // A failed navigation is often what is being measured
+    output = `Error: ${(error as Error).message.split('\n')[0]}`;
+    failed = true;
+  }
+
+  if (output.length > MAX_OUTPUT_LENGTH) {
+    output = `${output.slice(0, MAX_OUTPUT_LENGTH)}\n[Truncated]`;
+  }
+  return { label, output, failed };
+}
@@ -0,0 +1,317 @@
+/**
+ * Page event broker for even-better-playwright-mcp
+ * Handles dialogs by policy (or queues them), saves downloads into a managed directory and
+ * captures file choosers, so none of them block the agent or get lost between tool calls.
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import type { Dialog, Download, FileChooser, Page } from 'playwright';
+import { createScopedFS, ScopedFS } from './scoped-fs.js';
+
+export type DialogPolicy = 'accept' | 'dismiss' | 'queue';
+
+export interface DialogEvent {
+  id: string;
+  type: string;                       // alert, confirm, prompt, beforeunload
+  message: string;
+  defaultValue: string;
+  url: string;
+  time: number;
+  status: 'pending' | 'accepted' | 'dismissed' | 'external';
+  promptText?: string;
+}
+
+export interface DownloadEvent {
+  id: string;
+  url: string;
+  suggestedFilename: string;
+  time: number;
+  status: 'in-progress' | 'completed' | 'failed';
+  path?: string;
+  size?: number;
+  error?: string;
+}
+
+export interface FileChooserEvent {
+  id: string;
+  url: string;
+  multiple: boolean;
+  time: number;
+  status: 'pending' | 'uploaded' | 'expired';
+  files?: string[];
+}
+
+export const DEFAULT_DOWNLOADS_DIR = path.join(os.tmpdir(), 'even-better-playwright-mcp', 'downloads');
+
+// Handled events kept per kind; pending ones are never dropped
+const MAX_HISTORY = 50;
+
+/**
+ * "report.pdf" -> "report (1).pdf", "report (2).pdf", ... until the name is free
+ */
+function uniquePath(fs: ScopedFS, dir: string, filename: string): string {
+  const safe = path.basename(filename).replace(/[\u0000-\u001f<>:"|?*]/g, '_') || 'download';
+  const ext = path.extname(safe);
+  const stem = safe.slice(0, safe.length - ext.length);
+
+  let candidate = path.join(dir, safe);
+  for (let n = 1; fs.existsSync(candidate); n++) {
+    candidate = path.join(dir, `${stem} (${n})${ext}`);
+  }
+  return candidate;
+}
+
+function trimHistory<T extends { status: string }>(events: T[], isPending: (event: T) => boolean): T[] {
+  const overflow = events.filter((e) => !isPending(e)).length - MAX_HISTORY;
+  if (overflow <= 0) return events;
+
+  let dropped = 0;
+  return events.filter((e) => isPending(e) || dropped++ >= overflow);
+}
+
+export class PageEventBroker {
+  private dialogs: DialogEvent[] = [];
+  private downloads: DownloadEvent[] = [];
+  private fileChoosers: FileChooserEvent[] = [];
+  private pendingDialogs = new Map<string, Dialog>();
+  private pendingChoosers = new Map<string, FileChooser>();
+  private pages = new WeakSet<Page>();
+  private policy: DialogPolicy = 'accept';
+  private promptText: string | undefined;
+  private downloadsDir: string;
+  private nextId = 1;
+  private fs: ScopedFS;
+
+  constructor(downloadsDir = DEFAULT_DOWNLOADS_DIR, fs?: ScopedFS) {
+    this.downloadsDir = path.resolve(downloadsDir);
+    // The downloads directory comes from the server config, so it is trusted even outside the defaults
+    this.fs = fs ?? createScopedFS([process.cwd(), '/tmp', os.tmpdir(), this.downloadsDir]);
+  }
+
+  /**
+   * Listen for dialogs, downloads and file choosers on a page. Called for every tab.
+   */
+  attachPage(page: Page): void {
+    if (this.pages.has(page)) {
+      return;
+    }
+    this.pages.add(page);
+
+    page.on('dialog', (dialog) => this.onDialog(page, dialog));
+    page.on('download', (download) => { void this.onDownload(download); });
+    page.on('filechooser', (chooser) => this.onFileChooser(chooser));
+
+    page.on('close', () => {
+      for (const event of this.fileChoosers) {
+        if (event.status === 'pending' && this.pendingChoosers.get(event.id)?.page() === page) {
+          event.status = 'expired';
+          this.pendingChoosers.delete(event.id);
+        }
+      }
+      for (const event of this.dialogs) {
+        if (event.status === 'pending' && this.pendingDialogs.get(event.id)?.page() === page) {
+          event.status = 'dismissed';
+          this.pendingDialogs.delete(event.id);
+        }
+      }
+    });
+  }
+
+  private onDialog(page: Page, dialog: Dialog): void {
+    const event: DialogEvent = {
+      id: `dialog-${this.nextId++}`,
+      type: dialog.type(),
+      message: dialog.message(),
+      defaultValue: dialog.defaultValue(),
+      url: page.url(),
+      time: Date.now(),
+      status: 'pending',
+    };
+    this.dialogs.push(event);
+    this.dialogs = trimHistory(this.dialogs, (e) => e.status === 'pending');
+
+    // A page.on('dialog') handler from browser_execute owns the dialog; handling it twice throws.
+    // Page is an EventEmitter at runtime, but its typings only declare on/off/once.
+    if ((page as unknown as NodeJS.EventEmitter).listenerCount('dialog') > 1) {
+      event.status = 'external';
+      return;
+    }
+
+    if (this.policy === 'queue') {
+      this.pendingDialogs.set(event.id, dialog);
+      return;
+    }
+
+    void this.settleDialog(event, dialog, this.policy === 'accept', this.promptText);
+  }
+
+  private async settleDialog(event: DialogEvent, dialog: Dialog, accept: boolean, promptText?: string): Promise<void> {
+    this.pendingDialogs.delete(event.id);
+    event.status = accept ? 'accepted' : 'dismissed';
+    if (accept && event.type === 'prompt') {
+      event.promptText = promptText ?? event.defaultValue;
+    }
+
+    try {
+      if (accept) {
+        await dialog.accept(event.promptText);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // Page closed or dialog already handled elsewhere
+    }
+  }
+
+  private async onDownload(download: Download): Promise<void> {
+    const event: DownloadEvent = {
+      id: `download-${this.nextId++}`,
+      url: download.url(),
+      suggestedFilename: download.suggestedFilename(),
+      time: Date.now(),
+      status: 'in-progress',
+    };
+    this.downloads.push(event);
+    this.downloads = trimHistory(this.downloads, (e) => e.status === 'in-progress');
+
+    try {
+      this.fs.mkdirSync(this.downloadsDir, { recursive: true });
+      const target = uniquePath(this.fs, this.downloadsDir, event.suggestedFilename);
+      // Reserve the name so concurrent downloads of the same file don't collide
+      this.fs.writeFileSync(target, '');
+      event.path = target;
+
+      await download.saveAs(target);
+      event.size = this.fs.statSync(target).size;
+      event.status = 'completed';
+    } catch (error) {
+      event.status = 'failed';
+      event.error = (await download.failure().catch(() => null)) ?? (error as Error).message.split('\n')[0];
+      if (event.path) {
+        try { this.fs.unlinkSync(event.path); } catch { /* already gone */ }
+        event.path = undefined;
+      }
+    }
+  }
+
+  private onFileChooser(chooser: FileChooser): void {
+    // A newer chooser on the same page replaces the unanswered one
+    for (const event of this.fileChoosers) {
+      if (event.status === 'pending' && this.pendingChoosers.get(event.id)?.page() === chooser.page()) {
+        event.status = 'expired';
+        this.pendingChoosers.delete(event.id);
+      }
+    }
+
+    const event: FileChooserEvent = {
+      id: `chooser-${this.nextId++}`,
+      url: chooser.page().url(),
+      multiple: chooser.isMultiple(),
+      time: Date.now(),
+      status: 'pending',
+    };
+    this.fileChoosers.push(event);
+    this.fileChoosers = trimHistory(this.fileChoosers, (e) => e.status === 'pending');
+    this.pendingChoosers.set(event.id, chooser);
+  }
+
+  /**
+   * Set how new dialogs are handled. promptText answers prompt() when accepting.
+   */
+  setDialogPolicy(policy: DialogPolicy, promptText?: string): void {
+    this.policy = policy;
+    this.promptText = promptText;
+  }
+
+  getDialogPolicy(): { policy: DialogPolicy; promptText?: string } {
+    return { policy: this.policy, promptText: this.promptText };
+  }
+
+  getDownloadsDir(): string {
+    return this.downloadsDir;
+  }
+
+  getDialogs(): DialogEvent[] {
+    return [...this.dialogs];
+  }
+
+  getDownloads(): DownloadEvent[] {
+    return [...this.downloads];
+  }
+
+  getFileChoosers(): FileChooserEvent[] {
+    return [...this.fileChoosers];
+  }
+
+  /**
+   * Accept or dismiss a queued dialog (defaults to the oldest)
+   */
+  async handleDialog(accept: boolean, options: { id?: string; promptText?: string } = {}): Promise<DialogEvent> {
+    const event = options.id
+      ? this.dialogs.find((e) => e.id === options.id)
+      : this.dialogs.find((e) => e.status === 'pending');
+
+    if (!event) {
+      throw new Error(options.id ? `Dialog ${options.id} not found` : 'No pending dialogs');
+    }
+    const dialog = this.pendingDialogs.get(event.id);
+    if (event.status !== 'pending' || !dialog) {
+      throw new Error(`Dialog ${event.id} is already ${event.status}`);
+    }
+
+    await this.settleDialog(event, dialog, accept, options.promptText);
+    return event;
+  }
+
+  /**
+   * Answer a captured file chooser (defaults to the newest) with files from the scoped file system
+   */
+  async uploadFiles(files: string[], id?: string): Promise<FileChooserEvent> {
+    const pending = this.fileChoosers.filter((e) => e.status === 'pending');
+    const event = id ? this.fileChoosers.find((e) => e.id === id) : pending[pending.length - 1];
+
+    if (!event) {
+      throw new Error(id ? `File chooser ${id} not found` : 'No pending file choosers - click the upload control first');
+    }
+    const chooser = this.pendingChoosers.get(event.id);
+    if (event.status !== 'pending' || !chooser) {
+      throw new Error(`File chooser ${event.id} is already ${event.status}`);
+    }
+    if (files.length > 1 && !event.multiple) {
+      throw new Error(`File chooser ${event.id} accepts a single file`);
+    }
+
+    const resolved = files.map((file) => {
+      this.fs.statSync(file);
+      return path.resolve(file);
+    });
+    await chooser.setFiles(resolved);
+
+    this.pendingChoosers.delete(event.id);
+    event.status = 'uploaded';
+    event.files = resolved;
+    return event;
+  }
+
+  /**
+   * Forget handled events; pending dialogs and choosers stay actionable
+   */
+  clearHistory(): void {
+    this.dialogs = this.dialogs.filter((e) => e.status === 'pending');
+    this.downloads = this.downloads.filter((e) => e.status === 'in-progress');
+    this.fileChoosers = this.fileChoosers.filter((e) => e.status === 'pending');
+  }
+
+  /**
+   * Drop pending events after the browser closes. Downloaded files stay on disk.
+   */
+  reset(): void {
+    this.pendingDialogs.clear();
+    this.pendingChoosers.clear();
+    this.pages = new WeakSet();
+    this.clearHistory();
+    this.dialogs = [];
+    this.fileChoosers = [];
+  }
+}
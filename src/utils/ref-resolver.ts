@@ -0,0 +1,314 @@
+/**
+ * Navigation-surviving element refs
+ * Records a fingerprint per aria ref and re-resolves stale refs to the same logical element
+ */
+
+import type { Page, Frame, Locator } from 'playwright';
+import { getLocatorStringForElement } from './locator-string.js';
+import { framePrefix, locatorForRef, type FrameMap } from './frame-refs.js';
+
+export interface RefFingerprint {
+  ref: string;
+  role: string;
+  name: string;
+  nth: number;                 // Occurrence index among same role+name in the snapshot
+  generation: number;          // Page navigation generation the ref was captured in
+  locatorString?: string;      // getLocatorStringForElement output (captured for interactive refs)
+  domPath?: string;            // CSS path from <html>
+}
+
+export type RefStrategy =
+  | 'aria-ref'
+  | 'dom-path+role'
+  | 'role+name'
+  | 'role+name+position'
+  | 'role+partial-name'
+  | 'dom-path';
+
+export interface ResolvedRef {
+  ref: string;
+  locator: Locator;
+  strategy: RefStrategy;
+  confidence: number;          // 0-1, 1 means the original aria-ref is still valid
+  stale: boolean;              // True if the page navigated since the ref was captured
+}
+
+const MAX_DETAIL_CAPTURES = 100;
+
+const REF_LINE_PATTERN = /^\s*-\s*([a-z]+)(?:\s+"((?:[^"\\]|\\.)*)")?.*?\[ref=([^\]]+)\]/;
+
+/**
+ * Parse role, name and ref from every snapshot line that carries a ref
+ */
+export function parseSnapshotRefs(snapshot: string): Array<{ ref: string; role: string; name: string; nth: number }> {
+  const result: Array<{ ref: string; role: string; name: string; nth: number }> = [];
+  const occurrences = new Map<string, number>();
+
+  for (const line of snapshot.split('\n')) {
+    const match = line.match(REF_LINE_PATTERN);
+    if (!match) continue;
+
+    const [, role, rawName = '', ref] = match;
+    const name = rawName.replace(/\\(.)/g, '$1');
+    const key = `${role}\u0000${name}`;
+    const nth = occurrences.get(key) ?? 0;
+    occurrences.set(key, nth + 1);
+
+    result.push({ ref, role, name, nth });
+  }
+
+  return result;
+}
+
+/**
+ * Compute a CSS path for an element (runs in the browser)
+ * Shadow root boundaries become " >> " so Playwright pierces into the shadow tree.
+ */
+function computeDomPath(el: Element): string {
+  const segments: string[] = [];
+  let parts: string[] = [];
+  let node: Element | null = el;
+
+  while (node && node.nodeType === 1) {
+    const tag = node.tagName.toLowerCase();
+    const root = node.getRootNode() as Document | ShadowRoot;
+
+    if (node.id && root.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+      parts.unshift(`#${CSS.escape(node.id)}`);
+    } else {
+      const parent: Element | null = node.parentElement;
+      const siblings = parent ? Array.from(parent.children) : Array.from(root.children);
+      const sameTag = siblings.filter((c) => c.tagName === node!.tagName);
+      parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})` : tag);
+
+      if (parent) {
+        node = parent;
+        continue;
+      }
+    }
+
+    // Reached the top of this tree: continue from the shadow host, if any
+    segments.unshift(parts.join(' > '));
+    parts = [];
+    node = root instanceof ShadowRoot ? root.host : null;
+  }
+
+  if (parts.length > 0) segments.unshift(parts.join(' > '));
+  return segments.join(' >> ');
+}
+
+interface PageRefs {
+  generation: number;
+  fingerprints: Map<string, RefFingerprint>;
+  frames: FrameMap;            // Frame per ref prefix from the latest snapshot
+}
+
+export class RefResolver {
+  private pages: WeakMap<Page, PageRefs> = new WeakMap();
+  private detailsTried = new WeakSet<RefFingerprint>();   // Don't retry refs whose element is gone
+
+  /**
+   * Get (or start tracking) ref state for a page
+   */
+  private getPageRefs(page: Page): PageRefs {
+    let pageRefs = this.pages.get(page);
+
+    if (!pageRefs) {
+      const created: PageRefs = { generation: 0, fingerprints: new Map(), frames: new Map() };
+      pageRefs = created;
+      this.pages.set(page, created);
+
+      // Every main-frame navigation makes previously captured refs stale
+      page.on('framenavigated', (frame) => {
+        if (frame === page.mainFrame()) {
+          created.generation++;
+        }
+      });
+    }
+
+    return pageRefs;
+  }
+
+  /**
+   * Record fingerprints for every ref in a fresh snapshot.
+   * Fingerprints of refs missing from the new snapshot are kept so they can still be re-resolved.
+   */
+  recordSnapshot(page: Page, snapshot: string, frames?: FrameMap): void {
+    const pageRefs = this.getPageRefs(page);
+
+    // Prefixes are stable per frame, so keep frames seen earlier unless they were replaced
+    for (const [prefix, frame] of frames ?? []) {
+      pageRefs.frames.set(prefix, frame);
+    }
+
+    for (const { ref, role, name, nth } of parseSnapshotRefs(snapshot)) {
+      const previous = pageRefs.fingerprints.get(ref);
+      const sameElement = previous &&
+        previous.generation === pageRefs.generation &&
+        previous.role === role &&
+        previous.name === name;
+
+      pageRefs.fingerprints.set(ref, {
+        ref,
+        role,
+        name,
+        nth,
+        generation: pageRefs.generation,
+        locatorString: sameElement ? previous.locatorString : undefined,
+        domPath: sameElement ? previous.domPath : undefined,
+      });
+    }
+  }
+
+  /**
+   * Capture locator string and DOM path for refs that lack them. Needs the live element, so
+   * it runs when a ref is first used rather than for every ref of every snapshot.
+   */
+  async captureDetails(page: Page, refs: string[]): Promise<void> {
+    const pageRefs = this.getPageRefs(page);
+    const pending = refs
+      .map((ref) => pageRefs.fingerprints.get(ref))
+      .filter((fp): fp is RefFingerprint =>
+        !!fp && fp.generation === pageRefs.generation && !fp.domPath && !this.detailsTried.has(fp)
+      )
+      .slice(0, MAX_DETAIL_CAPTURES);
+
+    await Promise.all(pending.map(async (fp) => {
+      this.detailsTried.add(fp);
+      try {
+        const locator = this.locate(page, fp.ref);
+        fp.domPath = await locator.evaluate(computeDomPath, undefined, { timeout: 1000 });
+        fp.locatorString = await getLocatorStringForElement(locator);
+      } catch {
+        // Element detached or ref invalid - keep the snapshot-only fingerprint
+      }
+    }));
+  }
+
+  /**
+   * Frames of frame-qualified refs seen in this page's snapshots
+   */
+  getFrames(page: Page): FrameMap {
+    return this.pages.get(page)?.frames ?? new Map();
+  }
+
+  /**
+   * Locator for a ref in its own frame
+   */
+  locate(page: Page, ref: string): Locator {
+    return locatorForRef(page, ref, this.getFrames(page));
+  }
+
+  /**
+   * Frame (or page) to search when re-resolving a ref
+   */
+  private rootFor(page: Page, ref: string): Page | Frame {
+    const prefix = framePrefix(ref);
+    const frame = prefix ? this.getFrames(page).get(prefix) : undefined;
+    return frame && !frame.isDetached() ? frame : page;
+  }
+
+  /**
+   * Get the fingerprint recorded for a ref
+   */
+  getFingerprint(page: Page, ref: string): RefFingerprint | null {
+    return this.pages.get(page)?.fingerprints.get(ref) ?? null;
+  }
+
+  /**
+   * Number of main-frame navigations seen for a page
+   */
+  getGeneration(page: Page): number {
+    return this.pages.get(page)?.generation ?? 0;
+  }
+
+  /**
+   * Whether a ref was captured before the page's last navigation
+   */
+  isStale(page: Page, ref: string): boolean {
+    const pageRefs = this.pages.get(page);
+    const fp = pageRefs?.fingerprints.get(ref);
+    return !!fp && !!pageRefs && fp.generation !== pageRefs.generation;
+  }
+
+  /**
+   * Resolve a ref to a locator, re-resolving stale refs against the current DOM.
+   * Throws if the ref is unknown or no candidate element matches its fingerprint.
+   */
+  async resolve(page: Page, ref: string): Promise<ResolvedRef> {
+    const fp = this.getFingerprint(page, ref);
+
+    if (!fp) {
+      throw new Error(`Ref ${ref} not found in any snapshot of this page. Try capturing a new snapshot.`);
+    }
+
+    if (!this.isStale(page, ref)) {
+      // First use while the element is live: fingerprint it in case the page navigates later
+      await this.captureDetails(page, [ref]);
+      return { ref, locator: this.locate(page, ref), strategy: 'aria-ref', confidence: 1, stale: false };
+    }
+
+    // Refs inside an iframe are re-resolved within that frame
+    const root = this.rootFor(page, ref);
+
+    const count = (locator: Locator) => locator.count().catch(() => 0);
+    const resolved = (locator: Locator, strategy: RefStrategy, confidence: number): ResolvedRef =>
+      ({ ref, locator, strategy, confidence, stale: true });
+
+    const byRole = fp.name
+      ? root.getByRole(fp.role as Parameters<Page['getByRole']>[0], { name: fp.name, exact: true })
+      : root.getByRole(fp.role as Parameters<Page['getByRole']>[0]);
+
+    // Same-document navigations (pushState) keep the element and its aria-ref alive
+    const byRef = this.locate(page, ref).and(byRole);
+    if (await count(byRef) === 1) {
+      return resolved(byRef, 'aria-ref', 1);
+    }
+
+    // Same DOM position and same role/name - almost certainly the same element
+    if (fp.domPath) {
+      const byPathAndRole = root.locator(fp.domPath).and(byRole);
+      if (await count(byPathAndRole) === 1) {
+        return resolved(byPathAndRole, 'dom-path+role', 0.95);
+      }
+    }
+
+    const roleMatches = await count(byRole);
+    if (roleMatches === 1) {
+      return resolved(byRole, 'role+name', fp.name ? 0.9 : 0.6);
+    }
+    if (roleMatches > fp.nth) {
+      return resolved(byRole.nth(fp.nth), 'role+name+position', fp.name ? 0.7 : 0.4);
+    }
+
+    if (fp.name) {
+      const byPartialName = root.getByRole(fp.role as Parameters<Page['getByRole']>[0], { name: fp.name });
+      if (await count(byPartialName) === 1) {
+        return resolved(byPartialName, 'role+partial-name', 0.6);
+      }
+    }
+
+    if (fp.domPath) {
+      const byPath = root.locator(fp.domPath);
+      if (await count(byPath) === 1) {
+        return resolved(byPath, 'dom-path', 0.3);
+      }
+    }
+
+    const label = fp.name ? `${fp.role} "${fp.name}"` : fp.role;
+    throw new Error(
+      `Ref ${ref} (${label}) not found after navigation - no matching element on the current page. ` +
+      `Call snapshot tool to get fresh refs.`
+    );
+  }
+}
+
+/**
+ * Format a re-resolution as a one-line note for the agent
+ */
+export function formatResolvedRef(resolved: ResolvedRef): string {
+  const level = resolved.confidence >= 0.9 ? 'high' : resolved.confidence >= 0.6 ? 'medium' : 'low';
+  const note = `[ref ${resolved.ref} re-resolved after navigation via ${resolved.strategy}, ` +
+    `confidence ${resolved.confidence.toFixed(2)} (${level})]`;
+  return level === 'low' ? `${note} Verify with snapshot before relying on it.` : note;
+}
@@ -0,0 +1,253 @@
+/**
+ * Network mocking rules for even-better-playwright-mcp
+ * Each rule is a context-level route handler; rules outlive single tool calls and browser relaunches
+ */
+
+import type { BrowserContext, Route, Request } from 'playwright';
+import { createScopedFS, ScopedFS } from './scoped-fs.js';
+
+export type RouteBehavior = 'fulfill' | 'modify' | 'delay' | 'abort';
+
+export interface RouteRuleOptions {
+  url: string;                        // Glob ("**/api/*") or regex literal ("/\\/api\\/v\\d/i")
+  method?: string;                    // Only match this HTTP method
+  resourceType?: string;              // Only match this resource type (xhr, fetch, document, ...)
+  behavior: RouteBehavior;
+  status?: number;                    // fulfill/modify: response status
+  headers?: Record<string, string>;   // fulfill/modify: response headers (merged over the real ones for modify)
+  body?: string;                      // fulfill: static body
+  path?: string;                      // fulfill: serve a file (working directory or /tmp)
+  contentType?: string;               // fulfill: content-type header
+  delayMs?: number;                   // delay: wait before letting the request continue
+  errorCode?: string;                 // abort: network error code (default: failed)
+  times?: number;                     // Remove the rule after this many matches
+}
+
+export interface RouteRule extends RouteRuleOptions {
+  id: string;
+  hits: number;
+}
+
+const REGEX_LITERAL = /^\/(.+)\/([dgimsuy]*)$/;
+
+/**
+ * Parse a "/pattern/flags" string into a RegExp, or null if it is not one.
+ * g and y are dropped: they make test() stateful, so every other match would be skipped.
+ */
+export function parseRegexLiteral(value: string): RegExp | null {
+  const match = value.match(REGEX_LITERAL);
+  return match ? new RegExp(match[1], match[2].replace(/[gy]/g, '')) : null;
+}
+
+/**
+ * Turn a rule's url into a Playwright URL matcher (glob string or RegExp)
+ */
+function toUrlMatcher(url: string): string | RegExp {
+  return parseRegexLiteral(url) ?? url;
+}
+
+/**
+ * Validate behavior-specific options before the rule is installed
+ */
+function validateRule(options: RouteRuleOptions): void {
+  if (!options.url) {
+    throw new Error('Route rule needs a url glob or /regex/');
+  }
+  if (options.behavior === 'fulfill' && options.body !== undefined && options.path !== undefined) {
+    throw new Error('fulfill takes either body or path, not both');
+  }
+  if (options.behavior === 'modify' && options.status === undefined && !options.headers) {
+    throw new Error('modify needs status and/or headers');
+  }
+  if (options.behavior === 'delay' && !(options.delayMs && options.delayMs > 0)) {
+    throw new Error('delay needs a positive delayMs');
+  }
+}
+
+export class RouteManager {
+  private rules: RouteRule[] = [];
+  private handlers = new Map<string, (route: Route, request: Request) => Promise<void>>();
+  private context: BrowserContext | null = null;
+  private nextId = 1;
+  private fs: ScopedFS;
+
+  constructor(fs?: ScopedFS) {
+    this.fs = fs ?? createScopedFS();
+  }
+
+  /**
+   * Install all rules on a (new) context. Called on every browser launch.
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    this.context = context;
+    this.handlers.clear();
+
+    for (const rule of this.rules) {
+      await this.install(rule);
+    }
+  }
+
+  /**
+   * Forget the context (it was closed); rules are kept for the next attach
+   */
+  detach(): void {
+    this.context = null;
+    this.handlers.clear();
+  }
+
+  /**
+   * Add a rule. Newer rules take precedence over older ones for the same request.
+   */
+  async add(options: RouteRuleOptions): Promise<RouteRule> {
+    validateRule(options);
+
+    const rule: RouteRule = { ...options, id: `r${this.nextId++}`, hits: 0 };
+    this.rules.push(rule);
+
+    if (this.context) {
+      await this.install(rule);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Remove a rule by id
+   */
+  async remove(id: string): Promise<void> {
+    const rule = this.rules.find((r) => r.id === id);
+
+    if (!rule) {
+      throw new Error(`Route ${id} not found. Active: ${this.rules.map((r) => r.id).join(', ') || 'none'}`);
+    }
+
+    this.rules = this.rules.filter((r) => r !== rule);
+    await this.uninstall(rule);
+  }
+
+  /**
+   * Remove every rule
+   */
+  async clear(): Promise<void> {
+    for (const rule of this.rules) {
+      await this.uninstall(rule);
+    }
+    this.rules = [];
+  }
+
+  /**
+   * Get active rules in the order they were added
+   */
+  getRules(): RouteRule[] {
+    return this.rules.map((rule) => ({ ...rule }));
+  }
+
+  private async install(rule: RouteRule): Promise<void> {
+    const handler = async (route: Route, request: Request) => {
+      // Removed (times used up) but unroute has not finished yet
+      if (!this.rules.includes(rule)) {
+        await route.fallback();
+        return;
+      }
+      if (!this.matches(rule, request)) {
+        await route.fallback();
+        return;
+      }
+
+      rule.hits++;
+      if (rule.times !== undefined && rule.hits >= rule.times) {
+        // Last allowed match - drop the rule once this request is handled
+        this.rules = this.rules.filter((r) => r !== rule);
+        void this.uninstall(rule);
+      }
+
+      await this.apply(rule, route);
+    };
+
+    this.handlers.set(rule.id, handler);
+    await this.context!.route(toUrlMatcher(rule.url), handler);
+  }
+
+  private async uninstall(rule: RouteRule): Promise<void> {
+    const handler = this.handlers.get(rule.id);
+    this.handlers.delete(rule.id);
+
+    if (this.context && handler) {
+      await this.context.unroute(toUrlMatcher(rule.url), handler).catch(() => {});
+    }
+  }
+
+  private matches(rule: RouteRule, request: Request): boolean {
+    if (rule.method && rule.method.toUpperCase() !== request.method()) return false;
+    if (rule.resourceType && rule.resourceType !== request.resourceType()) return false;
+    return true;
+  }
+
+  private async apply(rule: RouteRule, route: Route): Promise<void> {
+    switch (rule.behavior) {
+      case 'fulfill': {
+        const body = rule.path !== undefined
+          ? await this.fs.promises.readFile(rule.path)
+          : rule.body ?? '';
+        await route.fulfill({
+          status: rule.status ?? 200,
+          headers: rule.headers,
+          contentType: rule.contentType,
+          body,
+        });
+        return;
+      }
+      case 'modify': {
+        let response: Awaited<ReturnType<Route['fetch']>>;
+        try {
+          response = await route.fetch();
+        } catch {
+          // The real request failed - fail it for the page too instead of leaving it pending
+          await route.abort('failed').catch(() => {});
+          return;
+        }
+        await route.fulfill({
+          response,
+          status: rule.status ?? response.status(),
+          headers: { ...response.headers(), ...rule.headers },
+        });
+        return;
+      }
+      case 'delay': {
+        await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+        await route.fallback();
+        return;
+      }
+      case 'abort':
+      default:
+        await route.abort(rule.errorCode ?? 'failed');
+    }
+  }
+}
+
+/**
+ * One-line description of a rule for tool output
+ */
+export function formatRouteRule(rule: RouteRule): string {
+  const filters = [rule.method?.toUpperCase(), rule.resourceType].filter(Boolean).join(' ');
+  let action: string;
+
+  switch (rule.behavior) {
+    case 'fulfill':
+      action = `fulfill ${rule.status ?? 200} ${rule.path !== undefined ? `from ${rule.path}` : `(${(rule.body ?? '').length} chars)`}`;
+      break;
+    case 'modify':
+      action = `modify${rule.status !== undefined ? ` status=${rule.status}` : ''}` +
+        `${rule.headers ? ` headers=${Object.keys(rule.headers).join(',')}` : ''}`;
+      break;
+    case 'delay':
+      action = `delay ${rule.delayMs}ms`;
+      break;
+    case 'abort':
+    default:
+      action = `abort (${rule.errorCode ?? 'failed'})`;
+  }
+
+  const limit = rule.times !== undefined ? `/${rule.times}` : '';
+  return `${rule.id}: ${filters ? `${filters} ` : ''}${rule.url} -> ${action} [${rule.hits}${limit} hits]`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Scoped snapshots - cut one element's subtree out of a full page snapshot
+ */
+
+import type { Locator, Page } from 'playwright';
+import type { BrowserManager } from '../browser.js';
+import { parseSnapshotRefs } from './ref-resolver.js';
+
+// Upper bound on refs checked by element identity when matching a locator
+const MAX_IDENTITY_CHECKS = 500;
+// Refs from the snapshot just taken resolve immediately; don't wait on detached ones
+const REF_CHECK_TIMEOUT = 500;
+
+const ROLE_NAME_PATTERN = /^\s*-\s*([a-z]+)(?:\s+"((?:[^"\\]|\\.)*)")?/;
+
+/**
+ * Extract the snapshot lines of the element with a ref and all its descendants,
+ * re-indented so the element sits at the root. Returns null if the ref isn't in the snapshot.
+ */
+export function extractSubtree(snapshot: string, ref: string): string | null {
+  const lines = snapshot.split('\n');
+  const start = lines.findIndex((line) => line.includes(`[ref=${ref}]`));
+  if (start === -1) return null;
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const rootIndent = indentOf(lines[start]);
+  const subtree = [lines[start]];
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].trim() && indentOf(lines[i]) <= rootIndent) break;
+    subtree.push(lines[i]);
+  }
+
+  return subtree.map((line) => line.slice(Math.min(rootIndent, indentOf(line)))).join('\n');
+}
+
+/**
+ * Find the ref of the element a locator points to.
+ * Refs whose role and name match the locator's own aria snapshot are checked first,
+ * then the rest in document order; each candidate is confirmed by element identity.
+ */
+export async function findRefForLocator(
+  snapshot: string,
+  locator: Locator,
+  locate: (ref: string) => Locator = (ref) => locator.page().locator(`aria-ref=${ref}`)
+): Promise<string | null> {
+  const target = await locator.elementHandle();
+  if (!target) return null;
+
+  try {
+    const aria = await locator.ariaSnapshot().catch(() => '');
+    const [, role, rawName] = aria.split('\n')[0]?.match(ROLE_NAME_PATTERN) ?? [];
+    const name = rawName?.replace(/\\(.)/g, '$1');
+
+    const refs = parseSnapshotRefs(snapshot);
+    const likely = refs.filter((r) => r.role === role && (name === undefined || r.name === name));
+    const rest = refs.filter((r) => !likely.includes(r));
+
+    for (const { ref } of [...likely, ...rest].slice(0, MAX_IDENTITY_CHECKS)) {
+      const same = await locate(ref)
+        .evaluate((el, other) => el === other, target, { timeout: REF_CHECK_TIMEOUT })
+        .catch(() => false);
+      if (same) return ref;
+    }
+
+    return null;
+  } finally {
+    await target.dispose();
+  }
+}
+
+/**
+ * Map a scope (ref or selector) to the ref of its element in a fresh snapshot.
+ * Stale refs are re-resolved by fingerprint first. Throws if nothing matches.
+ */
+export async function resolveScopeRef(
+  browserManager: BrowserManager,
+  page: Page,
+  snapshot: string,
+  scope: { ref?: string; selector?: string }
+): Promise<string> {
+  const { ref, selector } = scope;
+
+  if (ref && snapshot.includes(`[ref=${ref}]`)) {
+    return ref;
+  }
+
+  const locator = ref
+    ? (await browserManager.resolveRef(page, ref)).locator
+    : page.locator(selector!).first();
+  const found = await findRefForLocator(snapshot, locator, (r) => browserManager.getRefLocator(page, r));
+
+  if (!found) {
+    throw new Error(`${ref ? `Ref ${ref}` : `Selector ${selector}`} does not match an element in the snapshot`);
+  }
+
+  return found;
+}
@@ -0,0 +1,191 @@
+/**
+ * Session recorder - turns browser_execute calls into a replayable @playwright/test spec
+ * Opt-in: nothing is recorded until start() is called.
+ */
+
+import type { Page } from 'playwright';
+import { createScopedFS, ScopedFS } from './scoped-fs.js';
+import { getLocatorStringForElement, quote } from './locator-string.js';
+import type { RefResolver } from './ref-resolver.js';
+
+export interface RecordedStep {
+  code: string;              // Snippet as executed
+  replayCode: string;        // Snippet with $('eN') rewritten to durable locators
+  result?: string;           // Formatted return value (truncated)
+  error?: string;
+  urlBefore: string;
+  urlAfter: string;
+  timestamp: number;
+}
+
+export interface ExportOptions {
+  path?: string;             // Output file (default: ./recorded-session.spec.ts)
+  testName?: string;
+}
+
+const REF_CALL_PATTERN = /\$\(\s*(['"`])([^'"`]+)\1\s*\)/g;
+const MAX_RESULT_LENGTH = 200;
+const DEFAULT_EXPORT_PATH = 'recorded-session.spec.ts';
+
+export class SessionRecorder {
+  private steps: RecordedStep[] = [];
+  private recording = false;
+  private fs: ScopedFS;
+
+  constructor(fs?: ScopedFS) {
+    this.fs = fs ?? createScopedFS();
+  }
+
+  /**
+   * Start recording (clears previous steps unless keepSteps is set)
+   */
+  start(options?: { keepSteps?: boolean }): void {
+    if (!options?.keepSteps) {
+      this.steps = [];
+    }
+    this.recording = true;
+  }
+
+  /**
+   * Stop recording; steps are kept for export
+   */
+  stop(): void {
+    this.recording = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getSteps(): RecordedStep[] {
+    return [...this.steps];
+  }
+
+  clear(): void {
+    this.steps = [];
+  }
+
+  /**
+   * Rewrite $('eN') calls to durable locator strings.
+   * Must run before the snippet executes, while the refs still point at live elements.
+   * Refs without one keep their aria-ref locator, flagged by a comment above the step.
+   */
+  async rewriteRefs(code: string, page: Page, resolver: RefResolver): Promise<string> {
+    const refs = new Set([...code.matchAll(REF_CALL_PATTERN)].map((m) => m[2]));
+    const replacements = new Map<string, string>();
+    const unresolved: string[] = [];
+
+    for (const ref of refs) {
+      const locator = await this.getDurableLocator(ref, page, resolver);
+      if (!locator) unresolved.push(ref);
+      replacements.set(ref, locator ?? `page.locator('aria-ref=${quote(ref)}')`);
+    }
+
+    const rewritten = code.replace(REF_CALL_PATTERN, (match, _quote, ref: string) => replacements.get(ref) ?? match);
+    const notes = unresolved.map((ref) => `// ref ${ref} could not be resolved to a durable locator\n`);
+    return notes.join('') + rewritten;
+  }
+
+  /**
+   * Best durable locator string for a ref: live element first, then its fingerprint.
+   * Null if the ref has neither.
+   */
+  private async getDurableLocator(ref: string, page: Page, resolver: RefResolver): Promise<string | null> {
+    try {
+      const { locator } = await resolver.resolve(page, ref);
+      const locatorString = await getLocatorStringForElement(locator);
+      if (!locatorString.includes('aria-ref=')) {
+        return locatorString;
+      }
+    } catch {
+      // Fall through to fingerprint
+    }
+
+    const fp = resolver.getFingerprint(page, ref);
+    if (fp?.locatorString) {
+      return fp.locatorString;
+    }
+    if (fp) {
+      return fp.name
+        ? `page.getByRole('${quote(fp.role)}', { name: '${quote(fp.name)}' })`
+        : `page.getByRole('${quote(fp.role)}')`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Record one executed snippet (no-op when not recording)
+   */
+  record(step: Omit<RecordedStep, 'timestamp'>): void {
+    if (!this.recording) return;
+
+    const result = step.result && step.result.length > MAX_RESULT_LENGTH
+      ? step.result.slice(0, MAX_RESULT_LENGTH) + '...'
+      : step.result;
+
+    this.steps.push({ ...step, result, timestamp: Date.now() });
+  }
+
+  /**
+   * Render recorded steps as a @playwright/test spec
+   */
+  toTestFile(testName = 'recorded session'): string {
+    const lines: string[] = [
+      `// Generated by even-better-playwright-mcp session recorder`,
+      `// Recorded ${new Date(this.steps[0]?.timestamp ?? Date.now()).toISOString()} - ${this.steps.length} steps`,
+      `// MCP-only helpers (accessibilitySnapshot, waitForPageLoad, getCleanHTML, ...) need replacing before this runs.`,
+      ``,
+      `import { test, expect } from '@playwright/test';`,
+      ``,
+      `test('${quote(testName)}', async ({ page, context }) => {`,
+      `  const state: Record<string, any> = {};`,
+    ];
+
+    const firstUrl = this.steps[0]?.urlBefore;
+    if (firstUrl && firstUrl !== 'about:blank') {
+      lines.push(`  await page.goto('${quote(firstUrl)}');`);
+    }
+
+    this.steps.forEach((step, index) => {
+      const navigation = step.urlAfter !== step.urlBefore ? ` (${step.urlBefore} -> ${step.urlAfter})` : '';
+      lines.push('', `  // Step ${index + 1}${navigation}`);
+
+      const body = step.replayCode.trim().split('\n').map((line) => `  ${line}`);
+
+      if (step.error) {
+        lines.push(`  // Failed during recording: ${step.error.split('\n')[0]}`);
+        lines.push(...body.map((line) => `  //${line}`));
+        return;
+      }
+
+      // Same async-IIFE scoping the VM uses, so `return` and `const` behave as recorded
+      lines.push(`  await (async () => {`, ...body.map((line) => `  ${line}`), `  })();`);
+
+      if (step.result !== undefined) {
+        lines.push(`  // Result: ${step.result.replace(/\n/g, ' ')}`);
+      }
+      if (step.urlAfter !== step.urlBefore && step.urlAfter !== 'about:blank') {
+        lines.push(`  await expect(page).toHaveURL('${quote(step.urlAfter)}');`);
+      }
+    });
+
+    lines.push('});', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Write the spec through the scoped fs and return its path and content
+   */
+  async exportTest(options: ExportOptions = {}): Promise<{ path: string; content: string }> {
+    if (this.steps.length === 0) {
+      throw new Error('No recorded steps to export. Start recording and run browser_execute first.');
+    }
+
+    const path = options.path ?? DEFAULT_EXPORT_PATH;
+    const content = this.toTestFile(options.testName);
+    await this.fs.promises.writeFile(path, content, 'utf-8');
+
+    return { path, content };
+  }
+}
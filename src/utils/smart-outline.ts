@@ -4,7 +4,30 @@
 
 import { ListDetector, type ListPattern } from './list-detector.js';
 import { UselessWrapperRemover } from './remove-useless-wrappers.js';
-import type { ElementNode } from '../types/outline.js';
+import type { ElementNode, FoldedList, OutlineOptions } from '../types/outline.js';
+
+// 角色优先级（0-10），未列出的角色默认为 PRIORITY_DEFAULT
+const ROLE_PRIORITY: Record<string, number> = {
+  dialog: 10, alertdialog: 10, alert: 10,
+  button: 9, link: 9, textbox: 9, searchbox: 9, checkbox: 9, radio: 9, combobox: 9,
+  listbox: 9, option: 8, menuitem: 9, tab: 9, switch: 9, slider: 9, spinbutton: 9,
+  heading: 8,
+  main: 7, navigation: 7, banner: 7, contentinfo: 7, form: 7, search: 7, region: 6, complementary: 6,
+  menu: 6, tablist: 6, toolbar: 6, table: 5, grid: 5, list: 5, tabpanel: 5,
+  img: 4, row: 4, cell: 3, gridcell: 3, listitem: 4, article: 4,
+  paragraph: 3, text: 2, generic: 2, separator: 1, presentation: 1, none: 1,
+};
+const PRIORITY_DEFAULT = 4;
+
+// 约 4 个字符一个 token
+const CHARS_PER_TOKEN = 4;
+// 预算折叠的最大迭代次数
+const MAX_BUDGET_PASSES = 5;
+
+interface RenderCost {
+  lines: number;   // 子节点输出的行数
+  chars: number;   // 子节点输出的字符数
+}
 
 export class SmartOutlineSimple {
   private listDetector = new ListDetector();
@@ -12,20 +35,195 @@ export class SmartOutlineSimple {
   private readonly TEXT_TRUNCATE_LENGTH = 50;
   private readonly MAX_REFS_IN_SUMMARY = 5;
   
+  // 预算模式状态：被折叠为占位符的节点、本次渲染输出的占位符、上次渲染时各节点子树的开销
+  private collapsed = new Set<ElementNode>();
+  private renderedPlaceholders = new Set<ElementNode>();
+  private childCosts = new Map<ElementNode, RenderCost>();
+  
+  // 本次输出中被折叠的列表索引（按容器 ref 查询完整列表项）
+  private foldedLists: FoldedList[] = [];
+  
   /**
    * 生成大纲
+   * 指定 maxLines / maxTokens 时，按优先级把低价值子树折叠为 [+N nodes, ref=eX] 占位符
    */
-  generate(snapshot: string): string {
+  generate(snapshot: string, options: Partial<OutlineOptions> = {}): string {
     const lines = snapshot.split('\n');
     let rootNodes = this.buildTree(lines);
     
     // 先删除无意义的generic嵌套
     rootNodes = this.wrapperRemover.removeWrappers(rootNodes);
     
-    // 再进行列表检测和折叠
-    const outlineLines = this.processWithListDetection(rootNodes);
+    // 再进行列表检测和折叠，超出预算时折叠子树
+    const outlineLines = this.outline(rootNodes, options);
+    const collapsedNote = this.collapsed.size > 0
+      ? `, ${this.collapsed.size} subtrees collapsed - expand with browser_expand_snapshot`
+      : '';
+    
+    return `Page Outline (${outlineLines.length}/${lines.length} lines${collapsedNote}):\n` + outlineLines.join('\n');
+  }
+  
+  /**
+   * 展开指定 ref 的子树（用于展开占位符），找不到时返回 null
+   */
+  expand(snapshot: string, ref: string, options: Partial<OutlineOptions> = {}): { lines: string[]; nodeCount: number; collapsed: number } | null {
+    const rootNodes = this.wrapperRemover.removeWrappers(this.buildTree(snapshot.split('\n')));
+    const target = this.findByRef(rootNodes, ref);
+    if (!target) return null;
+    
+    const outlineLines = this.outline([target], options);
+    
+    return {
+      lines: outlineLines.map(line => line.slice(Math.min(target.indent, line.length - line.trimStart().length))),
+      nodeCount: this.countNodes(target),
+      collapsed: this.collapsed.size,
+    };
+  }
+  
+  /**
+   * 上次 generate / expand 输出中折叠的列表
+   */
+  getFoldedLists(): FoldedList[] {
+    return this.foldedLists;
+  }
+  
+  /**
+   * 输出若干节点的完整子树（不做预算折叠），缩进归零
+   */
+  renderNodes(nodes: ElementNode[]): string[] {
+    this.collapsed = new Set();
+    const output: string[] = [];
+    for (const node of nodes) {
+      const lines: string[] = [];
+      this.renderNode(node, lines);
+      output.push(...lines.map(line => line.slice(Math.min(node.indent, line.length - line.trimStart().length))));
+    }
+    return output;
+  }
+  
+  /**
+   * 解析快照为ElementNode树（不做折叠，供审计等分析使用）
+   */
+  parse(snapshot: string): ElementNode[] {
+    return this.buildTree(snapshot.split('\n'));
+  }
+  
+  /**
+   * 渲染大纲，超出预算时按优先级折叠子树
+   */
+  private outline(rootNodes: ElementNode[], options: Partial<OutlineOptions>): string[] {
+    const { maxLines, maxTokens } = options;
+    this.collapsed = new Set();
+    
+    let output = this.render(rootNodes);
+    const overBudget = (lines: number, chars: number) =>
+      (maxLines !== undefined && lines > maxLines) ||
+      (maxTokens !== undefined && chars / CHARS_PER_TOKEN > maxTokens);
+    
+    // 每轮按上次渲染的开销选择折叠候选，估算有误差时再迭代
+    for (let pass = 0; pass < MAX_BUDGET_PASSES && overBudget(output.length, this.countChars(output)); pass++) {
+      const totals = new Map<ElementNode, { sum: number; count: number }>();
+      const candidates = [...this.childCosts.entries()]
+        .filter(([node]) => node.ref && !this.collapsed.has(node))
+        .map(([node, cost]) => {
+          const { sum, count } = this.priorityTotals(node, totals);
+          return { node, cost, priority: Math.round(sum / count), depth: node.indent };
+        })
+        // 低优先级优先；同优先级先折叠深层子树，尽量保留页面骨架
+        .sort((a, b) => a.priority - b.priority || b.depth - a.depth || b.cost.lines - a.cost.lines);
+      
+      if (candidates.length === 0) break;
+      
+      let lines = output.length;
+      let chars = this.countChars(output);
+      for (const { node, cost } of candidates) {
+        if (!overBudget(lines, chars)) break;
+        this.collapsed.add(node);
+        lines -= cost.lines;
+        chars -= cost.chars;
+      }
+      
+      output = this.render(rootNodes);
+    }
+    
+    return output;
+  }
+  
+  /**
+   * 渲染一次并记录各节点子树开销
+   */
+  private render(rootNodes: ElementNode[]): string[] {
+    this.childCosts = new Map();
+    this.foldedLists = [];
+    const output = this.processWithListDetection(rootNodes);
     
-    return `Page Outline (${outlineLines.length}/${lines.length} lines):\n` + outlineLines.join('\n');
+    // 祖先被折叠的节点不会被渲染，只统计实际输出的占位符
+    this.collapsed = new Set([...this.collapsed].filter(node => this.renderedPlaceholders.has(node)));
+    this.renderedPlaceholders.clear();
+    
+    return output;
+  }
+  
+  /**
+   * 输出单个节点及其子树（被折叠时输出占位符）
+   */
+  private renderNode(node: ElementNode, output: string[], line = this.formatNode(node)): void {
+    if (this.collapsed.has(node)) {
+      this.renderedPlaceholders.add(node);
+      output.push(this.formatNode(node, this.countNodes(node) - 1));
+      return;
+    }
+    
+    output.push(line);
+    
+    if (node.children.length > 0) {
+      const childLines = this.processWithListDetection(node.children, node);
+      this.childCosts.set(node, { lines: childLines.length, chars: this.countChars(childLines) });
+      output.push(...childLines);
+    }
+  }
+  
+  /**
+   * 子树优先级总和与节点数（平均优先级低、信息密度低的子树优先折叠）
+   */
+  private priorityTotals(node: ElementNode, cache: Map<ElementNode, { sum: number; count: number }>): { sum: number; count: number } {
+    const cached = cache.get(node);
+    if (cached) return cached;
+    
+    const totals = { sum: node.priority, count: 1 };
+    for (const child of node.children) {
+      const childTotals = this.priorityTotals(child, cache);
+      totals.sum += childTotals.sum;
+      totals.count += childTotals.count;
+    }
+    
+    cache.set(node, totals);
+    return totals;
+  }
+  
+  private countNodes(node: ElementNode): number {
+    return node.children.reduce((sum, child) => sum + this.countNodes(child), 1);
+  }
+  
+  private countChars(lines: string[]): number {
+    return lines.reduce((sum, line) => sum + line.length + 1, 0);
+  }
+  
+  private findByRef(nodes: ElementNode[], ref: string): ElementNode | null {
+    for (const node of nodes) {
+      if (node.ref === ref) return node;
+      const found = this.findByRef(node.children, ref);
+      if (found) return found;
+    }
+    return null;
+  }
+  
+  /**
+   * 节点优先级：按角色打分，可交互元素至少为 8
+   */
+  private scorePriority(type: string, hasInteraction: boolean): number {
+    const priority = ROLE_PRIORITY[type] ?? PRIORITY_DEFAULT;
+    return hasInteraction ? Math.max(priority, 8) : priority;
   }
   
   /**
@@ -57,7 +255,7 @@ export class SmartOutlineSimple {
       content,
       line,
       children: [],
-      priority: 5,
+      priority: this.scorePriority(type, hasInteraction),
       isRepetitive: false,
       lineNumber,
       hasInteraction
@@ -99,7 +297,7 @@ export class SmartOutlineSimple {
   /**
    * 递归处理节点，检测列表
    */
-  private processWithListDetection(nodes: ElementNode[]): string[] {
+  private processWithListDetection(nodes: ElementNode[], parent?: ElementNode): string[] {
     const output: string[] = [];
     
     // 首先检查这些同级节点是否构成列表
@@ -109,16 +307,15 @@ export class SmartOutlineSimple {
       if (lists.length > 0) {
         // 处理检测到的列表
         for (const list of lists) {
-          const listLines = this.formatList(list);
-          output.push(...listLines);
-          
-          // 递归处理样本元素的子节点
-          if (list.sample.children.length > 0) {
-            const childLines = this.processWithListDetection(
-              list.sample.children
-            );
-            output.push(...childLines);
+          if (list.count > 1) {
+            this.foldedLists.push({ containerRef: parent?.ref ?? '', type: list.sample.type, items: list.items });
           }
+          
+          // 样本元素及其子节点（折叠行紧随样本行）
+          const [sampleLine, ...foldLines] = this.formatList(list);
+          const sampleOutput: string[] = [];
+          this.renderNode(list.sample, sampleOutput, sampleLine);
+          output.push(sampleOutput[0], ...foldLines, ...sampleOutput.slice(1));
         }
         
         // 处理不在列表中的节点
@@ -126,14 +323,7 @@ export class SmartOutlineSimple {
         const nonListNodes = nodes.filter(n => !listItems.has(n));
         
         for (const node of nonListNodes) {
-          output.push(this.formatNode(node));
-          
-          if (node.children.length > 0) {
-            const childLines = this.processWithListDetection(
-              node.children
-            );
-            output.push(...childLines);
-          }
+          this.renderNode(node, output);
         }
         
         return output;
@@ -142,15 +332,8 @@ export class SmartOutlineSimple {
     
     // 没有检测到列表，正常处理每个节点
     for (const node of nodes) {
-      output.push(this.formatNode(node));
-      
       // 递归处理子节点
-      if (node.children.length > 0) {
-        const childLines = this.processWithListDetection(
-          node.children
-        );
-        output.push(...childLines);
-      }
+      this.renderNode(node, output);
     }
     
     return output;
@@ -189,9 +372,9 @@ export class SmartOutlineSimple {
   }
   
   /**
-   * 格式化节点
+   * 格式化节点（hiddenCount 不为空时输出折叠占位符）
    */
-  private formatNode(node: ElementNode): string {
+  private formatNode(node: ElementNode, hiddenCount?: number): string {
     const indent = ' '.repeat(node.indent);
     let result = `${indent}- ${node.type}`;
     
@@ -205,7 +388,9 @@ export class SmartOutlineSimple {
     }
     
     // 添加ref
-    if (node.ref) {
+    if (hiddenCount !== undefined) {
+      result += ` [+${hiddenCount} nodes, ref=${node.ref}]`;
+    } else if (node.ref) {
       result += ` [ref=${node.ref}]`;
     }
     
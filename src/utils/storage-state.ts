@@ -0,0 +1,174 @@
+/**
+ * Named storage state files (cookies, localStorage, IndexedDB) and cookie filtering
+ * Files are plain Playwright storage state JSON, so they also work as `storageState` in tests.
+ */
+
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { BrowserContext, Cookie } from 'playwright';
+import { createScopedFS, ScopedFS } from './scoped-fs.js';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface StorageStateInfo {
+  name: string;
+  file: string;
+  cookies: number;
+  origins: string[];
+  savedAt: Date;
+}
+
+export interface CookieFilter {
+  domain?: string;           // "example.com" also matches ".example.com" and subdomains
+  name?: string;
+}
+
+// Outside the working directory, so session tokens don't end up in version control
+export const DEFAULT_STORAGE_STATE_DIR = join(tmpdir(), 'even-better-playwright-mcp', 'storage-states');
+
+// Cookie values are often tokens; show enough to recognise them
+const MAX_VALUE_LENGTH = 40;
+
+export class StorageStateStore {
+  private fs: ScopedFS;
+  private dir: string;
+
+  constructor(dir = DEFAULT_STORAGE_STATE_DIR, fs?: ScopedFS) {
+    this.dir = dir;
+    this.fs = fs ?? createScopedFS();
+  }
+
+  /**
+   * File for a state: names map into the state directory, paths (with / or .json) are used as is
+   */
+  fileFor(name: string): string {
+    if (name.includes('/') || name.endsWith('.json')) {
+      return name;
+    }
+    return join(this.dir, `${name.replace(/[^\w.-]+/g, '_')}.json`);
+  }
+
+  async save(name: string, state: StorageState): Promise<string> {
+    const file = this.fileFor(name);
+    if (file.startsWith(this.dir)) {
+      await this.fs.promises.mkdir(this.dir, { recursive: true });
+    }
+    await this.fs.promises.writeFile(file, JSON.stringify(state, null, 2), 'utf-8');
+    return file;
+  }
+
+  async load(name: string): Promise<StorageState> {
+    const file = this.fileFor(name);
+    let raw: string;
+    try {
+      raw = (await this.fs.promises.readFile(file, 'utf-8')).toString();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`No saved storage state "${name}" (${file})`);
+      }
+      throw error;
+    }
+
+    const state = JSON.parse(raw);
+    if (!Array.isArray(state?.cookies) || !Array.isArray(state?.origins)) {
+      throw new Error(`${file} is not a Playwright storage state (needs cookies and origins arrays)`);
+    }
+    return state;
+  }
+
+  async list(): Promise<StorageStateInfo[]> {
+    let files: string[];
+    try {
+      files = (await this.fs.promises.readdir(this.dir)) as string[];
+    } catch {
+      return [];
+    }
+
+    const result: StorageStateInfo[] = [];
+    for (const entry of files.filter((f) => f.endsWith('.json')).sort()) {
+      const file = join(this.dir, entry);
+      try {
+        const state = await this.load(file);
+        const stat = await this.fs.promises.stat(file);
+        result.push({
+          name: entry.slice(0, -'.json'.length),
+          file,
+          cookies: state.cookies.length,
+          origins: state.origins.map((o) => o.origin),
+          savedAt: stat.mtime,
+        });
+      } catch {
+        // Not a storage state file - skip
+      }
+    }
+    return result;
+  }
+
+  async remove(name: string): Promise<string> {
+    const file = this.fileFor(name);
+    await this.fs.promises.unlink(file);
+    return file;
+  }
+}
+
+/**
+ * Whether a cookie domain (".example.com", "api.example.com") falls under a filter domain
+ */
+export function matchesDomain(cookieDomain: string, filter: string): boolean {
+  const domain = cookieDomain.replace(/^\./, '').toLowerCase();
+  const wanted = filter.replace(/^\./, '').toLowerCase();
+  return domain === wanted || domain.endsWith(`.${wanted}`);
+}
+
+export function filterCookies(cookies: Cookie[], filter: CookieFilter): Cookie[] {
+  return cookies.filter((cookie) =>
+    (!filter.domain || matchesDomain(cookie.domain, filter.domain)) &&
+    (!filter.name || cookie.name === filter.name)
+  );
+}
+
+/**
+ * One line per cookie, grouped by domain
+ */
+export function formatCookies(cookies: Cookie[]): string {
+  if (cookies.length === 0) {
+    return '(none)';
+  }
+
+  const byDomain = new Map<string, Cookie[]>();
+  for (const cookie of cookies) {
+    const list = byDomain.get(cookie.domain) ?? [];
+    list.push(cookie);
+    byDomain.set(cookie.domain, list);
+  }
+
+  const lines: string[] = [];
+  for (const [domain, list] of [...byDomain.entries()].sort(([a], [b]) => a.replace(/^\./, '').localeCompare(b.replace(/^\./, '')))) {
+    lines.push(`${domain}:`);
+    for (const cookie of list) {
+      const value = cookie.value.length > MAX_VALUE_LENGTH ? `${cookie.value.slice(0, MAX_VALUE_LENGTH)}...` : cookie.value;
+      const flags = [
+        cookie.path !== '/' ? `path=${cookie.path}` : '',
+        cookie.expires > 0 ? `expires=${new Date(cookie.expires * 1000).toISOString().slice(0, 16)}` : 'session',
+        cookie.httpOnly ? 'httpOnly' : '',
+        cookie.secure ? 'secure' : '',
+        cookie.sameSite !== 'Lax' ? `sameSite=${cookie.sameSite}` : '',
+      ].filter(Boolean).join(', ');
+      lines.push(`- ${cookie.name}=${value} (${flags})`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * "3 cookies, storage for 2 origins (12 localStorage items, 1 IndexedDB database)"
+ */
+export function describeStorageState(state: StorageState): string {
+  const items = state.origins.reduce((sum, o) => sum + o.localStorage.length, 0);
+  const databases = state.origins.reduce((sum, o) => sum + ((o as { indexedDB?: unknown[] }).indexedDB?.length ?? 0), 0);
+  const details = [`${items} localStorage item${items === 1 ? '' : 's'}`];
+  if (databases > 0) details.push(`${databases} IndexedDB database${databases === 1 ? '' : 's'}`);
+
+  return `${state.cookies.length} cookie${state.cookies.length === 1 ? '' : 's'}, ` +
+    `storage for ${state.origins.length} origin${state.origins.length === 1 ? '' : 's'} (${details.join(', ')})`;
+}
@@ -0,0 +1,390 @@
+/**
+ * Semantic tree diff for snapshots and cleaned HTML
+ * Matches nodes by ref, then by signature, then by position, and reports
+ * added / removed / moved / renamed / state-changed nodes instead of text hunks.
+ */
+
+import type { ElementNode } from '../types/outline.js';
+import { UselessWrapperRemover } from './remove-useless-wrappers.js';
+
+export interface DiffNode {
+  type: string;                    // ARIA role or tag name
+  name: string;                    // Accessible name / text
+  ref: string;                     // Snapshot ref ('' when none)
+  state: Record<string, string>;   // checked, expanded, value, ...
+  children: DiffNode[];
+  parent?: DiffNode;
+  size: number;                    // Nodes in this subtree, including itself
+  label: string;                   // Compact description for the report
+}
+
+export type ChangeKind = 'added' | 'removed' | 'moved' | 'renamed' | 'state';
+
+export interface TreeChange {
+  kind: ChangeKind;
+  node: DiffNode;                  // Current node (previous node for removals)
+  previous?: DiffNode;             // Previous node for renamed / state / moved
+  detail: string;
+}
+
+export interface TreeDiff {
+  changes: TreeChange[];
+  counts: Record<ChangeKind, number>;
+}
+
+export interface FormatTreeDiffOptions {
+  title?: string;
+  maxLines?: number;               // Max change lines before summarising the rest (default: 40)
+}
+
+const SNAPSHOT_LINE = /^\s*-\s*([a-z]+)(?:\s+"((?:[^"\\]|\\.)*)")?((?:\s*\[[^\]]*\])*)\s*(?::\s*(.*))?$/;
+
+// Bracket attributes that don't describe element state
+const IGNORED_ATTRIBUTES = new Set(['ref', 'cursor']);
+
+const HTML_VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// HTML attributes reported as state; identity attributes become the name
+const HTML_STATE_ATTRIBUTES = [
+  'value', 'checked', 'selected', 'disabled', 'hidden', 'open', 'href', 'src',
+  'aria-expanded', 'aria-checked', 'aria-selected', 'aria-pressed', 'aria-hidden', 'aria-disabled',
+];
+
+function finalize(node: DiffNode): DiffNode {
+  node.size = 1;
+  for (const child of node.children) {
+    child.parent = node;
+    node.size += finalize(child).size;
+  }
+  return node;
+}
+
+function truncate(text: string, max = 50): string {
+  return text.length > max ? text.slice(0, max) + '...' : text;
+}
+
+/**
+ * Convert a snapshot ElementNode tree (wrappers removed) into diff nodes
+ */
+export function fromElementNodes(roots: ElementNode[]): DiffNode[] {
+  const convert = (node: ElementNode): DiffNode => {
+    const match = node.line.match(SNAPSHOT_LINE);
+    const name = match?.[2]?.replace(/\\(.)/g, '$1') ?? '';
+    const state: Record<string, string> = {};
+
+    for (const [, attr] of (match?.[3] ?? '').matchAll(/\[([^\]]*)\]/g)) {
+      const [key, value = 'true'] = attr.split('=');
+      if (!IGNORED_ATTRIBUTES.has(key)) {
+        state[key] = value;
+      }
+    }
+
+    const value = match?.[4]?.trim();
+    if (value) {
+      state.value = value;
+    }
+
+    const label = `${node.type}${name ? ` "${truncate(name)}"` : ''}${node.ref ? ` [ref=${node.ref}]` : ''}`;
+
+    return {
+      type: node.type,
+      name,
+      ref: node.ref,
+      state,
+      children: node.children.map(convert),
+      size: 1,
+      label,
+    };
+  };
+
+  return new UselessWrapperRemover().removeWrappers(roots).map((root) => finalize(convert(root)));
+}
+
+/**
+ * Parse cleaned HTML (see getCleanHTML) into diff nodes.
+ * Tolerant tokenizer - unclosed tags are closed by their parent's end tag.
+ */
+export function fromHtml(html: string): DiffNode[] {
+  const root: DiffNode = { type: '#root', name: '', ref: '', state: {}, children: [], size: 1, label: '' };
+  const stack: DiffNode[] = [root];
+  const tokens = html.match(/<\/?[a-zA-Z][^>]*>|[^<]+/g) ?? [];
+
+  for (const token of tokens) {
+    const current = stack[stack.length - 1];
+
+    if (token.startsWith('</')) {
+      const tag = token.slice(2, -1).trim().toLowerCase();
+      const index = stack.map((n) => n.type).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (token.startsWith('<')) {
+      const tagMatch = token.match(/^<([a-zA-Z][\w-]*)/);
+      if (!tagMatch) continue;
+
+      const tag = tagMatch[1].toLowerCase();
+      const attrs: Record<string, string> = {};
+      for (const [, key, , dq, sq, bare] of token.matchAll(/([\w:-]+)(\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+        if (key.toLowerCase() === tag) continue;
+        attrs[key.toLowerCase()] = dq ?? sq ?? bare ?? 'true';
+      }
+
+      const state: Record<string, string> = {};
+      for (const key of HTML_STATE_ATTRIBUTES) {
+        if (attrs[key] !== undefined) state[key] = attrs[key];
+      }
+
+      const identity = attrs.id ? `#${attrs.id}` : '';
+      const name = attrs['aria-label'] ?? attrs.name ?? attrs.alt ?? attrs.title ?? '';
+      const node: DiffNode = {
+        type: tag,
+        name,
+        ref: attrs['data-testid'] ?? '',
+        state,
+        children: [],
+        size: 1,
+        label: `<${tag}${identity}>${name ? ` "${truncate(name)}"` : ''}`,
+      };
+
+      current.children.push(node);
+      if (!HTML_VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+        stack.push(node);
+      }
+      continue;
+    }
+
+    const text = token.replace(/\s+/g, ' ').trim();
+    if (text) {
+      current.children.push({
+        type: '#text',
+        name: text,
+        ref: '',
+        state: {},
+        children: [],
+        size: 1,
+        label: `"${truncate(text)}"`,
+      });
+    }
+  }
+
+  return finalize(root).children.map((child) => {
+    child.parent = undefined;
+    return child;
+  });
+}
+
+function preorder(roots: DiffNode[]): DiffNode[] {
+  const result: DiffNode[] = [];
+  const visit = (node: DiffNode) => {
+    result.push(node);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return result;
+}
+
+function signature(node: DiffNode): string {
+  return `${node.type}\u0000${node.name}\u0000${JSON.stringify(node.state)}`;
+}
+
+/**
+ * Indices (into seq) of a longest increasing subsequence
+ */
+function longestIncreasing(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev: number[] = new Array(seq.length).fill(-1);
+
+  for (let i = 0; i < seq.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < seq[i]) lo = mid + 1; else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const result = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i >= 0; i = prev[i]) {
+    result.add(i);
+  }
+  return result;
+}
+
+/**
+ * Diff two trees
+ */
+export function diffTrees(previousRoots: DiffNode[], currentRoots: DiffNode[]): TreeDiff {
+  const oldNodes = preorder(previousRoots);
+  const newNodes = preorder(currentRoots);
+  const oldToNew = new Map<DiffNode, DiffNode>();
+  const newToOld = new Map<DiffNode, DiffNode>();
+
+  const pair = (o: DiffNode, n: DiffNode) => {
+    oldToNew.set(o, n);
+    newToOld.set(n, o);
+  };
+
+  // 1. Same ref - same element
+  const newByRef = new Map(newNodes.filter((n) => n.ref).map((n) => [n.ref, n]));
+  for (const o of oldNodes) {
+    const n = o.ref ? newByRef.get(o.ref) : undefined;
+    if (n && !newToOld.has(n)) pair(o, n);
+  }
+
+  // 2. Identical signature, preferring candidates under the matching parent
+  const buckets = new Map<string, DiffNode[]>();
+  for (const n of newNodes) {
+    if (newToOld.has(n)) continue;
+    const key = signature(n);
+    buckets.set(key, [...(buckets.get(key) ?? []), n]);
+  }
+
+  for (const requireParent of [true, false]) {
+    for (const o of oldNodes) {
+      if (oldToNew.has(o)) continue;
+      const candidates = buckets.get(signature(o))?.filter((n) => !newToOld.has(n));
+      if (!candidates?.length) continue;
+
+      const expectedParent = o.parent ? oldToNew.get(o.parent) : undefined;
+      const n = candidates.find((c) => c.parent === expectedParent) ?? (requireParent ? undefined : candidates[0]);
+      if (n) pair(o, n);
+    }
+  }
+
+  // 3. Same type at the same position under matched parents - renamed or changed state
+  const matchChildren = (oldChildren: DiffNode[], newChildren: DiffNode[]) => {
+    const freeOld = oldChildren.filter((o) => !oldToNew.has(o));
+    const freeNew = newChildren.filter((n) => !newToOld.has(n));
+    for (let i = 0; i < Math.min(freeOld.length, freeNew.length); i++) {
+      if (freeOld[i].type === freeNew[i].type) pair(freeOld[i], freeNew[i]);
+    }
+  };
+  matchChildren(previousRoots, currentRoots);
+  for (const o of oldNodes) {
+    const n = oldToNew.get(o);
+    if (n) matchChildren(o.children, n.children);
+  }
+
+  const changes: TreeChange[] = [];
+  const parentLabel = (node: DiffNode) => (node.parent ? node.parent.label : 'root');
+
+  // Added / removed: report subtree roots only
+  for (const n of newNodes) {
+    if (newToOld.has(n) || (n.parent && !newToOld.has(n.parent))) continue;
+    const extra = n.size > 1 ? ` (+${n.size - 1} nodes)` : '';
+    changes.push({ kind: 'added', node: n, detail: `${extra} in ${parentLabel(n)}` });
+  }
+  for (const o of oldNodes) {
+    if (oldToNew.has(o) || (o.parent && !oldToNew.has(o.parent))) continue;
+    const extra = o.size > 1 ? ` (+${o.size - 1} nodes)` : '';
+    changes.push({ kind: 'removed', node: o, detail: `${extra} from ${parentLabel(o)}` });
+  }
+
+  // Renamed / state changes
+  for (const [o, n] of oldToNew) {
+    if (o.type !== n.type || o.name !== n.name) {
+      const before = o.type !== n.type ? `${o.type} "${truncate(o.name)}"` : `"${truncate(o.name)}"`;
+      const after = o.type !== n.type ? `${n.type} "${truncate(n.name)}"` : `"${truncate(n.name)}"`;
+      changes.push({ kind: 'renamed', node: n, previous: o, detail: `${before} -> ${after}` });
+    }
+
+    const keys = new Set([...Object.keys(o.state), ...Object.keys(n.state)]);
+    const stateChanges = [...keys]
+      .filter((key) => o.state[key] !== n.state[key])
+      .map((key) => `${key}: ${truncate(o.state[key] ?? '-', 30)} -> ${truncate(n.state[key] ?? '-', 30)}`);
+    if (stateChanges.length > 0) {
+      changes.push({ kind: 'state', node: n, previous: o, detail: stateChanges.join(', ') });
+    }
+  }
+
+  // Moved: new parent, or out of order among siblings that stayed
+  const movedToNewParent = new Set<DiffNode>();
+  for (const [o, n] of oldToNew) {
+    const expectedParent = o.parent ? oldToNew.get(o.parent) : undefined;
+    if (expectedParent !== n.parent) {
+      movedToNewParent.add(n);
+      changes.push({ kind: 'moved', node: n, previous: o, detail: `from ${parentLabel(o)} to ${parentLabel(n)}` });
+    }
+  }
+
+  const reorderCheck = (newChildren: DiffNode[], label: string) => {
+    const kept = newChildren.filter((n) => newToOld.has(n) && !movedToNewParent.has(n));
+    const siblings = newToOld.get(kept[0])?.parent?.children ?? previousRoots;
+    const oldIndices = kept.map((n) => siblings.indexOf(newToOld.get(n)!));
+    const inOrder = longestIncreasing(oldIndices);
+
+    kept.forEach((n, i) => {
+      if (!inOrder.has(i)) {
+        changes.push({
+          kind: 'moved',
+          node: n,
+          previous: newToOld.get(n),
+          detail: `reordered in ${label} (#${oldIndices[i]} -> #${newChildren.indexOf(n)})`,
+        });
+      }
+    });
+  };
+  reorderCheck(currentRoots, 'root');
+  for (const n of newNodes) {
+    if (n.children.length > 1) reorderCheck(n.children, n.label);
+  }
+
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, moved: 0, renamed: 0, state: 0 };
+  for (const change of changes) counts[change.kind]++;
+
+  return { changes, counts };
+}
+
+const CHANGE_MARKERS: Record<ChangeKind, string> = {
+  added: '+',
+  removed: '-',
+  renamed: '~',
+  state: '*',
+  moved: '>',
+};
+
+const CHANGE_ORDER: ChangeKind[] = ['added', 'removed', 'renamed', 'state', 'moved'];
+
+/**
+ * Compact report: one line per change, grouped by kind
+ */
+export function formatTreeDiff(diff: TreeDiff, options: FormatTreeDiffOptions = {}): string {
+  const { title = 'Diff', maxLines = 40 } = options;
+
+  if (diff.changes.length === 0) {
+    return 'No changes detected since last snapshot';
+  }
+
+  const summary = CHANGE_ORDER
+    .filter((kind) => diff.counts[kind] > 0)
+    .map((kind) => `${diff.counts[kind]} ${kind === 'state' ? 'state changed' : kind}`)
+    .join(', ');
+
+  const ordered = CHANGE_ORDER.flatMap((kind) => diff.changes.filter((c) => c.kind === kind));
+  const lines = ordered.slice(0, maxLines).map((change) => {
+    const marker = CHANGE_MARKERS[change.kind];
+    switch (change.kind) {
+      case 'renamed':
+        return `${marker} ${change.previous!.label}: ${change.detail}`;
+      case 'state':
+        return `${marker} ${change.node.label}: ${change.detail}`;
+      case 'added':
+      case 'removed':
+        return `${marker} ${change.node.label}${change.detail}`;
+      case 'moved':
+      default:
+        return `${marker} ${change.node.label} ${change.detail}`;
+    }
+  });
+
+  if (ordered.length > maxLines) {
+    lines.push(`... ${ordered.length - maxLines} more changes`);
+  }
+
+  return `### ${title}: ${summary}\n\n${lines.join('\n')}`;
+}
@@ -5,8 +5,10 @@
  * for better AI agent interaction.
  */
 
-import type { Page, ElementHandle } from 'playwright';
-import { getAccessibilitySnapshot } from '../browser.js';
+import type { Page, Frame, ElementHandle } from 'playwright';
+import { getFrameAwareSnapshot } from '../browser.js';
+import { locatorForRef, type FrameMap } from '../utils/frame-refs.js';
+import { parseSnapshotRefs, type RefResolver } from '../utils/ref-resolver.js';
 
 export interface LabelOptions {
   interactiveOnly?: boolean;  // default: true - only show labels for interactive roles
@@ -102,77 +104,244 @@ const CONTAINER_STYLES = css`
   pointer-events: none;
 `;
 
-interface RefInfo {
-  role: string;
-  name: string;
-}
-
 interface RefHandle {
   ref: string;
+  role: string;
   handle: ElementHandle;
 }
 
 /**
- * Discover aria refs by probing aria-ref=e1, e2, e3...
- * Returns refs with their element handles and role info.
+ * Resolve the refs listed in a snapshot to element handles, including refs
+ * inside iframes. Roles come from the snapshot itself.
  */
-async function discoverRefs(page: Page): Promise<{
-  refToElement: Map<string, RefInfo>;
-  refHandles: RefHandle[];
-}> {
-  const refToElement = new Map<string, RefInfo>();
+async function discoverRefs(page: Page, snapshot: string, frames: FrameMap, interactiveOnly: boolean): Promise<RefHandle[]> {
   const refHandles: RefHandle[] = [];
 
-  let consecutiveMisses = 0;
-  let refNum = 1;
+  for (const { ref, role } of parseSnapshotRefs(snapshot)) {
+    if (interactiveOnly && !INTERACTIVE_ROLES.has(role)) continue;
 
-  while (consecutiveMisses < 10) {
-    const ref = `e${refNum++}`;
     try {
-      const locator = page.locator(`aria-ref=${ref}`);
-      if (await locator.count() === 1) {
-        consecutiveMisses = 0;
-        const [info, handle] = await Promise.all([
-          locator.evaluate((el: Element) => ({
-            role: el.getAttribute('role') || {
-              a: (el as HTMLAnchorElement).hasAttribute('href') ? 'link' : 'generic',
-              button: 'button',
-              input: {
-                button: 'button',
-                checkbox: 'checkbox',
-                radio: 'radio',
-                text: 'textbox',
-                search: 'searchbox',
-                number: 'spinbutton',
-                range: 'slider',
-              }[(el as HTMLInputElement).type] || 'textbox',
-              select: 'combobox',
-              textarea: 'textbox',
-              img: 'img',
-              nav: 'navigation',
-              main: 'main',
-              header: 'banner',
-              footer: 'contentinfo',
-            }[el.tagName.toLowerCase()] || 'generic',
-            name: el.getAttribute('aria-label') || 
-                  el.textContent?.trim()?.slice(0, 50) || 
-                  (el as HTMLInputElement).placeholder || '',
-          })),
-          locator.elementHandle({ timeout: 1000 }),
-        ]);
-        refToElement.set(ref, info);
-        if (handle) {
-          refHandles.push({ ref, handle });
-        }
-      } else {
-        consecutiveMisses++;
+      const handle = await locatorForRef(page, ref, frames).elementHandle({ timeout: 1000 });
+      if (handle) {
+        refHandles.push({ ref, role, handle });
       }
     } catch {
-      consecutiveMisses++;
+      // Element went away since the snapshot
+    }
+  }
+
+  return refHandles;
+}
+
+/**
+ * Create container, styles and all labels for one document (runs in the browser).
+ * ElementHandles get unwrapped to DOM elements in browser context;
+ * 'any' is used for browser types since this runs in browser context.
+ */
+function renderLabels({ refs, containerId, containerStyles, labelStyles, roleColors, defaultColors, autoHideTimeout }: {
+  refs: Array<{ ref: string; role: string; element: any }>;
+  containerId: string;
+  containerStyles: string;
+  labelStyles: string;
+  roleColors: Record<string, [string, string, string]>;
+  defaultColors: [string, string, string];
+  autoHideTimeout: number;
+}): number {
+  const doc = document;
+  const win = window;
+
+  // Cancel any pending auto-hide timer from previous call
+  const timerKey = '__aria_labels_timer__';
+  if ((win as any)[timerKey]) {
+    win.clearTimeout((win as any)[timerKey]);
+    (win as any)[timerKey] = null;
+  }
+
+  // Remove existing labels if present (idempotent)
+  doc.getElementById(containerId)?.remove();
+
+  // Create container - absolute positioned, max z-index, no pointer events
+  const container = doc.createElement('div');
+  container.id = containerId;
+  container.style.cssText = containerStyles;
+
+  // Inject base label CSS
+  const style = doc.createElement('style');
+  style.textContent = labelStyles;
+  container.appendChild(style);
+
+  // Track placed label rectangles for overlap detection
+  const placedLabels: Array<{ left: number; top: number; right: number; bottom: number }> = [];
+
+  // Estimate label dimensions (12px font + padding)
+  const LABEL_HEIGHT = 17;
+  const LABEL_CHAR_WIDTH = 7;
+
+  // Parse alpha from rgb/rgba color string
+  function getColorAlpha(color: string): number {
+    if (color === 'transparent') return 0;
+    const match = color.match(/rgba?\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*(?:,\s*([\d.]+)\s*)?\)/);
+    if (match) {
+      return match[1] !== undefined ? parseFloat(match[1]) : 1;
+    }
+    return 1;
+  }
+
+  // Check if an element has an opaque background
+  function isOpaqueElement(el: Element): boolean {
+    const style = win.getComputedStyle(el);
+    const opacity = parseFloat(style.opacity);
+    if (opacity < 0.1) return false;
+    const bgAlpha = getColorAlpha(style.backgroundColor);
+    if (bgAlpha > 0.1) return true;
+    if (style.backgroundImage !== 'none') return true;
+    return false;
+  }
+
+  // Check if element is visible (not covered by opaque overlay)
+  function isElementVisible(element: Element, rect: DOMRect): boolean {
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+
+    const stack = doc.elementsFromPoint(centerX, centerY);
+
+    let targetIndex = -1;
+    for (let i = 0; i < stack.length; i++) {
+      if (element.contains(stack[i]) || stack[i].contains(element)) {
+        targetIndex = i;
+        break;
+      }
+    }
+
+    if (targetIndex === -1) return false;
+
+    for (let i = 0; i < targetIndex; i++) {
+      const el = stack[i];
+      if ((el as HTMLElement).id === containerId) continue;
+      if (win.getComputedStyle(el).pointerEvents === 'none') continue;
+      if (isOpaqueElement(el)) return false;
+    }
+
+    return true;
+  }
+
+  // Check if two rectangles overlap
+  function rectsOverlap(
+    a: { left: number; top: number; right: number; bottom: number },
+    b: { left: number; top: number; right: number; bottom: number }
+  ) {
+    return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+  }
+
+  // Create SVG for connector lines
+  const svg = doc.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.style.cssText = 'position:absolute;left:0;top:0;pointer-events:none;overflow:visible;';
+  svg.setAttribute('width', `${doc.documentElement.scrollWidth}`);
+  svg.setAttribute('height', `${doc.documentElement.scrollHeight}`);
+
+  // Create defs for arrow markers (one per color)
+  const defs = doc.createElementNS('http://www.w3.org/2000/svg', 'defs');
+  svg.appendChild(defs);
+  const markerCache: Record<string, string> = {};
+
+  function getArrowMarkerId(color: string): string {
+    if (markerCache[color]) return markerCache[color];
+    const markerId = `arrow-${color.replace('#', '')}`;
+    const marker = doc.createElementNS('http://www.w3.org/2000/svg', 'marker');
+    marker.setAttribute('id', markerId);
+    marker.setAttribute('viewBox', '0 0 10 10');
+    marker.setAttribute('refX', '9');
+    marker.setAttribute('refY', '5');
+    marker.setAttribute('markerWidth', '6');
+    marker.setAttribute('markerHeight', '6');
+    marker.setAttribute('orient', 'auto-start-reverse');
+    const path = doc.createElementNS('http://www.w3.org/2000/svg', 'path');
+    path.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
+    path.setAttribute('fill', color);
+    marker.appendChild(path);
+    defs.appendChild(marker);
+    markerCache[color] = markerId;
+    return markerId;
+  }
+
+  container.appendChild(svg);
+
+  // Create label for each interactive element
+  let count = 0;
+  for (const { ref, role, element } of refs) {
+    const rect = element.getBoundingClientRect();
+
+    // Skip elements with no size (hidden)
+    if (rect.width === 0 || rect.height === 0) continue;
+
+    // Skip elements that are covered by opaque overlays
+    if (!isElementVisible(element, rect)) continue;
+
+    // Calculate label position and dimensions
+    const labelWidth = ref.length * LABEL_CHAR_WIDTH + 8;
+    const labelLeft = rect.left;
+    const labelTop = Math.max(0, rect.top - LABEL_HEIGHT);
+    const labelRect = {
+      left: labelLeft,
+      top: labelTop,
+      right: labelLeft + labelWidth,
+      bottom: labelTop + LABEL_HEIGHT,
+    };
+
+    // Skip if this label would overlap with any already-placed label
+    let overlaps = false;
+    for (const placed of placedLabels) {
+      if (rectsOverlap(labelRect, placed)) {
+        overlaps = true;
+        break;
+      }
     }
+    if (overlaps) continue;
+
+    // Get colors for this role
+    const [gradTop, gradBottom, border] = roleColors[role] || defaultColors;
+
+    // Place the label
+    const label = doc.createElement('div');
+    label.className = '__aria_label__';
+    label.textContent = ref;
+    label.style.background = `linear-gradient(to bottom, ${gradTop} 0%, ${gradBottom} 100%)`;
+    label.style.border = `1px solid ${border}`;
+
+    // Position above element, accounting for scroll
+    label.style.left = `${win.scrollX + labelLeft}px`;
+    label.style.top = `${win.scrollY + labelTop}px`;
+
+    container.appendChild(label);
+
+    // Draw connector line from label bottom-center to element center with arrow
+    const line = doc.createElementNS('http://www.w3.org/2000/svg', 'line');
+    const labelCenterX = win.scrollX + labelLeft + labelWidth / 2;
+    const labelBottomY = win.scrollY + labelTop + LABEL_HEIGHT;
+    const elementCenterX = win.scrollX + rect.left + rect.width / 2;
+    const elementCenterY = win.scrollY + rect.top + rect.height / 2;
+    line.setAttribute('x1', `${labelCenterX}`);
+    line.setAttribute('y1', `${labelBottomY}`);
+    line.setAttribute('x2', `${elementCenterX}`);
+    line.setAttribute('y2', `${elementCenterY}`);
+    line.setAttribute('stroke', border);
+    line.setAttribute('stroke-width', '1.5');
+    line.setAttribute('marker-end', `url(#${getArrowMarkerId(border)})`);
+    svg.appendChild(line);
+
+    placedLabels.push(labelRect);
+    count++;
   }
 
-  return { refToElement, refHandles };
+  doc.documentElement.appendChild(container);
+
+  // Auto-hide labels after timeout to prevent stale labels
+  (win as any)[timerKey] = win.setTimeout(function() {
+    doc.getElementById(containerId)?.remove();
+    (win as any)[timerKey] = null;
+  }, autoHideTimeout);
+
+  return count;
 }
 
 /**
@@ -196,254 +365,43 @@ export async function showAriaRefLabels({
   page, 
   interactiveOnly = true,
   timeout = 30000,
+  refResolver,
 }: {
   page: Page;
   interactiveOnly?: boolean;
   timeout?: number;
+  refResolver?: RefResolver;   // Records the snapshot, so labelled frame refs like f1e5 resolve in $()
 }): Promise<{
   snapshot: string;
   labelCount: number;
 }> {
-  // Get accessibility snapshot
-  const snapshot = await getAccessibilitySnapshot(page);
-  
-  // Discover refs and their element handles
-  const { refHandles, refToElement } = await discoverRefs(page);
-
-  // Filter to only interactive elements if requested
-  const filteredRefs = interactiveOnly
-    ? refHandles.filter(({ ref }) => {
-        const info = refToElement.get(ref);
-        return info && INTERACTIVE_ROLES.has(info.role);
-      })
-    : refHandles;
-
-  // Build refs with role info for color coding
-  const refsWithRoles = filteredRefs.map(({ ref, handle }) => ({
-    ref,
-    element: handle,
-    role: refToElement.get(ref)?.role || 'generic',
-  }));
-
-  // Single evaluate call: create container, styles, and all labels
-  // ElementHandles get unwrapped to DOM elements in browser context
-  const labelCount = await page.evaluate(
-    // Using 'any' for browser types since this runs in browser context
-    function ({ refs, containerId, containerStyles, labelStyles, roleColors, defaultColors, autoHideTimeout }: {
-      refs: Array<{ ref: string; role: string; element: any }>;
-      containerId: string;
-      containerStyles: string;
-      labelStyles: string;
-      roleColors: Record<string, [string, string, string]>;
-      defaultColors: [string, string, string];
-      autoHideTimeout: number;
-    }): number {
-      const doc = document;
-      const win = window;
-
-      // Cancel any pending auto-hide timer from previous call
-      const timerKey = '__aria_labels_timer__';
-      if ((win as any)[timerKey]) {
-        win.clearTimeout((win as any)[timerKey]);
-        (win as any)[timerKey] = null;
-      }
-
-      // Remove existing labels if present (idempotent)
-      doc.getElementById(containerId)?.remove();
-
-      // Create container - absolute positioned, max z-index, no pointer events
-      const container = doc.createElement('div');
-      container.id = containerId;
-      container.style.cssText = containerStyles;
-
-      // Inject base label CSS
-      const style = doc.createElement('style');
-      style.textContent = labelStyles;
-      container.appendChild(style);
-
-      // Track placed label rectangles for overlap detection
-      const placedLabels: Array<{ left: number; top: number; right: number; bottom: number }> = [];
-
-      // Estimate label dimensions (12px font + padding)
-      const LABEL_HEIGHT = 17;
-      const LABEL_CHAR_WIDTH = 7;
-
-      // Parse alpha from rgb/rgba color string
-      function getColorAlpha(color: string): number {
-        if (color === 'transparent') return 0;
-        const match = color.match(/rgba?\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*(?:,\s*([\d.]+)\s*)?\)/);
-        if (match) {
-          return match[1] !== undefined ? parseFloat(match[1]) : 1;
-        }
-        return 1;
-      }
-
-      // Check if an element has an opaque background
-      function isOpaqueElement(el: Element): boolean {
-        const style = win.getComputedStyle(el);
-        const opacity = parseFloat(style.opacity);
-        if (opacity < 0.1) return false;
-        const bgAlpha = getColorAlpha(style.backgroundColor);
-        if (bgAlpha > 0.1) return true;
-        if (style.backgroundImage !== 'none') return true;
-        return false;
-      }
-
-      // Check if element is visible (not covered by opaque overlay)
-      function isElementVisible(element: Element, rect: DOMRect): boolean {
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
-
-        const stack = doc.elementsFromPoint(centerX, centerY);
-
-        let targetIndex = -1;
-        for (let i = 0; i < stack.length; i++) {
-          if (element.contains(stack[i]) || stack[i].contains(element)) {
-            targetIndex = i;
-            break;
-          }
-        }
-
-        if (targetIndex === -1) return false;
-
-        for (let i = 0; i < targetIndex; i++) {
-          const el = stack[i];
-          if ((el as HTMLElement).id === containerId) continue;
-          if (win.getComputedStyle(el).pointerEvents === 'none') continue;
-          if (isOpaqueElement(el)) return false;
-        }
-
-        return true;
-      }
-
-      // Check if two rectangles overlap
-      function rectsOverlap(
-        a: { left: number; top: number; right: number; bottom: number },
-        b: { left: number; top: number; right: number; bottom: number }
-      ) {
-        return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
-      }
-
-      // Create SVG for connector lines
-      const svg = doc.createElementNS('http://www.w3.org/2000/svg', 'svg');
-      svg.style.cssText = 'position:absolute;left:0;top:0;pointer-events:none;overflow:visible;';
-      svg.setAttribute('width', `${doc.documentElement.scrollWidth}`);
-      svg.setAttribute('height', `${doc.documentElement.scrollHeight}`);
-
-      // Create defs for arrow markers (one per color)
-      const defs = doc.createElementNS('http://www.w3.org/2000/svg', 'defs');
-      svg.appendChild(defs);
-      const markerCache: Record<string, string> = {};
-
-      function getArrowMarkerId(color: string): string {
-        if (markerCache[color]) return markerCache[color];
-        const markerId = `arrow-${color.replace('#', '')}`;
-        const marker = doc.createElementNS('http://www.w3.org/2000/svg', 'marker');
-        marker.setAttribute('id', markerId);
-        marker.setAttribute('viewBox', '0 0 10 10');
-        marker.setAttribute('refX', '9');
-        marker.setAttribute('refY', '5');
-        marker.setAttribute('markerWidth', '6');
-        marker.setAttribute('markerHeight', '6');
-        marker.setAttribute('orient', 'auto-start-reverse');
-        const path = doc.createElementNS('http://www.w3.org/2000/svg', 'path');
-        path.setAttribute('d', 'M 0 0 L 10 5 L 0 10 z');
-        path.setAttribute('fill', color);
-        marker.appendChild(path);
-        defs.appendChild(marker);
-        markerCache[color] = markerId;
-        return markerId;
-      }
-
-      container.appendChild(svg);
-
-      // Create label for each interactive element
-      let count = 0;
-      for (const { ref, role, element } of refs) {
-        const rect = element.getBoundingClientRect();
-
-        // Skip elements with no size (hidden)
-        if (rect.width === 0 || rect.height === 0) continue;
-
-        // Skip elements that are covered by opaque overlays
-        if (!isElementVisible(element, rect)) continue;
-
-        // Calculate label position and dimensions
-        const labelWidth = ref.length * LABEL_CHAR_WIDTH + 8;
-        const labelLeft = rect.left;
-        const labelTop = Math.max(0, rect.top - LABEL_HEIGHT);
-        const labelRect = {
-          left: labelLeft,
-          top: labelTop,
-          right: labelLeft + labelWidth,
-          bottom: labelTop + LABEL_HEIGHT,
-        };
-
-        // Skip if this label would overlap with any already-placed label
-        let overlaps = false;
-        for (const placed of placedLabels) {
-          if (rectsOverlap(labelRect, placed)) {
-            overlaps = true;
-            break;
-          }
-        }
-        if (overlaps) continue;
-
-        // Get colors for this role
-        const [gradTop, gradBottom, border] = roleColors[role] || defaultColors;
-
-        // Place the label
-        const label = doc.createElement('div');
-        label.className = '__aria_label__';
-        label.textContent = ref;
-        label.style.background = `linear-gradient(to bottom, ${gradTop} 0%, ${gradBottom} 100%)`;
-        label.style.border = `1px solid ${border}`;
-
-        // Position above element, accounting for scroll
-        label.style.left = `${win.scrollX + labelLeft}px`;
-        label.style.top = `${win.scrollY + labelTop}px`;
-
-        container.appendChild(label);
-
-        // Draw connector line from label bottom-center to element center with arrow
-        const line = doc.createElementNS('http://www.w3.org/2000/svg', 'line');
-        const labelCenterX = win.scrollX + labelLeft + labelWidth / 2;
-        const labelBottomY = win.scrollY + labelTop + LABEL_HEIGHT;
-        const elementCenterX = win.scrollX + rect.left + rect.width / 2;
-        const elementCenterY = win.scrollY + rect.top + rect.height / 2;
-        line.setAttribute('x1', `${labelCenterX}`);
-        line.setAttribute('y1', `${labelBottomY}`);
-        line.setAttribute('x2', `${elementCenterX}`);
-        line.setAttribute('y2', `${elementCenterY}`);
-        line.setAttribute('stroke', border);
-        line.setAttribute('stroke-width', '1.5');
-        line.setAttribute('marker-end', `url(#${getArrowMarkerId(border)})`);
-        svg.appendChild(line);
-
-        placedLabels.push(labelRect);
-        count++;
-      }
-
-      doc.documentElement.appendChild(container);
-
-      // Auto-hide labels after timeout to prevent stale labels
-      (win as any)[timerKey] = win.setTimeout(function() {
-        doc.getElementById(containerId)?.remove();
-        (win as any)[timerKey] = null;
-      }, autoHideTimeout);
+  // Get accessibility snapshot (with frame-qualified refs)
+  const { snapshot, frames } = await getFrameAwareSnapshot(page);
+  refResolver?.recordSnapshot(page, snapshot, frames);
+
+  // Resolve refs to element handles, filtered to interactive roles if requested
+  const refHandles = await discoverRefs(page, snapshot, frames, interactiveOnly);
+
+  // One evaluate per frame: labels are drawn inside the document that owns the element
+  const byFrame = new Map<Frame, RefHandle[]>();
+  for (const refHandle of refHandles) {
+    const frame = await refHandle.handle.ownerFrame();
+    if (!frame) continue;
+    byFrame.set(frame, [...(byFrame.get(frame) ?? []), refHandle]);
+  }
 
-      return count;
-    },
-    {
-      refs: refsWithRoles.map(({ ref, role, element }) => ({ ref, role, element })),
+  let labelCount = 0;
+  for (const [frame, frameRefs] of byFrame) {
+    labelCount += await frame.evaluate(renderLabels, {
+      refs: frameRefs.map(({ ref, role, handle }) => ({ ref, role, element: handle })),
       containerId: LABELS_CONTAINER_ID,
       containerStyles: CONTAINER_STYLES,
       labelStyles: LABEL_STYLES,
       roleColors: ROLE_COLORS,
       defaultColors: DEFAULT_COLORS,
       autoHideTimeout: timeout,
-    }
-  );
+    });
+  }
 
   return { snapshot, labelCount };
 }
@@ -452,7 +410,8 @@ export async function showAriaRefLabels({
  * Remove all aria ref labels from the page.
  */
 export async function hideAriaRefLabels({ page }: { page: Page }): Promise<void> {
-  await page.evaluate((id) => {
+  // Labels may have been drawn in any frame
+  await Promise.all(page.frames().map((frame) => frame.evaluate((id) => {
     const doc = document;
     const win = window;
 
@@ -464,7 +423,7 @@ export async function hideAriaRefLabels({ page }: { page: Page }): Promise<void>
     }
 
     doc.getElementById(id)?.remove();
-  }, LABELS_CONTAINER_ID);
+  }, LABELS_CONTAINER_ID).catch(() => {})));
 }
 
 /**
@@ -481,15 +440,18 @@ export async function hideAriaRefLabels({ page }: { page: Page }): Promise<void>
 export async function screenshotWithAccessibilityLabels({
   page,
   interactiveOnly = true,
+  refResolver,
 }: {
   page: Page;
   interactiveOnly?: boolean;
+  refResolver?: RefResolver;
 }): Promise<ScreenshotWithLabelsResult> {
   // Show labels and get snapshot
   const { snapshot, labelCount } = await showAriaRefLabels({ 
     page, 
     interactiveOnly,
     timeout: 30000,
+    refResolver,
   });
 
   // Take screenshot
@@ -0,0 +1,124 @@
+/**
+ * On-disk visual baselines, keyed by name + URL + viewport
+ * Each baseline is a PNG with a JSON sidecar describing how it was captured.
+ */
+
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { createScopedFS, ScopedFS } from '../utils/scoped-fs.js';
+
+export interface BaselineInfo {
+  name: string;
+  url: string;             // origin + pathname (query and hash ignored)
+  viewport: string;        // "1280x720"
+  ref?: string;
+  fullPage?: boolean;
+  mask?: string[];
+  createdAt: string;
+  file: string;
+}
+
+export const DEFAULT_BASELINE_DIR = '.visual-baselines';
+
+/**
+ * Normalize a page URL for baseline lookup
+ */
+export function baselineUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+export class BaselineStore {
+  private fs: ScopedFS;
+  private dir: string;
+
+  constructor(dir = DEFAULT_BASELINE_DIR, fs?: ScopedFS) {
+    this.dir = dir;
+    this.fs = fs ?? createScopedFS();
+  }
+
+  /**
+   * File stem for a baseline: readable name plus a short hash of URL and viewport
+   */
+  private stem(name: string, url: string, viewport: string): string {
+    const safeName = name.replace(/[^\w.-]+/g, '_');
+    const hash = createHash('sha1').update(`${baselineUrl(url)}|${viewport}`).digest('hex').slice(0, 10);
+    return `${safeName}--${hash}`;
+  }
+
+  async load(name: string, url: string, viewport: string): Promise<{ png: Buffer; info: BaselineInfo } | null> {
+    const stem = this.stem(name, url, viewport);
+
+    try {
+      const png = await this.fs.promises.readFile(join(this.dir, `${stem}.png`)) as Buffer;
+      const info = JSON.parse((await this.fs.promises.readFile(join(this.dir, `${stem}.json`), 'utf-8')).toString());
+      return { png, info };
+    } catch {
+      return null;
+    }
+  }
+
+  async save(
+    png: Buffer,
+    info: Omit<BaselineInfo, 'createdAt' | 'file' | 'url'> & { url: string }
+  ): Promise<BaselineInfo> {
+    const stem = this.stem(info.name, info.url, info.viewport);
+    const file = join(this.dir, `${stem}.png`);
+    const full: BaselineInfo = { ...info, url: baselineUrl(info.url), createdAt: new Date().toISOString(), file };
+
+    await this.fs.promises.mkdir(this.dir, { recursive: true });
+    await this.fs.promises.writeFile(file, png);
+    await this.fs.promises.writeFile(join(this.dir, `${stem}.json`), JSON.stringify(full, null, 2), 'utf-8');
+
+    return full;
+  }
+
+  /**
+   * Write an auxiliary image (diff/actual) next to a baseline
+   */
+  async saveArtifact(info: BaselineInfo, suffix: string, png: Buffer): Promise<string> {
+    const file = info.file.replace(/\.png$/, `.${suffix}.png`);
+    await this.fs.promises.writeFile(file, png);
+    return file;
+  }
+
+  async list(): Promise<BaselineInfo[]> {
+    let files: string[];
+    try {
+      files = (await this.fs.promises.readdir(this.dir)) as string[];
+    } catch {
+      return [];
+    }
+
+    const result: BaselineInfo[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        result.push(JSON.parse((await this.fs.promises.readFile(join(this.dir, file), 'utf-8')).toString()));
+      } catch {
+        // Unreadable sidecar - skip
+      }
+    }
+
+    return result.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Delete every baseline (all URLs/viewports) with a name
+   */
+  async remove(name: string): Promise<number> {
+    const matching = (await this.list()).filter((info) => info.name === name);
+
+    for (const info of matching) {
+      const stem = info.file.replace(/\.png$/, '');
+      for (const file of [`${stem}.png`, `${stem}.json`, `${stem}.diff.png`, `${stem}.actual.png`]) {
+        await this.fs.promises.rm(file, { force: true });
+      }
+    }
+
+    return matching.length;
+  }
+}
@@ -9,3 +9,7 @@ export {
   type LabelOptions,
   type ScreenshotWithLabelsResult,
 } from './aria-labels.js';
+
+export { decodePng, encodePng, type RawImage } from './png.js';
+export { diffImages, type PixelDiffResult, type PixelDiffOptions, type Rect } from './pixel-diff.js';
+export { BaselineStore, type BaselineInfo } from './baselines.js';
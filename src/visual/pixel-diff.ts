@@ -0,0 +1,113 @@
+/**
+ * Pure-JS pixel diff for visual regression
+ * Perceptual color distance in YIQ space (as in pixelmatch), no native deps.
+ */
+
+import type { RawImage } from './png.js';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelDiffOptions {
+  threshold?: number;    // 0-1 per-pixel color tolerance (default: 0.1)
+  ignore?: Rect[];       // Regions excluded from comparison (masked refs)
+}
+
+export interface PixelDiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  comparedPixels: number;
+  mismatch: number;      // Percentage of compared pixels that differ
+  sizeChanged: boolean;
+  diff: RawImage;        // Faded baseline with differences in red, ignored regions in blue
+}
+
+// Max squared YIQ distance between two colors
+const MAX_YIQ_DELTA = 35215;
+
+function blendWhite(channel: number, alpha: number): number {
+  return 255 + (channel - 255) * alpha;
+}
+
+function yiqDelta(a: Buffer, i: number, b: Buffer, j: number): number {
+  const aa = a[i + 3] / 255;
+  const ba = b[j + 3] / 255;
+  const r1 = blendWhite(a[i], aa), g1 = blendWhite(a[i + 1], aa), b1 = blendWhite(a[i + 2], aa);
+  const r2 = blendWhite(b[j], ba), g2 = blendWhite(b[j + 1], ba), b2 = blendWhite(b[j + 2], ba);
+
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const iq = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
+
+function inRects(x: number, y: number, rects: Rect[]): boolean {
+  return rects.some((r) => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height);
+}
+
+/**
+ * Compare two images. Pixels outside the overlap of differently sized images count as different.
+ */
+export function diffImages(baseline: RawImage, current: RawImage, options: PixelDiffOptions = {}): PixelDiffResult {
+  const threshold = options.threshold ?? 0.1;
+  const ignore = options.ignore ?? [];
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const out = Buffer.alloc(width * height * 4);
+
+  let diffPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      if (inRects(x, y, ignore)) {
+        out[o] = 160; out[o + 1] = 200; out[o + 2] = 255; out[o + 3] = 255;
+        continue;
+      }
+
+      comparedPixels++;
+
+      const inBaseline = x < baseline.width && y < baseline.height;
+      const inCurrent = x < current.width && y < current.height;
+      if (!inBaseline || !inCurrent) {
+        diffPixels++;
+        out[o] = 255; out[o + 1] = 0; out[o + 2] = 255; out[o + 3] = 255;
+        continue;
+      }
+
+      const i = (y * baseline.width + x) * 4;
+      const j = (y * current.width + x) * 4;
+
+      if (yiqDelta(baseline.data, i, current.data, j) > maxDelta) {
+        diffPixels++;
+        out[o] = 255; out[o + 1] = 0; out[o + 2] = 0; out[o + 3] = 255;
+      } else {
+        // Faded grayscale of the baseline for context
+        const gray = 0.299 * baseline.data[i] + 0.587 * baseline.data[i + 1] + 0.114 * baseline.data[i + 2];
+        const faded = Math.round(255 - (255 - gray) * 0.1);
+        out[o] = out[o + 1] = out[o + 2] = faded;
+        out[o + 3] = 255;
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    diffPixels,
+    comparedPixels,
+    mismatch: comparedPixels === 0 ? 0 : (diffPixels / comparedPixels) * 100,
+    sizeChanged: baseline.width !== current.width || baseline.height !== current.height,
+    diff: { width, height, data: out },
+  };
+}
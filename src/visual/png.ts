@@ -0,0 +1,166 @@
+/**
+ * Minimal PNG codec (8-bit, non-interlaced) on top of node:zlib
+ * Enough for Playwright screenshots and the diff images we write back.
+ */
+
+import { inflateSync, deflateSync } from 'node:zlib';
+
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Buffer;          // RGBA, 4 bytes per pixel, row-major
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Bytes per pixel for 8-bit color types: gray, -, RGB, -, gray+alpha, -, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a PNG into RGBA pixels
+ */
+export function decodePng(png: Buffer): RawImage {
+  if (png.length < 8 || !png.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const chunk = png.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  const bpp = CHANNELS[colorType];
+  const stride = width * bpp;
+  const raw = inflateSync(Buffer.concat(idat));
+  const pixels = Buffer.alloc(stride * height);
+
+  // Undo per-scanline filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    const prev = out - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? pixels[out + x - bpp] : 0;
+      const b = y > 0 ? pixels[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? pixels[prev + x - bpp] : 0;
+      let value = line[x];
+
+      switch (filter) {
+        case 1: value += a; break;
+        case 2: value += b; break;
+        case 3: value += (a + b) >> 1; break;
+        case 4: value += paeth(a, b, c); break;
+      }
+
+      pixels[out + x] = value & 0xff;
+    }
+  }
+
+  if (colorType === 6) {
+    return { width, height, data: pixels };
+  }
+
+  // Expand gray / gray+alpha / RGB to RGBA
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0, j = 0; i < pixels.length; i += bpp, j += 4) {
+    if (colorType === 2) {
+      data[j] = pixels[i]; data[j + 1] = pixels[i + 1]; data[j + 2] = pixels[i + 2]; data[j + 3] = 255;
+    } else {
+      data[j] = data[j + 1] = data[j + 2] = pixels[i];
+      data[j + 3] = colorType === 4 ? pixels[i + 1] : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ */
+export function encodePng(image: RawImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;   // bit depth
+  header[9] = 6;   // RGBA
+
+  // Filter type 0 (none) on every scanline; deflate does the work
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
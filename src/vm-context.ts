@@ -6,7 +6,7 @@
 import vm from 'node:vm';
 import crypto from 'node:crypto';
 import { createRequire } from 'node:module';
-import type { Page, BrowserContext } from 'playwright';
+import type { Page, BrowserContext, Locator } from 'playwright';
 import { createScopedFS, ScopedFS } from './utils/scoped-fs.js';
 import { createCapturedConsole, formatConsoleLogs, type ConsoleLogs } from './utils/console-capture.js';
 import { BrowserManager } from './browser.js';
@@ -18,7 +18,17 @@ import {
   createEditor,
   getStylesForLocator,
   formatStylesAsText,
+  getContrastForLocator,
   getReactSource,
+  createProfiler,
+  formatProfileAsText,
+  createCoverage,
+  formatCoverageAsText,
+  createHeapProfiler,
+  diffHeapSnapshots,
+  formatHeapSnapshotAsText,
+  formatHeapDiffAsText,
+  formatDetachedNodesAsText,
 } from './devtools/index.js';
 
 // Visual labels imports (Phase 5)
@@ -33,6 +43,7 @@ import { waitForPageLoad, WaitForPageLoadOptions, WaitForPageLoadResult } from '
 import { getLatestLogs, clearAllLogs } from './utils/browser-logs.js';
 import { getCleanHTML, GetCleanHTMLOptions } from './utils/clean-html.js';
 import { getLocatorStringForElement } from './utils/locator-string.js';
+import { formatResolvedRef } from './utils/ref-resolver.js';
 
 // Create require function for use in sandbox
 const require = createRequire(import.meta.url);
@@ -145,12 +156,77 @@ export class CodeExecutionTimeoutError extends Error {
   }
 }
 
+// Locator methods that return a Locator synchronously; every other method returns a Promise
+const CHAINING_LOCATOR_METHODS = new Set([
+  'locator', 'getByRole', 'getByText', 'getByLabel', 'getByPlaceholder', 'getByAltText',
+  'getByTitle', 'getByTestId', 'first', 'last', 'nth', 'filter', 'and', 'or', 'describe',
+]);
+
+/**
+ * A Locator stand-in that resolves its target on first use.
+ * Chaining methods return further lazy locators, actions await the resolution.
+ */
+function createLazyLocator(resolve: () => Promise<Locator>): Locator {
+  let resolved: Promise<Locator> | null = null;
+  const target = () => (resolved ??= resolve());
+
+  return new Proxy({} as Locator, {
+    get(_target, prop) {
+      // Not a thenable - `await $('e5')` must not try to resolve it
+      if (prop === 'then' || typeof prop === 'symbol') return undefined;
+      if (CHAINING_LOCATOR_METHODS.has(prop)) {
+        return (...args: unknown[]) => createLazyLocator(async () => {
+          const locator = await target();
+          return (locator[prop as keyof Locator] as (...a: unknown[]) => Locator)(...args);
+        });
+      }
+      return async (...args: unknown[]) => {
+        const locator = await target();
+        return (locator[prop as keyof Locator] as (...a: unknown[]) => unknown)(...args);
+      };
+    },
+  });
+}
+
 /**
  * Create $ shorthand function for locator access.
- * Usage: $('e5') returns page.locator('aria-ref=e5')
+ * Usage: $('e5') returns page.locator('aria-ref=e5'), or the re-resolved
+ * locator if the ref went stale after navigation - also when the snippet
+ * itself navigated before calling $(). Frame refs ($('f1e5')) resolve
+ * inside their iframe.
  */
-function createRefHelper(page: Page, lastSnapshotRef: { value: string | null }) {
+function createRefHelper(
+  page: Page,
+  browserManager: BrowserManager,
+  lastSnapshotRef: { value: string | null },
+  resolvedRefs: Map<string, Locator | Error>,
+  log: (message: string) => void
+) {
+  const resolver = browserManager.getRefResolver();
+  // Refs were pre-resolved against this navigation
+  const generation = resolver.getGeneration(page);
+
   return function $(ref: string) {
+    const resolved = resolvedRefs.get(ref);
+    const navigated = resolver.getGeneration(page) !== generation;
+    if (resolved instanceof Error && !navigated) {
+      throw resolved;
+    }
+    if (resolved && !navigated) {
+      return resolved;
+    }
+
+    // Went stale while the snippet ran (it navigated) - $() is synchronous, so resolve on first use
+    if (resolver.isStale(page, ref)) {
+      return createLazyLocator(async () => {
+        const result = await resolver.resolve(page, ref);
+        if (result.strategy !== 'aria-ref') {
+          log(formatResolvedRef(result));
+        }
+        return result.locator;
+      });
+    }
+
     // Validate ref exists in last snapshot if we have one
     if (lastSnapshotRef.value && !lastSnapshotRef.value.includes(`[ref=${ref}]`)) {
       throw new Error(
@@ -158,10 +234,44 @@ function createRefHelper(page: Page, lastSnapshotRef: { value: string | null })
         `Call snapshot tool again to get fresh refs.`
       );
     }
-    return page.locator(`aria-ref=${ref}`);
+    return browserManager.getRefLocator(page, ref);
   };
 }
 
+/**
+ * Re-resolve stale refs used as $('eN') in the code before it runs.
+ * $() must stay synchronous for chaining, so the async lookup happens up front.
+ */
+async function preResolveRefs(
+  code: string,
+  page: Page,
+  browserManager: BrowserManager,
+  log: (message: string) => void
+): Promise<Map<string, Locator | Error>> {
+  const resolver = browserManager.getRefResolver();
+  const resolvedRefs = new Map<string, Locator | Error>();
+  const refs = new Set([...code.matchAll(/\$\(\s*['"`]([^'"`]+)['"`]\s*\)/g)].map((m) => m[1]));
+
+  // Fingerprint live refs before the code can navigate away from them
+  await resolver.captureDetails(page, [...refs].filter((ref) => !resolver.isStale(page, ref)));
+
+  for (const ref of refs) {
+    if (!resolver.isStale(page, ref)) continue;
+
+    try {
+      const resolved = await resolver.resolve(page, ref);
+      resolvedRefs.set(ref, resolved.locator);
+      if (resolved.strategy !== 'aria-ref') {
+        log(formatResolvedRef(resolved));
+      }
+    } catch (error) {
+      resolvedRefs.set(ref, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  return resolvedRefs;
+}
+
 /**
  * Execute code in a sandboxed VM context.
  */
@@ -177,6 +287,7 @@ export async function executeInVM(
 
   // Track last snapshot for ref validation
   const lastSnapshotRef = { value: null as string | null };
+  const resolvedRefs = await preResolveRefs(code, page, browserManager, (message) => customConsole.log(message));
 
   // Helper to get accessibility snapshot
   const accessibilitySnapshot = async (): Promise<string> => {
@@ -191,7 +302,8 @@ export async function executeInVM(
     context,
     state,
     console: customConsole,
-    $: createRefHelper(page, lastSnapshotRef),
+    $: createRefHelper(page, browserManager, lastSnapshotRef, resolvedRefs, (message) => customConsole.log(message)),
+    resolveRef: (ref: string) => browserManager.resolveRef(page, ref),
     accessibilitySnapshot,
     require: sandboxedRequire,
     ...SAFE_GLOBALS,
@@ -202,14 +314,24 @@ export async function executeInVM(
     createEditor,
     getStylesForLocator,
     formatStylesAsText,
+    getContrastForLocator,
     getReactSource,
+    createProfiler,
+    formatProfileAsText,
+    createCoverage,
+    formatCoverageAsText,
+    createHeapProfiler,
+    diffHeapSnapshots,
+    formatHeapSnapshotAsText,
+    formatHeapDiffAsText,
+    formatDetachedNodesAsText,
     
     // Visual Labels (Phase 5) - Vimium-style overlays
     showAriaRefLabels: (options?: { interactiveOnly?: boolean; timeout?: number }) =>
-      showAriaRefLabels({ page, ...options }),
+      showAriaRefLabels({ page, ...options, refResolver: browserManager.getRefResolver() }),
     hideAriaRefLabels: () => hideAriaRefLabels({ page }),
     screenshotWithAccessibilityLabels: (options?: { interactiveOnly?: boolean }) =>
-      screenshotWithAccessibilityLabels({ page, ...options }),
+      screenshotWithAccessibilityLabels({ page, ...options, refResolver: browserManager.getRefResolver() }),
 
     // Utilities - Smart page load detection
     waitForPageLoad: (options?: Omit<WaitForPageLoadOptions, 'page'>) =>
@@ -261,7 +383,7 @@ export function formatVMResult(result: VMExecutionResult): string {
   if (result.error) {
     const isTimeout = result.error instanceof CodeExecutionTimeoutError;
     const hint = isTimeout ? '' : 
-      '\n\n[HINT: If this is a stale ref error, call snapshot tool again to get fresh refs.]';
+      '\n\n[HINT: If a ref could not be re-resolved after navigation, call snapshot tool again to get fresh refs.]';
     responseText += `Error: ${result.error.message}${hint}`;
     return responseText;
   }
@@ -62,16 +62,34 @@ describe('E2E: MCP Client with Hacker News', () => {
     const response = await client.listTools();
 
     assert.ok(response.tools, 'Should return tools array');
-    assert.strictEqual(response.tools.length, 5, 'Should have 5 tools');
+    assert.strictEqual(response.tools.length, 23, 'Should have 23 tools');
 
     const toolNames = response.tools.map(t => t.name);
     assert.ok(toolNames.includes('snapshot'), 'Should include snapshot tool');
     assert.ok(toolNames.includes('screenshot'), 'Should include screenshot tool');
     assert.ok(toolNames.includes('browser_execute'), 'Should include execute tool');
     assert.ok(toolNames.includes('browser_search_snapshot'), 'Should include search tool');
+    assert.ok(toolNames.includes('browser_expand_snapshot'), 'Should include expand tool');
+    assert.ok(toolNames.includes('browser_list_items'), 'Should include list items tool');
+    assert.ok(toolNames.includes('browser_extract'), 'Should include extract tool');
+    assert.ok(toolNames.includes('browser_form'), 'Should include form tool');
+    assert.ok(toolNames.includes('browser_events'), 'Should include events tool');
+    assert.ok(toolNames.includes('browser_storage_state'), 'Should include storage state tool');
+    assert.ok(toolNames.includes('browser_cookies'), 'Should include cookies tool');
+    assert.ok(toolNames.includes('browser_emulate'), 'Should include emulate tool');
+    assert.ok(toolNames.includes('browser_profile'), 'Should include profile tool');
+    assert.ok(toolNames.includes('browser_coverage'), 'Should include coverage tool');
+    assert.ok(toolNames.includes('browser_heap'), 'Should include heap tool');
     assert.ok(toolNames.includes('browser_network_requests'), 'Should include network tool');
-
-    console.log('✓ All 5 tools are available');
+    assert.ok(toolNames.includes('browser_sessions'), 'Should include sessions tool');
+    assert.ok(toolNames.includes('browser_tabs'), 'Should include tabs tool');
+    assert.ok(toolNames.includes('browser_recording'), 'Should include recording tool');
+    assert.ok(toolNames.includes('browser_network_har'), 'Should include HAR tool');
+    assert.ok(toolNames.includes('browser_route'), 'Should include route tool');
+    assert.ok(toolNames.includes('browser_a11y_audit'), 'Should include a11y audit tool');
+    assert.ok(toolNames.includes('browser_visual_compare'), 'Should include visual compare tool');
+
+    console.log('✓ All 23 tools are available');
   });
 
   test('browser_execute: Navigate to Hacker News', async () => {
@@ -199,6 +217,137 @@ describe('E2E: MCP Client with Hacker News', () => {
     console.log('✓ Got fresh snapshot after navigation');
   });
 
+  test('snapshot: showDiff reports semantic changes', async () => {
+    await client.callTool({ name: 'snapshot', arguments: { showDiff: true } });
+
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.evaluate(() => {
+  const button = document.createElement('button');
+  button.textContent = 'Diff marker';
+  document.body.prepend(button);
+})`,
+      },
+    });
+
+    const response = await client.callTool({ name: 'snapshot', arguments: { showDiff: true } });
+    assert.strictEqual(response.isError || false, false, 'Should not have errors');
+    const text = response.content[0].text;
+
+    assert.ok(text.startsWith('### Snapshot Diff:'), 'Should have diff summary header');
+    assert.ok(/^\+ button "Diff marker" \[ref=e\d+\]/m.test(text), 'Should report the added button with its ref');
+
+    console.log('✓ Semantic snapshot diff works');
+  });
+
+  test('snapshot: Token budget collapses subtrees that can be expanded', async () => {
+    const response = await client.callTool({
+      name: 'snapshot',
+      arguments: { maxLines: 15 },
+    });
+
+    assert.strictEqual(response.isError || false, false, 'Should not have errors');
+    const text = response.content[0].text;
+    const outlineLines = text.slice(text.indexOf('Page Outline')).split('\n').slice(1);
+    assert.ok(outlineLines.length <= 15, 'Should respect the line budget');
+
+    const placeholder = text.match(/\[\+(\d+) nodes, ref=(e\d+)\]/);
+    assert.ok(placeholder, 'Should contain a collapsed placeholder');
+
+    const expanded = await client.callTool({
+      name: 'browser_expand_snapshot',
+      arguments: { ref: placeholder[2], maxLines: 30 },
+    });
+
+    assert.strictEqual(expanded.isError || false, false, 'Should not have errors');
+    assert.ok(expanded.content[0].text.startsWith(`### Expanded ref=${placeholder[2]}`), 'Should expand the placeholder');
+    assert.ok(expanded.content[0].text.includes('[ref='), 'Expanded subtree should have refs');
+
+    console.log('✓ Budgeted snapshot collapsed and expanded');
+  });
+
+  test('snapshot: Scope to a subtree by selector and ref', async () => {
+    const bySelector = await client.callTool({
+      name: 'snapshot',
+      arguments: { selector: 'table#hnmain' },
+    });
+
+    assert.strictEqual(bySelector.isError || false, false, 'Should not have errors');
+    const text = bySelector.content[0].text;
+    const header = text.match(/### Accessibility Snapshot \(selector=table#hnmain -> ref=(e\d+)\)/);
+    assert.ok(header, 'Should report the scope and its ref');
+
+    const byRef = await client.callTool({
+      name: 'snapshot',
+      arguments: { ref: header[1], compress: false },
+    });
+
+    const scopedLines = byRef.content[0].text.split('\n');
+    assert.ok(scopedLines.some((line) => line.startsWith(`- table [ref=${header[1]}]`)), 'Scoped root should be the element');
+
+    const diff = await client.callTool({
+      name: 'snapshot',
+      arguments: { ref: header[1], showDiff: true },
+    });
+    assert.ok(
+      diff.content[0].text.includes('No changes detected') || diff.content[0].text.startsWith(`### Snapshot Diff (ref=${header[1]})`),
+      'Should diff against the same scope'
+    );
+
+    console.log('✓ Scoped snapshots by selector and ref');
+  });
+
+  test('browser_list_items: Page through and search a folded list', async () => {
+    const snapshot = await client.callTool({ name: 'snapshot', arguments: {} });
+    const fold = snapshot.content[0].text.match(/\(\.\.\. and (\d+) more similar\) \[refs: (e\d+)/);
+    assert.ok(fold, 'Hacker News should have a folded list');
+
+    const page = await client.callTool({
+      name: 'browser_list_items',
+      arguments: { ref: fold[2], start: 2, count: 3 },
+    });
+
+    assert.strictEqual(page.isError || false, false, 'Should not have errors');
+    const text = page.content[0].text;
+    assert.ok(/^### List in .*\(showing 2-4\)/.test(text), 'Should report the requested range');
+    assert.ok(text.includes('#2') && text.includes('#4'), 'Should number items by list position');
+
+    const search = await client.callTool({
+      name: 'browser_list_items',
+      arguments: { ref: fold[2], search: '/./', count: 1 },
+    });
+    assert.ok(/items match/.test(search.content[0].text), 'Should report search matches');
+
+    console.log('✓ Folded list items paged and searched');
+  });
+
+  test('browser_extract: Extract stories by schema', async () => {
+    const response = await client.callTool({
+      name: 'browser_extract',
+      arguments: {
+        schema: {
+          properties: {
+            title: { type: 'string' },
+            url: { type: 'string', format: 'uri' },
+          },
+          required: ['title'],
+        },
+        limit: 10,
+      },
+    });
+
+    assert.strictEqual(response.isError || false, false, 'Should not have errors');
+    const text = response.content[0].text;
+    assert.ok(/^### Extracted \d+ items/.test(text), 'Should report the item count');
+
+    const items = JSON.parse(text.match(/```json\n([\s\S]*?)\n```/)[1]);
+    assert.ok(items.length > 0 && items.length <= 10, 'Should respect the limit');
+    assert.ok(items.every(item => typeof item.title === 'string'), 'Required fields should be strings');
+
+    console.log(`✓ Extracted ${items.length} items`);
+  });
+
   test('browser_execute: Use $ shorthand for ref interaction', async () => {
     // First get a snapshot to ensure refs are fresh
     await client.callTool({
@@ -225,6 +374,35 @@ describe('E2E: MCP Client with Hacker News', () => {
     console.log('✓ Successfully accessed elements');
   });
 
+  test('browser_execute: Stale ref is re-resolved after navigation', async () => {
+    const snapshot = await client.callTool({
+      name: 'snapshot',
+      arguments: { compress: false },
+    });
+    const match = snapshot.content[0].text.match(/link "past" \[ref=(e\d+)\]/);
+    assert.ok(match, 'Snapshot should contain the "past" link');
+
+    const response = await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.reload(); await page.waitForLoadState('domcontentloaded');`,
+      },
+    });
+    assert.strictEqual(response.isError, false, 'Reload should succeed');
+
+    const resolved = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `return await $('${match[1]}').textContent()` },
+    });
+
+    assert.strictEqual(resolved.isError, false, 'Stale ref should resolve');
+    const text = resolved.content[0].text;
+    assert.ok(text.includes('re-resolved after navigation'), 'Should report re-resolution');
+    assert.ok(text.includes('past'), 'Should resolve to the same link');
+
+    console.log('✓ Stale ref re-resolved');
+  });
+
   test('browser_execute: Use persistent state across calls', async () => {
     // First call: set state
     const response1 = await client.callTool({
@@ -314,6 +492,103 @@ describe('E2E: MCP Client with Hacker News', () => {
     console.log('✓ Network requests captured');
   });
 
+  test('browser_network_requests: Filter and show request detail', async () => {
+    // Capture is running now, so this navigation's document is recorded
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "await page.goto('https://news.ycombinator.com'); await page.waitForLoadState('networkidle')" },
+    });
+
+    const filtered = await client.callTool({
+      name: 'browser_network_requests',
+      arguments: { resourceType: ['document'], status: '2xx' },
+    });
+    const text = filtered.content[0].text;
+    const match = text.match(/#(\d+) GET https:\/\/news\.ycombinator\.com\S* \[200\]/);
+    assert.ok(match, 'Should list the HN document with its id');
+
+    const detail = await client.callTool({
+      name: 'browser_network_requests',
+      arguments: { id: Number(match[1]), maxLength: 500 },
+    });
+    const detailText = detail.content[0].text;
+    assert.ok(detailText.includes('Response headers:'), 'Should include response headers');
+    assert.ok(detailText.includes('Response body (chars 0-'), 'Should include a body page');
+    assert.ok(detailText.includes('[More: call again with offset: 500]'), 'Should paginate the body');
+
+    console.log('✓ Network filter and detail view work');
+  });
+
+  test('browser_network_requests: Failed requests show their reason', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "await page.evaluate(() => fetch('http://127.0.0.1:9/unreachable').catch(() => null));" },
+    });
+
+    const response = await client.callTool({
+      name: 'browser_network_requests',
+      arguments: { urlPattern: '127.0.0.1:9' },
+    });
+    assert.ok(response.content[0].text.includes('[failed: '), 'Should show the failure reason');
+
+    console.log('✓ Failed request reported');
+  });
+
+  test('browser_network_har: Export and replay captured traffic', async () => {
+    const exported = await client.callTool({
+      name: 'browser_network_har',
+      arguments: { action: 'export', path: '/tmp/e2e-network.har' },
+    });
+    assert.ok(!exported.isError, 'Export should succeed');
+    assert.ok(exported.content[0].text.match(/Exported \d+ requests/), 'Should report exported entries');
+
+    const replay = await client.callTool({
+      name: 'browser_network_har',
+      arguments: { action: 'replay', path: '/tmp/e2e-network.har', notFound: 'fallback' },
+    });
+    assert.ok(!replay.isError, 'Replay should start');
+
+    const reload = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "await page.reload(); return await page.title();" },
+    });
+    assert.ok(reload.content[0].text.includes('Hacker News'), 'Page should load from the HAR');
+
+    const stopped = await client.callTool({ name: 'browser_network_har', arguments: { action: 'stop' } });
+    assert.ok(!stopped.content[0].text.includes(' 0 served'), 'Replay should have served the document');
+
+    console.log('✓ HAR exported and replayed');
+  });
+
+  test('browser_route: Mock a JSON endpoint', async () => {
+    const added = await client.callTool({
+      name: 'browser_route',
+      arguments: {
+        action: 'add',
+        url: '**/mock-api/user',
+        behavior: 'fulfill',
+        contentType: 'application/json',
+        body: '{"name":"Mocked"}',
+      },
+    });
+    assert.ok(added.content[0].text.includes('r1'), 'Should report the rule id');
+
+    const fetched = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "return await page.evaluate(() => fetch('/mock-api/user').then(r => r.json()));" },
+    });
+    assert.ok(fetched.content[0].text.includes('Mocked'), 'Fetch should get the mocked body');
+
+    const network = await client.callTool({ name: 'browser_network_requests', arguments: {} });
+    assert.ok(network.content[0].text.includes('Active routes'), 'Network output should list active routes');
+
+    await client.callTool({ name: 'browser_route', arguments: { action: 'clear' } });
+    const listed = await client.callTool({ name: 'browser_route', arguments: { action: 'list' } });
+    assert.ok(listed.content[0].text.includes('No active routes'), 'Rules should be cleared');
+
+    console.log('✓ Route mocked and cleared');
+  });
+
   test('browser_execute: Access utility functions', async () => {
     const response = await client.callTool({
       name: 'browser_execute',
@@ -385,6 +660,402 @@ describe('E2E: MCP Client with Hacker News', () => {
     console.log('✓ Timeout handling works correctly');
   });
 
+  test('browser_sessions: Sessions have isolated state', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "state.sessionMarker = 'default'" },
+    });
+
+    const created = await client.callTool({
+      name: 'browser_sessions',
+      arguments: { action: 'create', name: 'second' },
+    });
+    assert.ok(!created.isError, 'Should create session');
+
+    const response = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: 'return state.sessionMarker ?? "unset"' },
+    });
+    assert.ok(response.content[0].text.includes('unset'), 'New session should have its own state');
+
+    const list = await client.callTool({
+      name: 'browser_sessions',
+      arguments: { action: 'list' },
+    });
+    assert.ok(list.content[0].text.includes('* second'), 'New session should be active');
+
+    await client.callTool({ name: 'browser_sessions', arguments: { action: 'destroy', name: 'second' } });
+
+    const restored = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: 'return state.sessionMarker' },
+    });
+    assert.ok(restored.content[0].text.includes('default'), 'Should fall back to default session');
+
+    console.log('✓ Sessions are isolated');
+  });
+
+  test('browser_tabs: Open, select and close tabs', async () => {
+    const opened = await client.callTool({
+      name: 'browser_tabs',
+      arguments: { action: 'new', url: 'https://news.ycombinator.com/newest' },
+    });
+    assert.ok(opened.content[0].text.includes('* 1:'), 'New tab should be current');
+
+    const response = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: 'return page.url()' },
+    });
+    assert.ok(response.content[0].text.includes('newest'), 'Execute should act on the new tab');
+
+    const closed = await client.callTool({
+      name: 'browser_tabs',
+      arguments: { action: 'close' },
+    });
+    assert.ok(closed.content[0].text.includes('Tabs (1'), 'Should have one tab left');
+    assert.ok(closed.content[0].text.includes('* 0:'), 'First tab should be current again');
+
+    console.log('✓ Tab management works');
+  });
+
+  test('browser_recording: Export recorded steps as a Playwright test', async () => {
+    await client.callTool({ name: 'browser_recording', arguments: { action: 'start' } });
+
+    const snapshot = await client.callTool({ name: 'snapshot', arguments: { compress: false } });
+    const match = snapshot.content[0].text.match(/link "new" \[ref=(e\d+)\]/);
+    assert.ok(match, 'Snapshot should contain the "new" link');
+
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await $('${match[1]}').click(); await page.waitForLoadState('domcontentloaded');` },
+    });
+
+    const exported = await client.callTool({
+      name: 'browser_recording',
+      arguments: { action: 'export', path: '/tmp/e2e-recorded.spec.ts', testName: 'open newest' },
+    });
+
+    assert.ok(!exported.isError, 'Export should succeed');
+    const text = exported.content[0].text;
+    assert.ok(text.includes("import { test, expect } from '@playwright/test'"), 'Should be a Playwright spec');
+    assert.ok(!text.includes(`$('${match[1]}')`), 'Refs should be rewritten to durable locators');
+    assert.ok(text.includes('toHaveURL'), 'Should assert the navigation');
+
+    await client.callTool({ name: 'browser_recording', arguments: { action: 'stop' } });
+
+    console.log('✓ Recorded session exported');
+  });
+
+  test('browser_a11y_audit: Report issues with refs', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "await page.goto('https://news.ycombinator.com'); await page.waitForLoadState('domcontentloaded');" },
+    });
+
+    const response = await client.callTool({
+      name: 'browser_a11y_audit',
+      arguments: { contrastLimit: 10 },
+    });
+
+    assert.ok(!response.isError, 'Audit should succeed');
+    const text = response.content[0].text;
+    assert.ok(/Accessibility audit of .*: \d+ errors, \d+ warnings/.test(text), 'Should summarize severities');
+    assert.ok(text.includes('Contrast: '), 'Should report contrast coverage');
+
+    console.log('✓ Accessibility audit completed');
+  });
+
+  test('browser_visual_compare: Baseline, pass, then detect a change', async () => {
+    const baselineDir = '/tmp/e2e-visual-baselines';
+    await client.callTool({ name: 'browser_visual_compare', arguments: { action: 'delete', name: 'hn', baselineDir } });
+
+    const created = await client.callTool({
+      name: 'browser_visual_compare',
+      arguments: { name: 'hn', baselineDir },
+    });
+    assert.ok(created.content[0].text.includes('Created baseline'), 'First compare should create the baseline');
+
+    const same = await client.callTool({
+      name: 'browser_visual_compare',
+      arguments: { name: 'hn', baselineDir },
+    });
+    assert.ok(same.content[0].text.startsWith('PASS'), 'Unchanged page should pass');
+    assert.strictEqual(same.content[1].type, 'image', 'Should return a diff image');
+
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: "await page.evaluate(() => { document.body.style.background = 'black'; });" },
+    });
+
+    const changed = await client.callTool({
+      name: 'browser_visual_compare',
+      arguments: { name: 'hn', baselineDir },
+    });
+    assert.ok(changed.content[0].text.startsWith('FAIL'), 'Changed page should fail');
+    assert.ok(/Mismatch: [\d.]+%/.test(changed.content[0].text), 'Should report mismatch percentage');
+
+    console.log('✓ Visual regression detected');
+  });
+
+  test('snapshot: Iframes are labelled and their refs resolve through $()', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.setContent('<h1>Checkout</h1><iframe srcdoc="<label>Card number <input id=card></label><button>Pay</button>"></iframe>');
+await page.frames()[1].waitForSelector('#card')`,
+      },
+    });
+
+    const response = await client.callTool({ name: 'snapshot', arguments: { compress: false } });
+    const text = response.content[0].text;
+
+    assert.ok(/- iframe \[url=about:srcdoc\] \[ref=e\d+\]/.test(text), 'Should label the iframe with its URL');
+    const cardRef = text.match(/textbox "Card number" \[ref=(f\d+e\d+)\]/);
+    assert.ok(cardRef, 'Should have a frame-qualified ref for the input');
+
+    const fill = await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await $('${cardRef[1]}').fill('4242'); return await page.frames()[1].inputValue('#card')`,
+      },
+    });
+    assert.strictEqual(fill.isError, false, 'Should not have errors');
+    assert.ok(fill.content[0].text.includes('4242'), 'Should fill the input inside the iframe');
+
+    const shot = await client.callTool({ name: 'screenshot', arguments: { ref: cardRef[1] } });
+    assert.strictEqual(shot.isError || false, false, 'Should screenshot an element inside the iframe');
+
+    console.log('✓ Frame-qualified refs resolve inside iframes');
+  });
+
+  test('browser_form: List and bulk-fill a form', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.setContent(\`<form name="signup" action="/signup" method="post">
+  <label>Email <input type="email" name="email" required></label>
+  <label>Country <select name="country"><option>Germany</option><option>France</option></select></label>
+  <fieldset><legend>Plan</legend>
+    <label><input type="radio" name="plan" value="free"> Free</label>
+    <label><input type="radio" name="plan" value="pro"> Pro</label>
+  </fieldset>
+  <label><input type="checkbox" name="terms"> Accept terms</label>
+  <label>Start <input type="date" name="start"></label>
+</form>\`)`,
+      },
+    });
+
+    const list = await client.callTool({ name: 'browser_form', arguments: {} });
+    const fields = list.content[0].text;
+    assert.ok(/1 form, 5 fields/.test(fields), 'Should list every field');
+    assert.ok(/"Email" email, required \[ref=e\d+\]/.test(fields), 'Should report type and required');
+    assert.ok(fields.includes('options: Germany | France'), 'Should list select options');
+    assert.ok(/"Plan" radio: \( \) Free/.test(fields), 'Should group radios');
+
+    const fill = await client.callTool({
+      name: 'browser_form',
+      arguments: {
+        values: { Email: 'not-an-email', Country: 'France', Plan: 'Pro', 'Accept terms': true, Start: '2024-03-05' },
+      },
+    });
+    const report = fill.content[0].text;
+    assert.ok(report.startsWith('### Filled 5 of 5 fields'), 'Should fill every field');
+    assert.ok(/### Validation errors[\s\S]*"Email"/.test(report), 'Should report the invalid email');
+
+    const values = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `return await page.$eval('form', f => JSON.stringify(Object.fromEntries(new FormData(f))))` },
+    });
+    const submitted = values.content[0].text;
+    assert.ok(submitted.includes('France'), 'Should select the option');
+    assert.ok(submitted.includes('pro') && submitted.includes('2024-03-05'), 'Should check the radio and set the date');
+
+    console.log('✓ Form listed, filled and validated');
+  });
+
+  test('browser_events: Dialogs are auto-accepted or queued, downloads saved', async () => {
+    const alert = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.setContent('<button onclick="alert(1)">Go</button>'); await page.click('button'); return 'clicked'` },
+    });
+    assert.strictEqual(alert.isError, false, 'An alert should not block execute');
+
+    await client.callTool({ name: 'browser_events', arguments: { action: 'policy', policy: 'queue' } });
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.setContent('<button onclick="document.body.dataset.ok = confirm(\\'Sure?\\')">Go</button>'); await page.click('button', { noWaitAfter: true })` },
+    });
+
+    const pending = await client.callTool({ name: 'browser_events', arguments: {} });
+    assert.ok(/dialog-\d+ confirm "Sure\?"/.test(pending.content[0].text), 'Should queue the confirm');
+
+    const accepted = await client.callTool({ name: 'browser_events', arguments: { action: 'accept' } });
+    assert.ok(/confirm "Sure\?" accepted/.test(accepted.content[0].text), 'Should accept the queued dialog');
+    await client.callTool({ name: 'browser_events', arguments: { action: 'policy', policy: 'accept' } });
+
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.setContent('<a download="notes.txt" href="data:text/plain,hello">Get</a>');
+const [download] = await Promise.all([page.waitForEvent('download'), page.click('a')]);
+await download.path()`,
+      },
+    });
+    // The broker copies the file after the download finishes
+    let downloads;
+    for (let i = 0; i < 10; i++) {
+      downloads = await client.callTool({ name: 'browser_events', arguments: {} });
+      if (!downloads.content[0].text.includes('in progress')) break;
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    assert.ok(/completed notes( \(\d+\))?\.txt \(5 B\)/.test(downloads.content[0].text), 'Should save the download');
+
+    console.log('✓ Dialogs and downloads handled');
+  });
+
+  test('browser_storage_state / browser_cookies: Save, clear and restore cookies', async () => {
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.goto('https://news.ycombinator.com', { waitUntil: 'domcontentloaded' })` },
+    });
+
+    const set = await client.callTool({ name: 'browser_cookies', arguments: { action: 'set', name: 'e2e_token', value: 'abc123' } });
+    assert.ok(set.content[0].text.includes('Set cookie e2e_token'), 'Should set the cookie');
+
+    const list = await client.callTool({ name: 'browser_cookies', arguments: { domain: 'ycombinator.com' } });
+    assert.ok(list.content[0].text.includes('e2e_token=abc123'), 'Should list the cookie under its domain');
+
+    const saved = await client.callTool({ name: 'browser_storage_state', arguments: { action: 'save', name: '/tmp/e2e-state.json' } });
+    assert.ok(/^Saved \d+ cookies?/.test(saved.content[0].text), 'Should save the state');
+
+    const deleted = await client.callTool({ name: 'browser_cookies', arguments: { action: 'delete', name: 'e2e_token' } });
+    assert.ok(deleted.content[0].text.startsWith('Deleted 1 cookie'), 'Should delete by name');
+
+    const restored = await client.callTool({ name: 'browser_storage_state', arguments: { action: 'restore', name: '/tmp/e2e-state.json' } });
+    assert.strictEqual(restored.isError || false, false, 'Should not have errors');
+    assert.ok(restored.content[0].text.includes('into a new context'), 'Should restore into a new context');
+
+    const after = await client.callTool({ name: 'browser_cookies', arguments: { name: 'e2e_token' } });
+    assert.ok(after.content[0].text.includes('e2e_token=abc123'), 'Restored context should have the cookie');
+
+    console.log('✓ Storage state saved and restored');
+  });
+
+  test('browser_emulate: Device preset rebuilds the context, media applies in place', async () => {
+    await client.callTool({ name: 'browser_cookies', arguments: { action: 'set', name: 'e2e_keep', value: '1' } });
+
+    const device = await client.callTool({ name: 'browser_emulate', arguments: { device: 'iPhone 13', locale: 'de-DE' } });
+    const text = device.content[0].text;
+    assert.ok(text.includes('Context rebuilt'), 'Device and locale should rebuild the context');
+    assert.ok(text.includes('Viewport is now 390x664'), 'Should use the device viewport');
+
+    const probe = await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `return await page.evaluate(() => [navigator.language, 'ontouchstart' in window, document.cookie].join('|'))` },
+    });
+    assert.ok(probe.content[0].text.includes('de-DE|true'), 'Should emulate locale and touch');
+    assert.ok(probe.content[0].text.includes('e2e_keep=1'), 'Should carry cookies over');
+
+    const dark = await client.callTool({ name: 'browser_emulate', arguments: { colorScheme: 'dark' } });
+    assert.ok(dark.content[0].text.includes('Applied to open tabs'), 'Color scheme should apply in place');
+
+    const reset = await client.callTool({ name: 'browser_emulate', arguments: { reset: true } });
+    assert.ok(reset.content[0].text.includes('Viewport is now 1280x720'), 'Reset should return to the default viewport');
+
+    console.log('✓ Emulation applied and reset');
+  });
+
+  test('browser_profile: Reload reports Web Vitals, code reports hot functions', async () => {
+    const reload = await client.callTool({ name: 'browser_profile', arguments: { reload: true, duration: 500 } });
+    assert.strictEqual(reload.isError || false, false, 'Should not have errors');
+    const text = reload.content[0].text;
+    assert.ok(text.includes('### Profile: reload of'), 'Should label the action');
+    assert.ok(text.includes('- FCP:') && text.includes('- LCP:'), 'A reload should measure paint metrics');
+    assert.ok(text.includes('- TBT:'), 'Should report TBT');
+
+    const busy = await client.callTool({
+      name: 'browser_profile',
+      arguments: {
+        mode: 'cpu',
+        duration: 0,
+        code: `await page.evaluate(() => { function e2eBusyLoop() { const end = performance.now() + 300; let x = 0; while (performance.now() < end) x += Math.sqrt(x + 1); return x; } return e2eBusyLoop(); })`,
+      },
+    });
+    const busyText = busy.content[0].text;
+    assert.ok(!busyText.includes('Web Vitals'), 'CPU mode should skip the trace');
+    assert.ok(busyText.includes('e2eBusyLoop'), 'Should list the busy function by self time');
+
+    console.log('✓ Profile recorded');
+  });
+
+  test('browser_coverage: Unused CSS rules and executed-line markers', async () => {
+    const html = `<style>.used { color: red }
+.dead-rule { color: blue }</style>
+<p class="used">Hi</p>
+<script>//# sourceURL=e2e-coverage.js
+function ran() { return 1; }
+function neverRan() { return 2; }
+ran();
+</script>`;
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.goto('data:text/html,' + encodeURIComponent(${JSON.stringify(html)}))` },
+    });
+
+    // Coverage starts before the reload, so the inline script counts from its first line
+    const result = await client.callTool({
+      name: 'browser_coverage',
+      arguments: { reload: true, detail: 'data:text/html' },
+    });
+    assert.strictEqual(result.isError || false, false, 'Should not have errors');
+    const text = result.content[0].text;
+    assert.ok(text.includes('JS:') && text.includes('CSS:'), 'Should summarise JS and CSS');
+    assert.ok(text.includes('.dead-rule'), 'Should list the unused rule');
+
+    const annotated = await client.callTool({ name: 'browser_coverage', arguments: { annotate: 'e2e-coverage.js' } });
+    const lines = annotated.content[0].text.split('\n');
+    assert.ok(lines.some((line) => line.startsWith('+') && line.includes('function ran()')), 'Should mark the executed function');
+    assert.ok(lines.some((line) => line.startsWith('-') && line.includes('function neverRan()')), 'Should mark the unexecuted function');
+
+    console.log('✓ Coverage recorded and annotated');
+  });
+
+  test('browser_heap: Diff shows leaked objects, detached nodes have retainer paths', async () => {
+    await client.callTool({ name: 'browser_heap', arguments: { action: 'clear' } });
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.setContent('<div id="root"></div>')` },
+    });
+
+    const first = await client.callTool({ name: 'browser_heap', arguments: {} });
+    assert.ok(first.content[0].text.includes('Snapshot #'), 'Should summarise the snapshot');
+
+    await client.callTool({
+      name: 'browser_execute',
+      arguments: {
+        code: `await page.evaluate(() => {
+          class E2eLeak { constructor() { this.payload = new Array(100).fill(1); } }
+          window.e2eLeaks = Array.from({ length: 50 }, () => new E2eLeak());
+          const div = document.createElement('div');
+          document.getElementById('root').appendChild(div);
+          div.remove();
+          window.e2eDetached = div;
+        })`,
+      },
+    });
+
+    const second = await client.callTool({ name: 'browser_heap', arguments: {} });
+    assert.ok(/Snapshot #\d+ -> #\d+/.test(second.content[0].text), 'A second snapshot should show the growth');
+
+    const diff = await client.callTool({ name: 'browser_heap', arguments: { action: 'diff', top: 100 } });
+    assert.ok(/E2eLeak: 0 -> 50 \(50 new\)/.test(diff.content[0].text), 'Diff should show the new objects');
+
+    const detached = await client.callTool({ name: 'browser_heap', arguments: { action: 'detached' } });
+    assert.ok(/e2eDetached.*Detached HTMLDivElement/.test(detached.content[0].text), 'Should show the retainer path');
+
+    console.log('✓ Heap snapshots diffed');
+  });
+
   test('Full workflow: Search, click, verify', async () => {
     // 1. Go to homepage
     await client.callTool({
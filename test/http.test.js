@@ -0,0 +1,178 @@
+/**
+ * HTTP transport tests for even-better-playwright-mcp
+ *
+ * Connects MCP clients over Streamable HTTP to one server sharing a browser.
+ * Uses Node.js built-in test runner (node --test).
+ */
+
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createServerInstance, SessionManager } from '../dist/src/index.js';
+import { startHttpServer } from '../dist/src/http-server.js';
+
+const config = { browser: 'chromium', headless: true };
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'raw-client', version: '1.0.0' },
+  },
+};
+
+async function connectClient(url) {
+  const client = new Client({ name: 'http-test-client', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`)));
+  return client;
+}
+
+// fetch() cannot set Host, so send raw requests
+function rawRequest(url, path, headers) {
+  const { hostname, port } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const req = http.request({ hostname, port, path, method: 'GET', headers }, (res) => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function getConnectionCount(url) {
+  const response = await fetch(`${url}/health`);
+  return (await response.json()).connections;
+}
+
+describe('HTTP: Connections share one browser', () => {
+  let shared;
+  let httpServer;
+  let cleanups = 0;
+
+  before(async () => {
+    shared = new SessionManager(config);
+    httpServer = await startHttpServer({
+      port: 0,
+      createInstance: () => {
+        const instance = createServerInstance(config, { browserProvider: () => shared.getSharedBrowser() });
+        const cleanup = instance.cleanup;
+        instance.cleanup = async () => {
+          cleanups++;
+          await cleanup();
+        };
+        return instance;
+      },
+    });
+  });
+
+  after(async () => {
+    await httpServer.close();
+    await shared.closeAll();
+  });
+
+  test('Two connections get isolated contexts in the same browser', async () => {
+    const first = await connectClient(httpServer.url);
+    const second = await connectClient(httpServer.url);
+
+    await first.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.setContent('<title>first</title>')` },
+    });
+    await second.callTool({
+      name: 'browser_execute',
+      arguments: { code: `await page.setContent('<title>second</title>')` },
+    });
+
+    const title = await first.callTool({
+      name: 'browser_execute',
+      arguments: { code: `return await page.title()` },
+    });
+    assert.ok(title.content[0].text.includes('first'), 'Connections should not share pages');
+
+    const browser = await shared.getSharedBrowser();
+    // The shared session's own context plus one per connection
+    assert.strictEqual(browser.contexts().length, 3, 'Both connections should use the shared browser');
+    assert.strictEqual(await getConnectionCount(httpServer.url), 2);
+
+    await first.close();
+    await second.close();
+    console.log('✓ Two connections shared one browser');
+  });
+
+  test('A failed initialize cleans up its instance', async () => {
+    const before = cleanups;
+    // Missing the Accept header the transport requires
+    const response = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(INITIALIZE),
+    });
+
+    assert.strictEqual(response.status, 406);
+    assert.strictEqual(cleanups, before + 1, 'The instance should be cleaned up');
+    console.log('✓ Failed initialize was cleaned up');
+  });
+});
+
+describe('HTTP: Idle connections expire', () => {
+  let httpServer;
+
+  before(async () => {
+    httpServer = await startHttpServer({
+      port: 0,
+      idleTimeout: 200,
+      createInstance: () => createServerInstance(config),
+    });
+  });
+
+  after(async () => {
+    await httpServer.close();
+  });
+
+  test('A client that never sends DELETE is closed after the idle timeout', async () => {
+    const client = await connectClient(httpServer.url);
+    assert.strictEqual(await getConnectionCount(httpServer.url), 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    assert.strictEqual(await getConnectionCount(httpServer.url), 0, 'Idle connection should be closed');
+
+    await client.close().catch(() => {});
+    console.log('✓ Idle connection expired');
+  });
+});
+
+describe('HTTP: Host and Origin checks', () => {
+  let httpServer;
+
+  before(async () => {
+    httpServer = await startHttpServer({
+      port: 0,
+      createInstance: () => createServerInstance(config),
+    });
+  });
+
+  after(async () => {
+    await httpServer.close();
+  });
+
+  test('A malformed Host header is rejected without crashing the server', async () => {
+    assert.strictEqual(await rawRequest(httpServer.url, '/health', { Host: 'a:b:c' }), 403);
+    assert.strictEqual(await rawRequest(httpServer.url, '//a:b:c/health', {}), 400);
+    assert.strictEqual(await getConnectionCount(httpServer.url), 0, 'Server should still be up');
+    console.log('✓ Malformed requests were rejected');
+  });
+
+  test('Rebound host names and foreign origins are rejected', async () => {
+    const { port } = new URL(httpServer.url);
+    assert.strictEqual(await rawRequest(httpServer.url, '/sse', { Host: `attacker.example:${port}` }), 403);
+    assert.strictEqual(await rawRequest(httpServer.url, '/mcp', { Origin: 'http://attacker.example' }), 403);
+    assert.strictEqual(await rawRequest(httpServer.url, '/health', { Host: `localhost:${port}`, Origin: `http://localhost:${port}` }), 200);
+    console.log('✓ DNS rebinding requests were rejected');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Source map tests for even-better-playwright-mcp
+ *
+ * Covers mapping decoding, index maps with sections, source path matching and how
+ * breakpoint file names pick a script or an original source.
+ * Uses Node.js built-in test runner (node --test).
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { EventEmitter } from 'node:events';
+import { parseSourceMap, matchSourcePath } from '../dist/src/devtools/source-map.js';
+import { createDebugger } from '../dist/src/devtools/debugger.js';
+
+// Line 0: column 0 -> app.ts 2:0, column 16 -> app.ts 2:4 "greet" (multi-digit VLQ "gB")
+// Line 1: column 0 -> app.ts 0:4 (negative line delta "F")
+const SMALL_MAP = {
+  version: 3,
+  sources: ['src/app.ts'],
+  sourcesContent: ['export {};\n\nfunction greet() {}\n'],
+  names: ['greet'],
+  mappings: 'AAEA,gBAAIA;AAFA',
+};
+const SMALL_MAP_URL = 'http://localhost:3000/static/app.js.map';
+const APP_SOURCE = 'http://localhost:3000/static/src/app.ts';
+
+// a.js at 0:0; b.js from line 10, column 5 - the column offset only applies to the section's first line
+const SECTIONED_MAP = {
+  version: 3,
+  sections: [
+    { offset: { line: 0, column: 0 }, map: { version: 3, sources: ['a.js'], mappings: 'AAAA' } },
+    { offset: { line: 10, column: 5 }, map: { version: 3, sources: ['b.js'], names: ['b'], mappings: 'AAAA,EAACA;AACA' } },
+  ],
+};
+const SECTIONED_MAP_URL = 'http://localhost/dist/bundle.js.map';
+
+describe('Source maps: Decoding mappings', () => {
+  const map = parseSourceMap(JSON.stringify(SMALL_MAP), SMALL_MAP_URL);
+
+  test('Sources resolve against the map URL', () => {
+    assert.deepStrictEqual(map.sources, [APP_SOURCE]);
+    assert.strictEqual(map.sourceContent(APP_SOURCE), SMALL_MAP.sourcesContent[0]);
+  });
+
+  test('Generated positions map to original positions', () => {
+    assert.deepStrictEqual(map.originalPositionFor(0, 0), { source: APP_SOURCE, line: 2, column: 0 });
+    assert.deepStrictEqual(map.originalPositionFor(0, 20), { source: APP_SOURCE, line: 2, column: 4, name: 'greet' });
+    assert.deepStrictEqual(map.originalPositionFor(1, 3), { source: APP_SOURCE, line: 0, column: 4 });
+    assert.strictEqual(map.originalPositionFor(5, 0), null, 'Unmapped lines have no position');
+  });
+
+  test('An XSSI guard line is skipped', () => {
+    const guarded = parseSourceMap(`)]}'\n${JSON.stringify(SMALL_MAP)}`, SMALL_MAP_URL);
+    assert.deepStrictEqual(guarded.originalPositionFor(0, 0), { source: APP_SOURCE, line: 2, column: 0 });
+  });
+
+  test('Invalid mappings are rejected', () => {
+    assert.throws(() => parseSourceMap({ ...SMALL_MAP, mappings: 'AA!A' }, SMALL_MAP_URL), /Invalid character "!"/);
+  });
+});
+
+describe('Source maps: Index maps with sections', () => {
+  const map = parseSourceMap(SECTIONED_MAP, SECTIONED_MAP_URL);
+
+  test('Sources of all sections are collected', () => {
+    assert.deepStrictEqual(map.sources, ['http://localhost/dist/a.js', 'http://localhost/dist/b.js']);
+  });
+
+  test('Section offsets shift generated positions', () => {
+    assert.deepStrictEqual(map.originalPositionFor(0, 0), { source: 'http://localhost/dist/a.js', line: 0, column: 0 });
+    assert.deepStrictEqual(map.originalPositionFor(10, 5), { source: 'http://localhost/dist/b.js', line: 0, column: 0 });
+    assert.deepStrictEqual(map.originalPositionFor(10, 7), { source: 'http://localhost/dist/b.js', line: 0, column: 1, name: 'b' });
+    assert.deepStrictEqual(map.originalPositionFor(11, 0), { source: 'http://localhost/dist/b.js', line: 1, column: 1 });
+  });
+});
+
+describe('Source maps: Original to generated positions', () => {
+  test('An original line maps to its first generated position', () => {
+    const map = parseSourceMap(SMALL_MAP, SMALL_MAP_URL);
+    assert.deepStrictEqual(map.generatedPositionFor(APP_SOURCE, 0), { line: 1, column: 0, originalLine: 0 });
+    assert.deepStrictEqual(map.generatedPositionFor(APP_SOURCE, 2), { line: 0, column: 0, originalLine: 2 });
+  });
+
+  test('Lines without code move to the next mapped line', () => {
+    const map = parseSourceMap(SMALL_MAP, SMALL_MAP_URL);
+    assert.deepStrictEqual(map.generatedPositionFor(APP_SOURCE, 1), { line: 0, column: 0, originalLine: 2 });
+    assert.strictEqual(map.generatedPositionFor(APP_SOURCE, 3), null, 'Nothing is mapped after the last line');
+    assert.strictEqual(map.generatedPositionFor('http://localhost:3000/other.ts', 0), null);
+  });
+
+  test('Positions in sections include the section offset', () => {
+    const map = parseSourceMap(SECTIONED_MAP, SECTIONED_MAP_URL);
+    assert.deepStrictEqual(map.generatedPositionFor('http://localhost/dist/b.js', 0), { line: 10, column: 5, originalLine: 0 });
+    assert.deepStrictEqual(map.generatedPositionFor('http://localhost/dist/b.js', 1), { line: 11, column: 0, originalLine: 1 });
+  });
+});
+
+describe('Source maps: Matching file paths to sources', () => {
+  const source = 'webpack://app/src/App.tsx';
+
+  test('getReactSource file names match by path suffix', () => {
+    assert.strictEqual(matchSourcePath(source, '/home/me/app/src/App.tsx'), 2);
+    assert.strictEqual(matchSourcePath(source, 'C:\\Users\\me\\app\\src\\App.tsx'), 2);
+    assert.strictEqual(matchSourcePath('http://localhost:5173/src/App.tsx?t=123', '/home/me/app/src/App.tsx'), 2);
+  });
+
+  test('Short paths match too', () => {
+    assert.strictEqual(matchSourcePath(source, 'src/App.tsx'), 2);
+    assert.strictEqual(matchSourcePath(source, './src/App.tsx'), 2);
+    assert.strictEqual(matchSourcePath(source, 'App.tsx'), 1);
+  });
+
+  test('Paths that only share a file name do not match', () => {
+    assert.strictEqual(matchSourcePath(source, '/home/me/app/src/Other.tsx'), 0);
+    assert.strictEqual(matchSourcePath('webpack://app/src/components/App.tsx', '/home/me/app/lib/App.tsx'), 0);
+  });
+});
+
+function inlineMap(map) {
+  return `data:application/json;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`;
+}
+
+/**
+ * Stand-in CDP session: reports the scripts on Debugger.enable and records breakpoints
+ */
+function createFakeCdp(scripts) {
+  const cdp = new EventEmitter();
+  cdp.breakpoints = [];
+  cdp.send = async (method, params) => {
+    if (method === 'Debugger.enable') {
+      scripts.forEach((script, i) => cdp.emit('Debugger.scriptParsed', { scriptId: String(i + 1), ...script }));
+    }
+    if (method === 'Debugger.setBreakpointByUrl') {
+      cdp.breakpoints.push(params);
+      return { breakpointId: `bp-${cdp.breakpoints.length}` };
+    }
+    return {};
+  };
+  return cdp;
+}
+
+describe('Source maps: Breakpoint files', () => {
+  // Line 0 -> src/main.js, line 1 -> src/a/index.js, line 2 -> src/b/index.js
+  const bundle = {
+    url: 'http://localhost/main.js',
+    sourceMapURL: inlineMap({ version: 3, sources: ['src/main.js', 'src/a/index.js', 'src/b/index.js'], mappings: 'AAAA;ACAA;ACAA' }),
+  };
+  // Vite serves the transformed module under its original path; generated line 1 -> original line 2
+  const viteModule = {
+    url: 'http://localhost:5173/src/App.tsx?t=1',
+    sourceMapURL: inlineMap({ version: 3, sources: ['App.tsx'], mappings: 'AAAA;AAEA' }),
+  };
+
+  test('A script URL means the generated script', async () => {
+    const cdp = createFakeCdp([bundle]);
+    await createDebugger({ cdp }).setBreakpoint({ file: 'main.js', line: 3 });
+    assert.strictEqual(cdp.breakpoints[0].lineNumber, 2);
+    assert.strictEqual(cdp.breakpoints[0].url, undefined, 'Should not bind to src/main.js');
+  });
+
+  test('An original source path maps into its bundle', async () => {
+    const cdp = createFakeCdp([bundle]);
+    await createDebugger({ cdp }).setBreakpoint({ file: 'src/a/index.js', line: 1 });
+    assert.deepStrictEqual(
+      { url: cdp.breakpoints[0].url, lineNumber: cdp.breakpoints[0].lineNumber },
+      { url: bundle.url, lineNumber: 1 }
+    );
+  });
+
+  test('Equally good matches list the candidates', async () => {
+    const cdp = createFakeCdp([bundle]);
+    await assert.rejects(
+      createDebugger({ cdp }).setBreakpoint({ file: 'index.js', line: 1 }),
+      /index\.js matches several sources[\s\S]*src\/a\/index\.js[\s\S]*src\/b\/index\.js/
+    );
+    assert.strictEqual(cdp.breakpoints.length, 0);
+  });
+
+  test('A dev server module uses its original lines', async () => {
+    const cdp = createFakeCdp([viteModule]);
+    await createDebugger({ cdp }).setBreakpoint({ file: 'src/App.tsx', line: 3 });
+    assert.deepStrictEqual(
+      { url: cdp.breakpoints[0].url, lineNumber: cdp.breakpoints[0].lineNumber },
+      { url: viteModule.url, lineNumber: 1 }
+    );
+  });
+});